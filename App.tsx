@@ -1,160 +1,63 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, 
-  PieChart, Pie, Cell, Sector, LabelList
+  PieChart, Pie, Cell, Sector, LabelList, LineChart, Line
 } from 'recharts';
-import { DashboardData } from './types';
-import { parseCSV } from './utils/dataParser';
+import { BuildInfo, ColumnMapping, DashboardData, DataSourceConfig, GateRule, LocalDataSource, LogicalField, ParseWarning, ReadinessInsight, TabColumnMappings, TabSource } from './types';
+import { countMalformedRows, parseCSV, parseCSVStream } from './utils/dataParser';
+import { getNumber, getText, parseDateValue } from './utils/schema';
+import { smartCompare } from './utils/smartCompare';
+import { EXECUTION_COLORS, getBuildTypeStyles, getStatusStyles } from './utils/statusStyles';
+import { BuildRef, buildRefKey, compareBuilds, listBuildRefs } from './utils/buildComparison';
+import { parseViewState, serializeViewState } from './utils/viewState';
+import { addDays, findLastStoreRelease, RELATIVE_DATE_RANGES, RelativeDateRange, resolveDateRange, startOfDay, toISODate } from './utils/dateRanges';
+import { EMPTY_FILTER_SPEC, FILTER_DIMENSIONS, FilterDimension, FilterSpec, filterRows, isFilterActive } from './utils/filterEngine';
+import { FilterPreset, loadFilterPresets, saveFilterPresets } from './utils/filterPresets';
+import { ExportableTable } from './utils/tableExport';
+import { analyzeIssues } from './utils/issueAnalytics';
+import { analyzeValidation } from './utils/ticketValidation';
+import { CHANGE_EVENT_TYPES, ChangeEvent, DEFAULT_NOTIFICATION_PREFS, describeChangeEvent, detectChanges, loadNotificationPrefs, matchesNotificationPrefs, NotificationPrefs, saveNotificationPrefs } from './utils/changeEvents';
+import { computeBuildMetrics, DEFAULT_METRICS_WINDOW, isMetricsWindow, METRICS_WINDOWS, MetricsWindow, MOVING_AVERAGE_SPAN } from './utils/buildMetrics';
+import { gridLayoutKey } from './utils/dataGrid';
+import { DEFAULT_GATE_RULES, evaluateQualityGates, loadGateRules, saveGateRules } from './utils/qualityGates';
+import { BuildReportData, exportReportPdf } from './utils/buildReport';
+import { FIELD_DEFINITIONS, ResolvedColumns, loadColumnMappings, resolveColumns, saveColumnMappings } from './utils/columnMapping';
+import { analyzeBuildReadiness } from './services/geminiService';
+import { 
+  buildCsvUrl, buildDiscoveryUrl, buildProxyDiscoveryUrl, buildProxyTabUrl, fetchDeployedDataSourceConfig, findTabByRole, 
+  getActiveProfile, loadActiveProfileId, loadDataSourceConfig, saveActiveProfileId, saveLocalDataSourceConfig, supportsDiscovery 
+} from './services/dataSources';
+import { DiscoveredSheet, loadPinnedGids, matchSheet, parsePublishedSheets, savePinnedGid, sheetMatchError } from './utils/sheetDiscovery';
+import AIInsights from './components/AIInsights';
+import ColumnMappingPanel from './components/ColumnMappingPanel';
+import DataSourceSettings from './components/DataSourceSettings';
+import FileDropOverlay from './components/FileDropOverlay';
+import BuildComparison from './components/BuildComparison';
+import QualityGatePanel, { GateBadge } from './components/QualityGatePanel';
+import BuildReport from './components/BuildReport';
+import ExportMenu from './components/ExportMenu';
+import IssueAnalytics from './components/IssueAnalytics';
+import ValidationWorkflow from './components/ValidationWorkflow';
+import TimeTravelBar from './components/TimeTravelBar';
+import SnapshotDiffPanel, { LIVE_SNAPSHOT_ID } from './components/SnapshotDiffPanel';
+import ActivityDrawer from './components/ActivityDrawer';
+import ChangeToast from './components/ChangeToast';
+import CustomTooltip from './components/ChartTooltip';
+import MultiSelect from './components/MultiSelect';
+import FilterPresetMenu from './components/FilterPresetMenu';
+import DataGrid, { SpacerRow, useDataGrid, useVirtualRows } from './components/DataGrid';
+import { ACCEPTED_FILE_TYPES, importDataFile } from './services/fileImport';
+import { readCachedSheets, writeCachedSheet } from './services/sheetCache';
+import { hashDashboardData, listSnapshots, loadSnapshotData, recordSnapshot, SnapshotMeta } from './services/snapshotStore';
+import { showBrowserNotification } from './services/browserNotifications';
 
 // --- CONFIGURATION ---
-const PUBLISHED_ID = '2PACX-1vSrx7lqwi5bjj99rYho8jYGBYH47sYw2a5d62uPGrKS-HvSgiz6o-Rx_opsCMGNhVNRjJNx2bi6OTfK';
-const BASE_URL = `https://docs.google.com/spreadsheets/d/e/${PUBLISHED_ID}/pub?output=csv`;
-const HTML_URL = `https://docs.google.com/spreadsheets/d/e/${PUBLISHED_ID}/pubhtml`;
 const REFRESH_INTERVAL = 120000;
+// Activity feed entries kept for the session
+const MAX_ACTIVITY = 200;
 
 const defaultPageTitle = 'Ifocus RC Build Reports';
 
-// Tabs configuration
-const TABS_CONFIG = {
-  SUMMARY: { id: 'summary', label: 'Report Summary', gid: '0', icon: '📊' },
-  NEW_ISSUES: { 
-    id: 'new_issues', 
-    label: 'New Issues', 
-    gid: '476295067', 
-    icon: '🐛',
-    overrideUrl: 'https://docs.google.com/spreadsheets/d/1yjf5kI6WPNwi_WhH3dFTgiIUONztM54I50sJtnr_PxY/export?format=csv&gid=476295067'
-  },
-  VALIDATION: { 
-    id: 'validation', 
-    label: 'Ticket Validation', 
-    gid: '2057375142', 
-    icon: '✅',
-    overrideUrl: 'https://docs.google.com/spreadsheets/d/1yjf5kI6WPNwi_WhH3dFTgiIUONztM54I50sJtnr_PxY/export?format=csv&gid=2057375142'
-  },
-};
-
-const EXECUTION_COLORS = {
-  pass: '#10B981',
-  fail: '#F43F5E',
-  notConsidered: '#94A3B8',
-  automation: '#8B5CF6',
-  manual: '#EC4899',
-  critical: '#EF4444',
-  major: '#F59E0B',
-  minor: '#3B82F6',
-};
-
-const BUILD_COL_ALIASES = ['RC Build', 'Build Version', 'Build', 'Version', 'Build Number', 'Release Build', 'Build details'];
-const PLATFORM_COL_ALIASES = ['Platform', 'OS', 'Environment', 'Device'];
-const DATE_COL_ALIASES = ['Build Date', 'Date', 'Reported Date', 'Created At', 'Start Date'];
-const SEVERITY_COL_ALIASES = ['Severity', 'Issue Severity', 'Priority', 'Status Severity'];
-const STATUS_COL_ALIASES = ['Status', 'Overall Status', 'Result', 'Results', 'Execution Status', 'Build Status'];
-const TYPE_COL_ALIASES = ['Build Type', 'Type', 'Deployment Type', 'Category'];
-const AUTO_COL_ALIASES = ['Automation executed', 'Automation', 'Auto Executed', 'Automation Test Cases'];
-const MANUAL_COL_ALIASES = ['Manual executed', 'Manual', 'Manual Executed', 'Manual Test Cases'];
-const RELEASE_STORE_ALIASES = ['Released to store', 'Store Released', 'Store Status', 'App Store Status', 'Play Store Status'];
-
-// Data extraction aliases for metrics
-const TOTAL_COL_ALIASES = ['Total Test Cases', 'Total', 'Total Cases', 'Total Count'];
-const EXECUTED_COL_ALIASES = ['Executed', 'Execution Count', 'Run'];
-const PASSED_COL_ALIASES = ['Passed', 'Pass', 'Success', 'Passed Cases'];
-const FAILED_COL_ALIASES = ['Failed', 'Fail', 'Failure', 'Failed Cases'];
-const NOT_CONSIDERED_COL_ALIASES = ['Not considered', 'Not Considered', 'N/A', 'Skipped', 'Not Run', 'Pending', 'Not Executed'];
-const CRITICAL_ALIASES = ['Critical Issues', 'Critical'];
-const MAJOR_ALIASES = ['Major Issues', 'Major'];
-const MINOR_ALIASES = ['Minor Issues', 'Minor'];
-
-// --- HELPERS ---
-
-// Robust column finder (case-insensitive)
-const findCol = (headers: string[] = [], aliases: string[] = []) => {
-  if (!headers || headers.length === 0) return undefined;
-  return headers.find(h => aliases.some(a => a.toLowerCase() === h.toLowerCase().trim()));
-};
-
-const getVal = (row: any, header: string | undefined) => {
-  if (!header || row[header] === undefined) return 0;
-  return Number(row[header]) || 0;
-};
-
-const getValByAliases = (row: any, headers: string[], aliases: string[]) => {
-  const col = findCol(headers, aliases);
-  return getVal(row, col);
-};
-
-// Robust comparison helper
-const smartCompare = (a: any, b: any) => {
-  const sa = String(a || '').trim();
-  const sb = String(b || '').trim();
-  
-  if (!sa || !sb) return false;
-  if (sa === sb) return true;
-  if (sa.toLowerCase() === sb.toLowerCase()) return true;
-
-  // Cleanup function: remove prefixes and standardize separators
-  const clean = (s: string) => s
-    .replace(/^(rc|build|v|ver|version)[\s:.-]*/i, '') // Remove prefix words and immediate separators
-    .trim();
-
-  const ca = clean(sa);
-  const cb = clean(sb);
-
-  if (ca === cb) return true;
-  if (ca.toLowerCase() === cb.toLowerCase()) return true;
-
-  // Version segment comparison (handles 1.0 vs 1.0.0, ignores trailing zeros)
-  const isVersion = (s: string) => /^[\d.]+$/.test(s);
-  
-  if (isVersion(ca) && isVersion(cb)) {
-    const splitA = ca.split('.').map(Number);
-    const splitB = cb.split('.').map(Number);
-    
-    // Remove trailing zeros (e.g., 1.0.0 becomes 1)
-    while (splitA.length > 0 && splitA[splitA.length - 1] === 0) splitA.pop();
-    while (splitB.length > 0 && splitB[splitB.length - 1] === 0) splitB.pop();
-    
-    if (splitA.length !== splitB.length) return false;
-    return splitA.every((val, i) => val === splitB[i]);
-  }
-  
-  return false;
-};
-
-/**
- * Reusable helper to determine status styles based on semantic value
- */
-const getStatusStyles = (value: any) => {
-  const s = String(value || '').toLowerCase();
-  
-  if (s.includes('not implemented') || s.includes('not fixed') || s.includes('fail') || s.includes('error')) {
-    return 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400';
-  }
-  if (s.includes('implemented') || s.includes('fixed') || s.includes('pass') || s.includes('success') || s.includes('completed')) {
-    return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400';
-  }
-  if (s.includes('in progress') || s.includes('pending') || s.includes('started')) {
-    return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
-  }
-  if (s.includes('cnv')) {
-    return 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400';
-  }
-  if (s.includes('not considered')) {
-    return 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400';
-  }
-  return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400';
-};
-
-/**
- * Helper to determine Build Type colors
- */
-const getBuildTypeStyles = (type: any) => {
-  const t = String(type || '').toLowerCase();
-  if (t.includes('hotfix')) return 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400';
-  if (t.includes('planned')) return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400';
-  if (t.includes('adhoc') || t.includes('ad-hoc')) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
-  if (t.includes('release')) return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400';
-  return 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400';
-};
 
 // --- INTERFACES ---
 interface MetricCardProps {
@@ -169,8 +72,14 @@ interface CardProps {
   loading?: boolean;
   error?: string | null;
   onRetry?: () => void;
-  discoveredTabs?: Record<string, string>;
+  discoveredTabs?: DiscoveredSheet[];
+  // Makes the discovered sheets clickable, to re-point the failing tab by hand
+  onPickSheet?: (gid: string) => void;
+  // Sheets whose names partly fit the failing tab; listed first in the picker
+  suggestedGids?: string[];
   fullWidth?: boolean;
+  warnings?: ParseWarning[];
+  exportTable?: ExportableTable;
 }
 
 interface BadgeProps {
@@ -183,108 +92,154 @@ interface BadgeProps {
 
 // --- SUB-COMPONENTS ---
 
-const CustomTooltip = ({ active, payload, label }: any) => {
-  if (!active || !payload?.length) return null;
-  const title = label || payload[0].name;
-  return (
-    <div className="bg-white dark:bg-slate-800 p-4 border border-slate-200 dark:border-slate-700 shadow-2xl rounded-2xl animate-in fade-in duration-150 min-w-[160px] pointer-events-none z-[200]">
-      <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-400 mb-2.5 border-b border-slate-100 dark:border-slate-700 pb-2.5 truncate max-w-[200px]">{title}</p>
-      <div className="space-y-2">
-        {payload.map((entry: any, index: number) => {
-          // Robust percentage retrieval for Pie charts
-          const preCalcPercent = entry.payload?.percent;
-          let percentDisplay = null;
-
-          if (preCalcPercent !== undefined && !isNaN(preCalcPercent)) {
-             percentDisplay = (preCalcPercent * 100).toFixed(1);
-          }
-          
-          return (
-            <div key={index} className="flex items-center justify-between gap-6">
-              <div className="flex items-center gap-2.5">
-                <div className="w-2.5 h-2.5 rounded-full ring-2 ring-white shadow-sm" style={{ backgroundColor: entry.color || entry.fill }} />
-                <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200">{entry.name}</span>
-              </div>
-              <div className="flex items-center gap-1.5 text-right">
-                <span className="text-[11px] font-extrabold text-slate-900 dark:text-white">{entry.value}</span>
-                {percentDisplay && (
-                  <span className="text-[10px] font-black text-primary-600 dark:text-primary-400">
-                    ({percentDisplay}%)
-                  </span>
-                )}
-              </div>
-            </div>
-          );
-        })}
-      </div>
-    </div>
-  );
+const MONTH_NAMES = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+// Same day in another month, clamped so 31 Jan + 1 month lands on the last day of February
+const shiftMonths = (date: Date, months: number) => {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
 };
 
+const isSameDay = (a: Date | null, b: Date) =>
+  !!a && a.getDate() === b.getDate() && a.getMonth() === b.getMonth() && a.getFullYear() === b.getFullYear();
+
+/**
+ * Day picker with keyboard support: arrows move by day/week, Home/End to
+ * the week's edges, PageUp/PageDown by month (with Shift by year), Enter
+ * picks and Escape closes. The header jumps to a month or year grid.
+ */
 function Calendar({ selectedDate, onSelect, onClose }: { selectedDate: string, onSelect: (date: string) => void, onClose: () => void }) {
-  const [viewDate, setViewDate] = useState(() => selectedDate ? new Date(selectedDate) : new Date());
-  const month = viewDate.getMonth();
-  const year = viewDate.getFullYear();
+  const selected = parseDateValue(selectedDate);
+  const [focusDate, setFocusDate] = useState(() => selected || startOfDay(new Date()));
+  const [mode, setMode] = useState<'days' | 'months' | 'years'>('days');
+  const gridRef = useRef<HTMLDivElement>(null);
+  const month = focusDate.getMonth();
+  const year = focusDate.getFullYear();
   const daysInMonth = new Date(year, month + 1, 0).getDate();
   const firstDayOfMonth = new Date(year, month, 1).getDay();
-  const monthNames = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
-  const prevMonth = () => setViewDate(new Date(year, month - 1, 1));
-  const nextMonth = () => setViewDate(new Date(year, month + 1, 1));
-  const isSelected = (d: number) => {
-    if (!selectedDate) return false;
-    const s = new Date(selectedDate);
-    return s.getDate() === d && s.getMonth() === month && s.getFullYear() === year;
+  const decadeStart = year - (year % 12);
+  const today = new Date();
+
+  // Keyboard focus follows the focused day, including on open so the arrows work straight away
+  useEffect(() => {
+    if (mode !== 'days') return;
+    gridRef.current?.querySelector<HTMLButtonElement>(`[data-day="${focusDate.getDate()}"]`)?.focus();
+  }, [focusDate, mode]);
+
+  const handleDateClick = (date: Date) => {
+    onSelect(toISODate(date));
+    onClose();
   };
-  const isToday = (d: number) => {
-    const today = new Date();
-    return today.getDate() === d && today.getMonth() === month && today.getFullYear() === year;
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    const weekday = focusDate.getDay();
+    const moves: Record<string, () => Date> = {
+      ArrowLeft: () => addDays(focusDate, -1),
+      ArrowRight: () => addDays(focusDate, 1),
+      ArrowUp: () => addDays(focusDate, -7),
+      ArrowDown: () => addDays(focusDate, 7),
+      Home: () => addDays(focusDate, -weekday),
+      End: () => addDays(focusDate, 6 - weekday),
+      PageUp: () => shiftMonths(focusDate, e.shiftKey ? -12 : -1),
+      PageDown: () => shiftMonths(focusDate, e.shiftKey ? 12 : 1),
+    };
+    if (moves[e.key]) {
+      e.preventDefault();
+      setFocusDate(moves[e.key]());
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      handleDateClick(focusDate);
+    }
   };
-  const handleDateClick = (d: number) => {
-    const date = new Date(year, month, d);
-    const offset = date.getTimezoneOffset();
-    const adjusted = new Date(date.getTime() - (offset * 60 * 1000));
-    onSelect(adjusted.toISOString().split('T')[0]);
-    onClose();
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Escape') return;
+    e.stopPropagation();
+    if (mode === 'days') onClose();
+    else setMode('days');
   };
+
+  const step = (delta: number) => setFocusDate(d => shiftMonths(d, mode === 'days' ? delta : mode === 'months' ? delta * 12 : delta * 144));
+  const title = mode === 'days' ? `${MONTH_NAMES[month]} ${year}` : mode === 'months' ? String(year) : `${decadeStart} – ${decadeStart + 11}`;
+  const pickerButton = (active: boolean) => `py-3 rounded-xl text-[10px] font-black uppercase tracking-wider transition-all ${active ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'}`;
+
   return (
-    <div className="p-4 w-72 select-none">
+    <div className="p-4 w-72 select-none" onKeyDown={handleKeyDown}>
       <div className="flex items-center justify-between mb-4">
-        <button onClick={prevMonth} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-colors text-slate-400 hover:text-primary-600">
+        <button onClick={() => step(-1)} aria-label="Previous" className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-colors text-slate-400 hover:text-primary-600">
           <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M15 19l-7-7 7-7" /></svg>
         </button>
-        <div className="text-[11px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300">
-          {monthNames[month]} {year}
-        </div>
-        <button onClick={nextMonth} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-colors text-slate-400 hover:text-primary-600">
+        <button onClick={() => setMode(mode === 'days' ? 'months' : 'years')} disabled={mode === 'years'} className="px-3 py-1.5 rounded-xl text-[11px] font-black uppercase tracking-widest text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:hover:bg-transparent transition-colors">
+          {title}
+        </button>
+        <button onClick={() => step(1)} aria-label="Next" className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-xl transition-colors text-slate-400 hover:text-primary-600">
           <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M9 5l7 7-7 7" /></svg>
         </button>
       </div>
-      <div className="grid grid-cols-7 gap-1 mb-2">
-        {["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"].map(d => (
-          <div key={d} className="text-center text-[9px] font-black text-slate-400 uppercase">{d}</div>
-        ))}
-      </div>
-      <div className="grid grid-cols-7 gap-1">
-        {Array.from({ length: firstDayOfMonth }).map((_, i) => <div key={`empty-${i}`} />)}
-        {Array.from({ length: daysInMonth }).map((_, i) => {
-          const d = i + 1;
-          const active = isSelected(d);
-          const current = isToday(d);
-          return (
-            <button
-              key={d}
-              onClick={() => handleDateClick(d)}
-              className={`
-                aspect-square rounded-lg text-[10px] font-bold flex items-center justify-center transition-all
-                ${active ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30' : 
-                  current ? 'text-primary-600 bg-primary-50 dark:bg-primary-900/20' : 
-                  'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'}
-              `}
-            >
-              {d}
+
+      {mode === 'months' && (
+        <div className="grid grid-cols-3 gap-2">
+          {MONTH_NAMES.map((name, i) => (
+            <button key={name} onClick={() => { setFocusDate(shiftMonths(focusDate, i - month)); setMode('days'); }} className={pickerButton(i === month)}>
+              {name.slice(0, 3)}
             </button>
-          );
-        })}
+          ))}
+        </div>
+      )}
+
+      {mode === 'years' && (
+        <div className="grid grid-cols-3 gap-2">
+          {Array.from({ length: 12 }).map((_, i) => {
+            const y = decadeStart + i;
+            return (
+              <button key={y} onClick={() => { setFocusDate(shiftMonths(focusDate, (y - year) * 12)); setMode('months'); }} className={pickerButton(y === year)}>
+                {y}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {mode === 'days' && (
+        <>
+          <div className="grid grid-cols-7 gap-1 mb-2">
+            {["Su", "Mo", "Tu", "We", "Th", "Fr", "Sa"].map(d => (
+              <div key={d} className="text-center text-[9px] font-black text-slate-400 uppercase">{d}</div>
+            ))}
+          </div>
+          <div ref={gridRef} role="grid" onKeyDown={handleGridKeyDown} className="grid grid-cols-7 gap-1">
+            {Array.from({ length: firstDayOfMonth }).map((_, i) => <div key={`empty-${i}`} />)}
+            {Array.from({ length: daysInMonth }).map((_, i) => {
+              const d = i + 1;
+              const date = new Date(year, month, d);
+              const active = isSameDay(selected, date);
+              const current = isSameDay(today, date);
+              const focused = d === focusDate.getDate();
+              return (
+                <button
+                  key={d}
+                  data-day={d}
+                  tabIndex={focused ? 0 : -1}
+                  aria-selected={active}
+                  onClick={() => handleDateClick(date)}
+                  className={`
+                    aspect-square rounded-lg text-[10px] font-bold flex items-center justify-center transition-all outline-none focus-visible:ring-2 focus-visible:ring-primary-500
+                    ${active ? 'bg-primary-600 text-white shadow-lg shadow-primary-500/30' : 
+                      current ? 'text-primary-600 bg-primary-50 dark:bg-primary-900/20' : 
+                      'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'}
+                  `}
+                >
+                  {d}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-end mt-3">
+        <button onClick={() => { setFocusDate(startOfDay(new Date())); setMode('days'); }} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-primary-600">Today</button>
       </div>
     </div>
   );
@@ -293,6 +248,7 @@ function Calendar({ selectedDate, onSelect, onClose }: { selectedDate: string, o
 function DateSelector({ value, onChange, placeholder }: { value: string, onChange: (v: string) => void, placeholder: string }) {
   const [isOpen, setIsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
+  const triggerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -305,14 +261,18 @@ function DateSelector({ value, onChange, placeholder }: { value: string, onChang
   }, []);
   
   const formatDate = (val: string) => {
-    if (!val) return placeholder;
-    return new Date(val).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    const date = parseDateValue(val);
+    return date ? date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : placeholder;
   };
 
   return (
     <div className="relative flex-1 min-w-0 h-11" ref={containerRef}>
       <div 
+        ref={triggerRef}
+        role="button"
+        tabIndex={0}
         onClick={() => setIsOpen(!isOpen)}
+        onKeyDown={e => { if (!isOpen && ['Enter', ' ', 'ArrowDown'].includes(e.key)) { e.preventDefault(); setIsOpen(true); } }}
         className={`w-full h-full bg-slate-50 dark:bg-slate-800 px-4 rounded-2xl border transition-all flex items-center justify-between cursor-pointer group z-0 ${isOpen ? 'border-primary-500 ring-2 ring-primary-500/10' : 'border-transparent hover:border-slate-200 dark:hover:border-slate-700'}`}
       >
         <span className={`text-xs font-bold truncate mr-2 ${value ? 'text-slate-900 dark:text-white' : 'text-slate-400'}`}>
@@ -324,7 +284,7 @@ function DateSelector({ value, onChange, placeholder }: { value: string, onChang
       </div>
       {isOpen && (
         <div className="absolute top-full left-0 mt-2 z-[60] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl glass animate-in zoom-in-95 duration-200">
-          <Calendar selectedDate={value} onSelect={onChange} onClose={() => setIsOpen(false)} />
+          <Calendar selectedDate={value} onSelect={onChange} onClose={() => { setIsOpen(false); triggerRef.current?.focus(); }} />
         </div>
       )}
       {value && !isOpen && (
@@ -346,114 +306,488 @@ function DateSelector({ value, onChange, placeholder }: { value: string, onChang
 
 export default function App() {
   const [theme, setTheme] = useState<'light' | 'dark'>(() => (localStorage.getItem('dashboard-theme') as 'light' | 'dark') || 'light');
-  const [dataMap, setDataMap] = useState<Record<string, DashboardData>>({});
-  const [activeTab, setActiveTab] = useState<string>(TABS_CONFIG.SUMMARY.id);
+  // View state shared through the URL; read once so links open exactly where they were copied
+  const [initialView] = useState(() => parseViewState(window.location.search));
+  const [liveDataMap, setDataMap] = useState<Record<string, DashboardData>>({});
+  const [activeTab, setActiveTab] = useState<string>(initialView.tab);
+  const [issuesView, setIssuesView] = useState<'table' | 'analytics'>(initialView.view === 'analytics' ? 'analytics' : 'table');
+  const [validationView, setValidationView] = useState<'workflow' | 'table'>(initialView.view === 'table' ? 'table' : 'workflow');
   const [loadingMap, setLoadingMap] = useState<Record<string, boolean>>({});
   const [errorMap, setErrorMap] = useState<Record<string, string | null>>({});
   const [refreshProgress, setRefreshProgress] = useState(0);
   const [activeIndex, setActiveIndex] = useState(-1);
-  const [selectedPlatform, setSelectedPlatform] = useState<string>('All');
-  const [selectedBuild, setSelectedBuild] = useState<string>('All');
-  const [startDate, setStartDate] = useState<string>('');
-  const [endDate, setEndDate] = useState<string>('');
+  const [selectedPlatforms, setSelectedPlatforms] = useState<string[]>(initialView.platforms);
+  const [selectedBuilds, setSelectedBuilds] = useState<string[]>(initialView.builds);
+  const [startDate, setStartDate] = useState<string>(initialView.startDate);
+  const [endDate, setEndDate] = useState<string>(initialView.endDate);
+  const [dateRange, setDateRange] = useState<RelativeDateRange | ''>(initialView.dateRange);
+  const [dimensionFilters, setDimensionFilters] = useState<Record<FilterDimension, string[]>>(initialView.dimensions);
+  // Exactly one selected build (and platform) drives the build-specific views: Current Status, gate and report
+  const selectedPlatform = selectedPlatforms.length === 1 ? selectedPlatforms[0] : 'All';
+  const selectedBuild = selectedBuilds.length === 1 ? selectedBuilds[0] : 'All';
   
-  const [dynamicGidMap, setDynamicGidMap] = useState<Record<string, string>>({});
-  const [discoveredTabs, setDiscoveredTabs] = useState<Record<string, string>>({});
+  // Profile id -> tab id -> gid found by discovery or picked this session. Keyed by profile so
+  // fetches started in the render that switches profiles cannot use the previous profile's gids
+  const [dynamicGidMap, setDynamicGidMap] = useState<Record<string, Record<string, string>>>({});
+  const [discoveredTabs, setDiscoveredTabs] = useState<DiscoveredSheet[]>([]);
+  const [columnMappings, setColumnMappings] = useState<TabColumnMappings>({});
+  const [isMappingOpen, setIsMappingOpen] = useState(false);
+  const [sourceConfig, setSourceConfig] = useState<DataSourceConfig | null>(null);
+  const [isLocalSourceConfig, setIsLocalSourceConfig] = useState(false);
+  const [profileId, setProfileId] = useState<string | null>(() => initialView.profile || loadActiveProfileId());
+  const [isSourcesOpen, setIsSourcesOpen] = useState(false);
+  const [localSources, setLocalSources] = useState<Record<string, LocalDataSource>>({});
+  const [importError, setImportError] = useState<string | null>(null);
+  // Workbook sheets left out of the last import because no tab carries their name
+  const [skippedSheets, setSkippedSheets] = useState<string[]>([]);
+  const [fetchedAtMap, setFetchedAtMap] = useState<Record<string, string>>({});
+  const [staleMap, setStaleMap] = useState<Record<string, boolean>>({});
+  const [snapshots, setSnapshots] = useState<SnapshotMeta[]>([]);
+  const [isTimeTravelOpen, setIsTimeTravelOpen] = useState(false);
+  // The snapshot the whole dashboard renders from instead of live data
+  const [timeTravel, setTimeTravel] = useState<{ snapshot: SnapshotMeta; data: Record<string, DashboardData> } | null>(null);
+  const [timeTravelError, setTimeTravelError] = useState<string | null>(null);
+  const [diffRange, setDiffRange] = useState<{ from: string; to: string } | null>(null);
+  const timeTravelRequestRef = useRef(0);
+  const [activity, setActivity] = useState<ChangeEvent[]>([]);
+  const [unreadActivity, setUnreadActivity] = useState(0);
+  const [toastEvents, setToastEvents] = useState<ChangeEvent[] | null>(null);
+  const [isActivityOpen, setIsActivityOpen] = useState(false);
+  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPrefs>(DEFAULT_NOTIFICATION_PREFS);
+  // Tabs that already have something to show; a failed refresh then keeps the data instead of an error card
+  const hasDataRef = useRef<Set<string>>(new Set());
+  // Bumped on every profile switch; fetches started for an earlier profile drop their results
+  const profileGenerationRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const isDark = theme === 'dark';
+  const dataMap = timeTravel ? timeTravel.data : liveDataMap;
+  // Read by syncAll to diff a refresh against what was on screen, without re-creating it on every data change
+  const liveDataRef = useRef(liveDataMap);
+  liveDataRef.current = liveDataMap;
+  const notificationPrefsRef = useRef(notificationPrefs);
+  notificationPrefsRef.current = notificationPrefs;
 
   useEffect(() => {
     localStorage.setItem('dashboard-theme', theme);
     document.documentElement.classList.toggle('dark', isDark);
   }, [theme, isDark]);
 
+  useEffect(() => {
+    loadDataSourceConfig().then(({ config, isLocal }) => {
+      setSourceConfig(config);
+      setIsLocalSourceConfig(isLocal);
+    });
+  }, []);
+
+  const profile = useMemo(() => sourceConfig ? getActiveProfile(sourceConfig, profileId) : null, [sourceConfig, profileId]);
+  const tabs = useMemo(() => profile?.tabs || [], [profile]);
+  // Read once per profile; picks made later are carried by dynamicGidMap
+  const pinnedGids = useMemo(() => profile ? loadPinnedGids(profile.id) : {}, [profile]);
+  const activeTabSource = tabs.find(t => t.id === activeTab);
+  // Sub-view kept in the URL; each role's default view is left out
+  const activeTabSubView = activeTabSource?.role === 'issues' && issuesView === 'analytics' ? 'analytics'
+    : activeTabSource?.role === 'validation' && validationView === 'table' ? 'table' : '';
+
+  /**
+   * Tab ids by role; the summary, issues and validation views are wired to these
+   */
+  const tabIds = useMemo(() => ({
+    summary: profile ? findTabByRole(profile, 'summary')?.id || '' : '',
+    issues: profile ? findTabByRole(profile, 'issues')?.id || '' : '',
+    validation: profile ? findTabByRole(profile, 'validation')?.id || '' : '',
+  }), [profile]);
+
+  // Overrides belong to the profile's sheets; another profile may reuse the same tab ids
+  useEffect(() => {
+    if (profile) setColumnMappings(loadColumnMappings(profile.id));
+  }, [profile?.id]);
+
+  const handleColumnMappingsChange = (mappings: TabColumnMappings) => {
+    setColumnMappings(mappings);
+    if (profile) saveColumnMappings(profile.id, mappings);
+  };
+
+  useEffect(() => {
+    if (tabs.length > 0 && !tabs.some(t => t.id === activeTab)) setActiveTab(tabs[0].id);
+  }, [tabs, activeTab]);
+
+  /**
+   * URL <-> view state. User changes push a history entry; the first sync,
+   * back/forward restores and automatic corrections (e.g. a build that does
+   * not exist for the platform) replace the current one instead.
+   * Declared before the build auto-select effect so a flag it sets applies
+   * to the render it causes, not to the one already being committed.
+   */
+  const replaceUrlRef = useRef(true);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  useEffect(() => {
+    if (!profile || !activeTabSource) return;
+    const search = serializeViewState({ profile: profile.id, tab: activeTab, view: activeTabSubView, platforms: selectedPlatforms, builds: selectedBuilds, startDate, endDate, dateRange, dimensions: dimensionFilters });
+    if (search !== window.location.search) {
+      const url = `${window.location.pathname}${search}${window.location.hash}`;
+      if (replaceUrlRef.current) window.history.replaceState(null, '', url);
+      else window.history.pushState(null, '', url);
+    }
+    replaceUrlRef.current = false;
+  }, [profile, activeTabSource, activeTab, activeTabSubView, selectedPlatforms, selectedBuilds, startDate, endDate, dateRange, dimensionFilters]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const view = parseViewState(window.location.search);
+      replaceUrlRef.current = true;
+      if (view.profile) setProfileId(view.profile);
+      if (view.tab) setActiveTab(view.tab);
+      setIssuesView(view.view === 'analytics' ? 'analytics' : 'table');
+      setValidationView(view.view === 'table' ? 'table' : 'workflow');
+      setSelectedPlatforms(view.platforms);
+      setSelectedBuilds(view.builds);
+      setStartDate(view.startDate);
+      setEndDate(view.endDate);
+      setDateRange(view.dateRange);
+      setDimensionFilters(view.dimensions);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch {
+      window.prompt('Copy this link', window.location.href);
+    }
+  };
+
+  /**
+   * Logical field -> sheet column for every loaded tab, honouring user overrides
+   */
+  const columnCacheRef = useRef(new Map<string, { headersKey: string; mapping?: ColumnMapping; columns: ResolvedColumns }>());
+  const columnsByTab = useMemo(() => {
+    const resolved: Record<string, ResolvedColumns> = {};
+    Object.entries(dataMap).forEach(([tabId, d]: [string, DashboardData]) => {
+      // Resolved once per dataset shape; a refresh with the same headers reuses the previous result
+      const headersKey = d.headers.join('\u0000');
+      const mapping = columnMappings[tabId];
+      const cached = columnCacheRef.current.get(tabId);
+      if (cached && cached.headersKey === headersKey && cached.mapping === mapping) {
+        resolved[tabId] = cached.columns;
+      } else {
+        resolved[tabId] = resolveColumns(d.headers, mapping);
+        columnCacheRef.current.set(tabId, { headersKey, mapping, columns: resolved[tabId] });
+      }
+    });
+    return resolved;
+  }, [dataMap, columnMappings]);
+
+  const colFor = useCallback((tabId: string, field: LogicalField) => columnsByTab[tabId]?.[field], [columnsByTab]);
+
   const discoverGids = useCallback(async () => {
+    const generation = profileGenerationRef.current;
     try {
-      const resp = await fetch(`${HTML_URL}&t=${Date.now()}`);
+      const url = !profile ? null : sourceConfig?.proxy ? buildProxyDiscoveryUrl(sourceConfig.proxy, profile) : buildDiscoveryUrl(profile);
+      if (!url) return null;
+      const resp = await fetch(url);
       if (!resp.ok) return null;
-      const html = await resp.text();
-      const tabMap: Record<string, string> = {};
-      const liRegex = /id="sheet-button-([^"]+)">.*?>(.*?)<\/a>/g;
-      let match;
-      while ((match = liRegex.exec(html)) !== null) {
-        const gid = match[1];
-        const name = match[2].trim();
-        tabMap[name] = gid;
-      }
-      if (Object.keys(tabMap).length === 0) {
-        const scriptRegex = /"([^"]+)",\d+,"([^"]+)",\d+,\d+,"[^"]*",\d+/g;
-        while ((match = scriptRegex.exec(html)) !== null) {
-          const gid = match[2];
-          const name = match[1];
-          if (/^\d+$/.test(gid) && name.length < 50) {
-             tabMap[name] = gid;
-          }
-        }
-      }
-      setDiscoveredTabs(tabMap);
-      return tabMap;
+      const sheets: DiscoveredSheet[] = sourceConfig?.proxy ? (await resp.json()).sheets : parsePublishedSheets(await resp.text());
+      if (generation !== profileGenerationRef.current) return null;
+      setDiscoveredTabs(sheets);
+      return sheets;
     } catch (e) {
       return null;
     }
-  }, []);
+  }, [profile, sourceConfig]);
 
-  const fetchData = useCallback(async (tabId: string, silent = false, retryDiscovery = true) => {
+  /**
+   * Reads a tab through the sheet proxy. The proxy remaps moved tabs itself;
+   * discovery here only fills the list shown next to the error.
+   */
+  const fetchFromProxy = useCallback(async (base: string, config: TabSource, retryDiscovery: boolean, gid?: string) => {
+    // no-cache revalidates with the stored ETag, so an unchanged sheet comes back as a 304
+    const resp = await fetch(buildProxyTabUrl(base, profile!, config, gid), { cache: 'no-cache' });
+    if (!resp.ok) {
+      if (resp.status === 404 && retryDiscovery) await discoverGids();
+      const body = await resp.json().catch(() => null);
+      throw new Error(body?.error || `Sheet proxy answered HTTP ${resp.status} for '${config.label}'.`);
+    }
+    return {
+      data: await resp.json() as DashboardData,
+      fetchedAt: resp.headers.get('X-Fetched-At') || new Date().toISOString(),
+      stale: resp.headers.get('X-Sheet-Stale') === 'true',
+    };
+  }, [profile, discoverGids]);
+
+  /**
+   * `gidOverride` fetches a published tab from that gid; state updates would
+   * only reach the next render, so a remap passes its gid in directly.
+   */
+  const fetchData = useCallback(async (tabId: string, silent = false, retryDiscovery = true, gidOverride?: string): Promise<DashboardData | null> => {
     if (!silent) { 
       setLoadingMap(p => ({ ...p, [tabId]: true })); 
       setErrorMap(p => ({ ...p, [tabId]: null })); 
     }
-    const config = (TABS_CONFIG as any)[tabId.toUpperCase()] || Object.values(TABS_CONFIG).find(t => t.id === tabId);
-    if (!config) return;
-    let url: string;
-    if (config.overrideUrl) {
-      url = `${config.overrideUrl}&t=${Date.now()}`;
-    } else {
-      const currentGid = dynamicGidMap[tabId] || config.gid;
-      url = `${BASE_URL}&gid=${currentGid}&t=${Date.now()}`;
-    }
+    const config = tabs.find(t => t.id === tabId);
+    if (!profile || !config) return null;
+    const gid = gidOverride || dynamicGidMap[profile.id]?.[tabId] || pinnedGids[tabId];
+    const generation = profileGenerationRef.current;
+    const isCurrent = () => generation === profileGenerationRef.current;
     try {
-      const resp = await fetch(url);
-      if (!resp.ok) {
-        if ((resp.status === 400 || resp.status === 404) && retryDiscovery && !config.overrideUrl) {
-          const tabs = await discoverGids();
-          if (tabs) {
-            const labelLower = config.label.toLowerCase().replace(/\s/g, '');
-            const foundName = Object.keys(tabs).find(name => {
-              const nameLower = name.toLowerCase().replace(/\s/g, '');
-              return nameLower === labelLower || nameLower.includes(labelLower) || labelLower.includes(nameLower);
-            });
-            if (foundName) {
-              const newGid = tabs[foundName];
-              setDynamicGidMap(prev => ({ ...prev, [tabId]: newGid }));
-              return fetchData(tabId, silent, false);
+      let parsed: DashboardData;
+      let fetchedAt = new Date().toISOString();
+      let stale = false;
+      if (sourceConfig?.proxy) {
+        ({ data: parsed, fetchedAt, stale } = await fetchFromProxy(sourceConfig.proxy, config, retryDiscovery, gid));
+      } else {
+        const resp = await fetch(buildCsvUrl(config, profile, gid));
+        if (!resp.ok) {
+          if ((resp.status === 400 || resp.status === 404) && retryDiscovery && supportsDiscovery(config, profile)) {
+            const match = matchSheet(config.label, await discoverGids() || []);
+            if (!isCurrent()) return null;
+            if (match.kind === 'match') {
+              setDynamicGidMap(prev => ({ ...prev, [profile.id]: { ...prev[profile.id], [tabId]: match.sheet.gid } }));
+              return fetchData(tabId, silent, false, match.sheet.gid);
             }
+            throw new Error(sheetMatchError(config.label, match));
           }
+          throw new Error(`Invalid source configuration. Tab '${config.label}' was not found.`);
         }
-        throw new Error(`Invalid source configuration. Tab '${config.label}' was not found.`);
+        parsed = resp.body ? await parseCSVStream(resp.body) : parseCSV(await resp.text());
       }
-      const text = await resp.text();
-      const parsed = parseCSV(text);
+      if (!isCurrent()) return null;
+      hasDataRef.current.add(tabId);
       setDataMap(p => ({ ...p, [tabId]: parsed }));
+      setFetchedAtMap(p => ({ ...p, [tabId]: fetchedAt }));
+      setStaleMap(p => ({ ...p, [tabId]: stale }));
+      writeCachedSheet(profile.id, tabId, parsed, fetchedAt);
+      return parsed;
     } catch (e: any) {
-      if (!silent) setErrorMap(p => ({ ...p, [tabId]: e.message }));
+      if (!isCurrent()) return null;
+      setStaleMap(p => ({ ...p, [tabId]: true }));
+      if (!silent && !hasDataRef.current.has(tabId)) setErrorMap(p => ({ ...p, [tabId]: e.message }));
+      return null;
     } finally { 
-      if (!silent) setLoadingMap(p => ({ ...p, [tabId]: false })); 
+      if (!silent && isCurrent()) setLoadingMap(p => ({ ...p, [tabId]: false })); 
     }
-  }, [dynamicGidMap, discoverGids]);
+  }, [profile, tabs, sourceConfig, dynamicGidMap, pinnedGids, discoverGids, fetchFromProxy]);
+
+  // A sheet picked from the discovery list sticks for this browser until another is picked
+  const handlePickSheet = (tabId: string, gid: string) => {
+    if (!profile) return;
+    savePinnedGid(profile.id, tabId, gid);
+    setDynamicGidMap(prev => ({ ...prev, [profile.id]: { ...prev[profile.id], [tabId]: gid } }));
+    fetchData(tabId, false, false, gid);
+  };
+
+  // Only tabs read from the profile's published sheet are addressed by gid
+  const pickSheetForActiveTab = activeTabSource && !activeTabSource.url && !activeTabSource.spreadsheetId
+    ? (gid: string) => handlePickSheet(activeTabSource.id, gid)
+    : undefined;
+  const activeTabMatch = pickSheetForActiveTab && discoveredTabs.length > 0 ? matchSheet(activeTabSource!.label, discoveredTabs) : null;
+  const suggestedGids = activeTabMatch?.kind === 'candidates' ? activeTabMatch.candidates.map(c => c.gid) : [];
+
+  /**
+   * Snapshots a sync in which every fetched tab loaded; a partial sync would
+   * look like rows vanishing from the failed tabs.
+   */
+  const recordSync = useCallback(async (synced: TabSource[], results: (DashboardData | null)[]) => {
+    if (!profile || synced.length === 0 || results.some(r => !r)) return;
+    const taken = await recordSnapshot(profile.id, Object.fromEntries(synced.map((t, i) => [t.id, results[i]!])));
+    if (taken) setSnapshots(await listSnapshots(profile.id));
+  }, [profile]);
+
+  const handleChangeEvents = useCallback((events: ChangeEvent[]) => {
+    setActivity(prev => [...events, ...prev].slice(0, MAX_ACTIVITY));
+    setUnreadActivity(n => n + events.length);
+    setToastEvents(events);
+    const prefs = notificationPrefsRef.current;
+    const alerts = prefs.browser ? events.filter(e => matchesNotificationPrefs(e, prefs)) : [];
+    if (alerts.length > 0) {
+      showBrowserNotification(
+        alerts.length === 1 ? CHANGE_EVENT_TYPES[alerts[0].type].label : `${alerts.length} dashboard changes`,
+        alerts.slice(0, 3).map(describeChangeEvent).join('\n'),
+        'dashboard-changes'
+      );
+    }
+  }, []);
 
   const syncAll = useCallback(async (isAuto = false) => {
-    await Promise.all(Object.values(TABS_CONFIG).map(t => fetchData(t.id, isAuto)));
+    // Tabs showing an imported file keep it until the user returns to live data
+    const live = tabs.filter(t => !localSources[t.id]);
+    const before = liveDataRef.current;
+    const generation = profileGenerationRef.current;
+    const results = await Promise.all(live.map(t => fetchData(t.id, isAuto)));
     setRefreshProgress(0);
-  }, [fetchData]);
+    // The profile changed mid-sync: `before` and the results belong to different sheets
+    if (generation !== profileGenerationRef.current) return;
+    const events = live.flatMap((t, i) => {
+      const prev = before[t.id];
+      const next = results[i];
+      return prev && next ? detectChanges(t.role, t.id, prev, next, resolveColumns(next.headers, columnMappings[t.id])) : [];
+    });
+    if (events.length > 0) handleChangeEvents(events);
+    await recordSync(live, results);
+  }, [tabs, localSources, fetchData, recordSync, columnMappings, handleChangeEvents]);
 
-  const handleResetFilters = useCallback(() => {
-    setSelectedPlatform('All');
-    setSelectedBuild('All');
-    setStartDate('');
-    setEndDate('');
+  const dismissToast = useCallback(() => setToastEvents(null), []);
+
+  const handleOpenActivity = () => {
+    setIsActivityOpen(true);
+    setToastEvents(null);
+    setUnreadActivity(0);
+  };
+
+  const handleNotificationPrefsChange = (prefs: NotificationPrefs) => {
+    setNotificationPrefs(prefs);
+    if (profile) saveNotificationPrefs(profile.id, prefs);
+  };
+
+  const handleSelectSnapshot = useCallback(async (snapshot: SnapshotMeta | null) => {
+    // Dragging the slider fires faster than snapshots load; only the latest pick lands
+    const request = ++timeTravelRequestRef.current;
+    setTimeTravelError(null);
+    if (!snapshot) {
+      setTimeTravel(null);
+      return;
+    }
+    try {
+      const data = await loadSnapshotData(snapshot);
+      if (request === timeTravelRequestRef.current) setTimeTravel({ snapshot, data });
+    } catch (e: any) {
+      if (request === timeTravelRequestRef.current) setTimeTravelError(e.message);
+    }
   }, []);
 
-  useEffect(() => { syncAll(); }, []);
+  // Compares the snapshot on screen with the one before it, or the latest snapshot with live data
+  const handleOpenSnapshotDiff = () => {
+    if (snapshots.length === 0) return;
+    const i = timeTravel ? snapshots.findIndex(s => s.id === timeTravel.snapshot.id) : snapshots.length;
+    setDiffRange({
+      from: snapshots[Math.max(0, i - 1)].id,
+      to: timeTravel ? timeTravel.snapshot.id : LIVE_SNAPSHOT_ID,
+    });
+  };
+
+  const applyFilterSpec = useCallback((spec: FilterSpec) => {
+    setSelectedPlatforms(spec.platforms);
+    setSelectedBuilds(spec.builds);
+    setStartDate(spec.startDate);
+    setEndDate(spec.endDate);
+    setDateRange(spec.dateRange);
+    setDimensionFilters({ buildTypes: spec.buildTypes, statuses: spec.statuses, severities: spec.severities, releasedToStore: spec.releasedToStore });
+  }, []);
+
+  const handleResetFilters = useCallback(() => applyFilterSpec(EMPTY_FILTER_SPEC), [applyFilterSpec]);
+
+  const [filterPresets, setFilterPresets] = useState<FilterPreset[]>([]);
+
+  useEffect(() => {
+    if (profile) setFilterPresets(loadFilterPresets(profile.id));
+  }, [profile?.id]);
+
+  const handleFilterPresetsChange = (presets: FilterPreset[]) => {
+    setFilterPresets(presets);
+    if (profile) saveFilterPresets(profile.id, presets);
+  };
+
+  // (Re)load everything whenever the active data-source profile changes
+  // Cached sheets render immediately and are revalidated in the background
+  useEffect(() => {
+    if (!profile) return;
+    let cancelled = false;
+    profileGenerationRef.current++;
+    setDataMap({});
+    setErrorMap({});
+    setLoadingMap({});
+    setDiscoveredTabs([]);
+    setLocalSources({});
+    setSkippedSheets([]);
+    setFetchedAtMap({});
+    setStaleMap({});
+    setTimeTravel(null);
+    setDiffRange(null);
+    setActivity([]);
+    setUnreadActivity(0);
+    setToastEvents(null);
+    setNotificationPrefs(loadNotificationPrefs(profile.id));
+    hasDataRef.current = new Set();
+    listSnapshots(profile.id).then(list => { if (!cancelled) setSnapshots(list); });
+
+    readCachedSheets(profile.id, tabs.map(t => t.id)).then(cached => {
+      if (cancelled) return;
+      const cachedIds = Object.keys(cached);
+      cachedIds.forEach(id => hasDataRef.current.add(id));
+      setDataMap(p => ({ ...Object.fromEntries(cachedIds.map(id => [id, cached[id].data])), ...p }));
+      setFetchedAtMap(p => ({ ...Object.fromEntries(cachedIds.map(id => [id, cached[id].fetchedAt])), ...p }));
+      return Promise.all(tabs.map(t => fetchData(t.id, !!cached[t.id])));
+    }).then(results => {
+      if (!cancelled && results) recordSync(tabs, results);
+    });
+    return () => { cancelled = true; };
+  }, [profile]);
+
+  /**
+   * Oldest successful fetch across live tabs, and whether the latest attempt for any of them failed
+   */
+  const dataFreshness = useMemo(() => {
+    const liveIds = tabs.map(t => t.id).filter(id => !localSources[id]);
+    const times = liveIds.map(id => fetchedAtMap[id]).filter(Boolean).sort();
+    return {
+      asOf: times.length > 0 ? new Date(times[0]) : null,
+      isStale: liveIds.some(id => staleMap[id]),
+    };
+  }, [tabs, localSources, fetchedAtMap, staleMap]);
+
+  const handleFiles = useCallback(async (files: File[]) => {
+    setImportError(null);
+    setSkippedSheets([]);
+    const targetTabId = activeTab || tabs[0]?.id;
+    try {
+      for (const file of files) {
+        const { imported, unmatchedSheets } = await importDataFile(file, tabs, targetTabId);
+        setSkippedSheets(p => [...p, ...unmatchedSheets.map(name => `${file.name} › ${name}`)]);
+        const importedAt = new Date().toISOString();
+        setDataMap(p => ({ ...p, ...Object.fromEntries(imported.map(i => [i.tabId, i.data])) }));
+        setErrorMap(p => ({ ...p, ...Object.fromEntries(imported.map(i => [i.tabId, null])) }));
+        setLoadingMap(p => ({ ...p, ...Object.fromEntries(imported.map(i => [i.tabId, false])) }));
+        setLocalSources(p => ({ ...p, ...Object.fromEntries(imported.map(i => [i.tabId, { fileName: i.fileName, sheetName: i.sheetName, importedAt }])) }));
+      }
+    } catch (e: any) {
+      setImportError(e.message);
+    }
+  }, [activeTab, tabs]);
+
+  const handleReturnToLive = () => {
+    const ids = Object.keys(localSources);
+    setLocalSources({});
+    setImportError(null);
+    setSkippedSheets([]);
+    ids.forEach(id => fetchData(id));
+  };
+
+  const handleSaveSources = (config: DataSourceConfig, nextProfileId: string) => {
+    saveLocalDataSourceConfig(config);
+    saveActiveProfileId(nextProfileId);
+    setIsLocalSourceConfig(true);
+    setProfileId(nextProfileId);
+    setSourceConfig(config);
+    setIsSourcesOpen(false);
+  };
+
+  const handleResetSources = async () => {
+    saveLocalDataSourceConfig(null);
+    setIsLocalSourceConfig(false);
+    setSourceConfig(await fetchDeployedDataSourceConfig());
+    setIsSourcesOpen(false);
+  };
+
+  const handleProfileChange = (id: string) => {
+    saveActiveProfileId(id);
+    setProfileId(id);
+    handleResetFilters();
+  };
 
   useEffect(() => {
     const start = Date.now();
@@ -467,206 +801,219 @@ export default function App() {
 
   const platforms = useMemo(() => {
     const all = new Set<string>();
-    Object.values(dataMap).forEach((d: DashboardData) => {
-      const col = findCol(d.headers, PLATFORM_COL_ALIASES);
+    Object.entries(dataMap).forEach(([tabId, d]: [string, DashboardData]) => {
+      const col = colFor(tabId, 'platform');
       if (col) d.rows.forEach(r => r[col] && all.add(String(r[col]).trim()));
     });
     return Array.from(all).sort();
-  }, [dataMap]);
+  }, [dataMap, colFor]);
+
+  // Values offered for the extra filter dimensions, gathered from every tab that has the column
+  const dimensionOptions = useMemo(() => {
+    const options = {} as Record<FilterDimension, string[]>;
+    (Object.keys(FILTER_DIMENSIONS) as FilterDimension[]).forEach(dim => {
+      const all = new Set<string>();
+      Object.keys(dataMap).forEach(tabId => {
+        const col = colFor(tabId, FILTER_DIMENSIONS[dim].field);
+        if (col) dataMap[tabId].rows.forEach(r => { const v = getText(r, col); if (v) all.add(v); });
+      });
+      options[dim] = Array.from(all).sort();
+    });
+    return options;
+  }, [dataMap, colFor]);
 
   /**
    * Refined builds useMemo for dynamic filtering based on Platform
    */
   const builds = useMemo(() => {
     const all = new Set<string>();
-    const summaryData = dataMap[TABS_CONFIG.SUMMARY.id];
+    const summaryData = dataMap[tabIds.summary];
     if (summaryData) {
-      const pCol = findCol(summaryData.headers, PLATFORM_COL_ALIASES);
-      const bCol = findCol(summaryData.headers, BUILD_COL_ALIASES);
+      const pCol = colFor(tabIds.summary, 'platform');
+      const bCol = colFor(tabIds.summary, 'build');
       if (bCol) {
         summaryData.rows.forEach(r => {
           const pVal = pCol ? String(r[pCol] || '').trim() : '';
           const bVal = String(r[bCol] || '').trim();
-          if (bVal && (selectedPlatform === 'All' || smartCompare(pVal, selectedPlatform))) {
+          if (bVal && (selectedPlatforms.length === 0 || selectedPlatforms.some(p => smartCompare(pVal, p)))) {
             all.add(bVal);
           }
         });
       }
     }
     return Array.from(all).filter(Boolean).sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
-  }, [dataMap, selectedPlatform]);
+  }, [dataMap, colFor, selectedPlatforms, tabIds]);
 
   /**
    * Selection Sync and Current Status Data Extraction
    */
-  const currentBuildInfo = useMemo(() => {
+  const currentBuildInfo = useMemo<BuildInfo | null>(() => {
     if (selectedBuild === 'All') return null;
-    const summaryData = dataMap[TABS_CONFIG.SUMMARY.id];
+    const summaryData = dataMap[tabIds.summary];
     if (!summaryData) return null;
 
-    const bCol = findCol(summaryData.headers, BUILD_COL_ALIASES);
-    const pCol = findCol(summaryData.headers, PLATFORM_COL_ALIASES);
-    const tCol = findCol(summaryData.headers, TYPE_COL_ALIASES);
-    const dCol = findCol(summaryData.headers, DATE_COL_ALIASES);
-    const sCol = findCol(summaryData.headers, STATUS_COL_ALIASES);
-    const rCol = findCol(summaryData.headers, RELEASE_STORE_ALIASES);
+    const bCol = colFor(tabIds.summary, 'build');
+    const pCol = colFor(tabIds.summary, 'platform');
+    const tCol = colFor(tabIds.summary, 'buildType');
+    const dCol = colFor(tabIds.summary, 'date');
+    const sCol = colFor(tabIds.summary, 'status');
+    const rCol = colFor(tabIds.summary, 'releasedToStore');
 
     if (!bCol) return null;
 
     const matchedRow = summaryData.rows.find(r => 
       smartCompare(r[bCol], selectedBuild) &&
-      (selectedPlatform === 'All' || (pCol && smartCompare(r[pCol], selectedPlatform)))
+      (selectedPlatforms.length === 0 || (pCol && selectedPlatforms.some(p => smartCompare(r[pCol], p))))
     );
 
     return matchedRow ? {
       build: selectedBuild,
-      platform: pCol ? matchedRow[pCol] : selectedPlatform,
-      type: tCol ? matchedRow[tCol] : null,
-      startDate: dCol ? matchedRow[dCol] : null,
-      status: sCol ? matchedRow[sCol] : null,
-      releasedToStore: rCol ? matchedRow[rCol] : null,
+      platform: pCol ? getText(matchedRow, pCol) : selectedPlatform,
+      type: getText(matchedRow, tCol) || null,
+      startDate: getText(matchedRow, dCol) || null,
+      status: getText(matchedRow, sCol) || null,
+      releasedToStore: getText(matchedRow, rCol) || null,
     } : null;
-  }, [selectedBuild, selectedPlatform, dataMap]);
+  }, [selectedBuild, selectedPlatform, selectedPlatforms, dataMap, colFor, tabIds]);
 
   /**
    * Dynamic Page Title Logic
    */
   const dynamicPageTitle = useMemo(() => {
     if (selectedBuild !== 'All') {
-      return `Ifocus RC build report for ${selectedPlatform} - ${selectedBuild}`;
+      return `${profile?.name || 'Ifocus'} RC build report for ${currentBuildInfo?.platform || selectedPlatform} - ${selectedBuild}`;
     }
-    return defaultPageTitle;
-  }, [selectedPlatform, selectedBuild]);
-
-  const handleBuildChange = (newBuild: string) => {
-    setSelectedBuild(newBuild);
-    if (newBuild !== 'All' && selectedPlatform === 'All') {
-      const summaryData = dataMap[TABS_CONFIG.SUMMARY.id];
-      if (summaryData) {
-        const bCol = findCol(summaryData.headers, BUILD_COL_ALIASES);
-        const pCol = findCol(summaryData.headers, PLATFORM_COL_ALIASES);
-        if (bCol && pCol) {
-          const row = summaryData.rows.find(r => smartCompare(r[bCol], newBuild));
-          if (row && row[pCol]) {
-            setSelectedPlatform(String(row[pCol]).trim());
-          }
-        }
-      }
-    }
-  };
+    return profile?.title || defaultPageTitle;
+  }, [profile, currentBuildInfo, selectedPlatform, selectedBuild]);
 
   useEffect(() => {
     // Auto-select build if only one is available for the selected platform
-    if (selectedPlatform !== 'All' && builds.length === 1 && selectedBuild !== builds[0]) {
-      setSelectedBuild(builds[0]);
-    } else if (selectedBuild !== 'All' && !builds.includes(selectedBuild)) {
-      // Reset if current selection is no longer valid
-      setSelectedBuild('All');
+    // Nothing to validate against until the summary sheet arrives (a deep link may name a build)
+    if (!dataMap[tabIds.summary]) return;
+    const valid = selectedBuilds.filter(b => builds.includes(b));
+    if (selectedPlatforms.length > 0 && builds.length === 1 && valid.length === 0) {
+      replaceUrlRef.current = true;
+      setSelectedBuilds([builds[0]]);
+    } else if (valid.length !== selectedBuilds.length) {
+      // Drop selected builds that no longer exist for the chosen platforms
+      replaceUrlRef.current = true;
+      setSelectedBuilds(valid);
     }
-  }, [selectedPlatform, builds, selectedBuild]);
+  }, [selectedPlatforms, builds, selectedBuilds, dataMap, tabIds]);
+
+  const filterSpec = useMemo<FilterSpec>(() => ({
+    platforms: selectedPlatforms,
+    builds: selectedBuilds,
+    startDate,
+    endDate,
+    dateRange,
+    ...dimensionFilters,
+  }), [selectedPlatforms, selectedBuilds, startDate, endDate, dateRange, dimensionFilters]);
+
+  // Latest store release among the selected platforms, for the "since last store release" range
+  const lastStoreRelease = useMemo(() => {
+    const cols = columnsByTab[tabIds.summary] || {};
+    const rows = filterRows(dataMap[tabIds.summary], { ...EMPTY_FILTER_SPEC, platforms: selectedPlatforms }, { cols });
+    return findLastStoreRelease(rows, cols.date, cols.releasedToStore);
+  }, [dataMap, columnsByTab, selectedPlatforms, tabIds]);
 
-  const filteredRows = useMemo(() => {
-    const data = dataMap[activeTab];
-    if (!data) return [];
-    let rows = [...data.rows];
-    
-    // Use helpers to find columns based on aliases
-    const pCol = findCol(data.headers, PLATFORM_COL_ALIASES);
-    const bCol = findCol(data.headers, BUILD_COL_ALIASES);
-    const dCol = findCol(data.headers, DATE_COL_ALIASES);
-
-    // Filter Logic:
-    // 1. If a specific Build is selected, it takes precedence. 
-    //    We filter strictly by that build. This assumes the Build dropdown 
-    //    only shows valid builds for the current context/platform.
-    if (selectedBuild !== 'All' && bCol) {
-       rows = rows.filter(r => smartCompare(r[bCol], selectedBuild));
-    } 
-    // 2. If Build is 'All', but Platform is specific
-    else if (selectedPlatform !== 'All') {
-       if (pCol) {
-         // If table has explicit platform column, use it
-         rows = rows.filter(r => smartCompare(r[pCol], selectedPlatform));
-       } else if (bCol && activeTab !== TABS_CONFIG.SUMMARY.id) {
-         // Fallback: Use the inferred list of builds for this platform
-         // (Only applied to non-Summary tabs that lack platform column, like New Issues)
-         rows = rows.filter(r => builds.some(b => smartCompare(r[bCol], b)));
-       }
-    }
+  /**
+   * Relative ranges are resolved against today on every render, so a
+   * bookmarked "last 30 days" keeps moving instead of freezing on the day
+   * it was saved.
+   */
+  const resolvedDateRange = dateRange
+    ? resolveDateRange(dateRange, { today: new Date(), sprint: profile?.sprint, lastStoreRelease })
+    : null;
+  const effectiveStartDate = dateRange ? resolvedDateRange?.startDate || '' : startDate;
+  const effectiveEndDate = dateRange ? resolvedDateRange?.endDate || '' : endDate;
 
-    if (startDate || endDate) {
-      if (dCol) {
-        rows = rows.filter(r => {
-          if (!r[dCol]) return false;
-          const bd = new Date(r[dCol]);
-          return (!startDate || bd >= new Date(startDate)) && (!endDate || bd <= new Date(endDate));
-        });
-      }
-    }
-    return rows;
-  }, [dataMap, activeTab, selectedPlatform, selectedBuild, startDate, endDate, builds]);
+  /**
+   * Applies the dashboard filters to a single tab's rows. Every chart and
+   * table goes through here so they always agree on what is selected.
+   */
+  const filterRowsForTab = useCallback((tabId: string) => filterRows(dataMap[tabId], { ...filterSpec, startDate: effectiveStartDate, endDate: effectiveEndDate }, {
+    cols: columnsByTab[tabId] || {},
+    // Tabs without a platform column (like New Issues) follow the builds known for the platform
+    platformBuilds: tabId !== tabIds.summary ? builds : undefined,
+  }), [dataMap, filterSpec, effectiveStartDate, effectiveEndDate, columnsByTab, builds, tabIds]);
+
+  // Picking a day by hand turns a relative range into a fixed one, keeping the other end
+  const handleDateChange = (edge: 'start' | 'end', value: string) => {
+    setStartDate(edge === 'start' ? value : effectiveStartDate);
+    setEndDate(edge === 'end' ? value : effectiveEndDate);
+    setDateRange('');
+  };
 
-  const displayHeaders = useMemo(() => {
-    const data = dataMap[activeTab];
+  const handleDateRangeChange = (range: RelativeDateRange | '') => {
+    setDateRange(range);
+    setStartDate('');
+    setEndDate('');
+  };
+
+  const filteredRows = useMemo(() => filterRowsForTab(activeTab), [filterRowsForTab, activeTab]);
+
+  const headersForTab = useCallback((tabId: string) => {
+    const data = dataMap[tabId];
     if (!data) return [];
     
     // Filter out "S no" variations
     const sNoAliases = ['s no', 's.no', 's.no.', 's. no', 'serial no', 'no.', 'no'];
     let headers = data.headers.filter(h => !sNoAliases.includes(h.toLowerCase().trim()));
 
-    if (activeTab === TABS_CONFIG.VALIDATION.id) {
-      const pCol = findCol(data.headers, PLATFORM_COL_ALIASES);
-      const bCol = findCol(data.headers, BUILD_COL_ALIASES);
+    if (tabId === tabIds.validation) {
+      const pCol = colFor(tabId, 'platform');
+      const bCol = colFor(tabId, 'build');
       return headers.filter(h => h !== pCol && h !== bCol);
     }
     return headers;
-  }, [dataMap, activeTab]);
+  }, [dataMap, colFor, tabIds]);
+
+  const displayHeaders = useMemo(() => headersForTab(activeTab), [headersForTab, activeTab]);
+
+  const grid = useDataGrid({
+    storageKey: gridLayoutKey(profile?.id || '', activeTab),
+    headers: displayHeaders,
+    rows: filteredRows,
+    schema: dataMap[activeTab]?.schema,
+  });
+
+  const statusColumns = useMemo(() => displayHeaders.filter(h => 
+    h === colFor(activeTab, 'status') || FIELD_DEFINITIONS.status.aliases.some(a => a.toLowerCase() === h.toLowerCase())
+  ), [displayHeaders, colFor, activeTab]);
+
+  const multiSelectColumns = useMemo(() => 
+    (['status', 'severity', 'platform'] as LogicalField[]).map(f => colFor(activeTab, f)).filter((c): c is string => !!c),
+  [colFor, activeTab]);
+
+  // Exports what the grid shows: its filtered, sorted rows and visible columns in display order
+  const tableExport = useMemo<ExportableTable>(() => ({
+    name: `${activeTabSource?.label || activeTab}${selectedBuild !== 'All' ? ` ${selectedBuild}` : ''}`,
+    headers: grid.columns,
+    rows: grid.visibleRows,
+  }), [activeTabSource, activeTab, selectedBuild, grid.columns, grid.visibleRows]);
 
   const summaryStats = useMemo(() => {
-    const data = dataMap[TABS_CONFIG.SUMMARY.id];
-    if (!data) return null;
-    let rows = [...data.rows];
-    const pCol = findCol(data.headers, PLATFORM_COL_ALIASES);
-    const bCol = findCol(data.headers, BUILD_COL_ALIASES);
-    const dCol = findCol(data.headers, DATE_COL_ALIASES);
-
-    if (selectedPlatform !== 'All' && pCol) rows = rows.filter(r => smartCompare(r[pCol], selectedPlatform));
-    if (selectedBuild !== 'All' && bCol) rows = rows.filter(r => smartCompare(r[bCol], selectedBuild));
-    if (startDate || endDate) rows = rows.filter(r => {
-      if (!r[dCol || '']) return false;
-      const bd = new Date(r[dCol || '']);
-      return (!startDate || bd >= new Date(startDate)) && (!endDate || bd <= new Date(endDate));
-    });
+    if (!dataMap[tabIds.summary]) return null;
+    const rows = filterRowsForTab(tabIds.summary);
     return rows.reduce((acc, r) => ({
-      total: acc.total + getValByAliases(r, data.headers, TOTAL_COL_ALIASES),
-      executed: acc.executed + getValByAliases(r, data.headers, EXECUTED_COL_ALIASES),
-      passed: acc.passed + getValByAliases(r, data.headers, PASSED_COL_ALIASES),
-      failed: acc.failed + getValByAliases(r, data.headers, FAILED_COL_ALIASES),
-      critical: acc.critical + getValByAliases(r, data.headers, CRITICAL_ALIASES),
-      major: acc.major + getValByAliases(r, data.headers, MAJOR_ALIASES),
-      minor: acc.minor + getValByAliases(r, data.headers, MINOR_ALIASES),
+      total: acc.total + getNumber(r, colFor(tabIds.summary, 'total')),
+      executed: acc.executed + getNumber(r, colFor(tabIds.summary, 'executed')),
+      passed: acc.passed + getNumber(r, colFor(tabIds.summary, 'passed')),
+      failed: acc.failed + getNumber(r, colFor(tabIds.summary, 'failed')),
+      critical: acc.critical + getNumber(r, colFor(tabIds.summary, 'critical')),
+      major: acc.major + getNumber(r, colFor(tabIds.summary, 'major')),
+      minor: acc.minor + getNumber(r, colFor(tabIds.summary, 'minor')),
     }), { total: 0, executed: 0, passed: 0, failed: 0, critical: 0, major: 0, minor: 0 });
-  }, [dataMap, selectedPlatform, selectedBuild, startDate, endDate]);
+  }, [dataMap, colFor, filterRowsForTab, tabIds]);
 
   const pieData = useMemo(() => {
-    const data = dataMap[TABS_CONFIG.SUMMARY.id];
-    if (!data) return [];
-    let rows = [...data.rows];
-    const pCol = findCol(data.headers, PLATFORM_COL_ALIASES);
-    const bCol = findCol(data.headers, BUILD_COL_ALIASES);
-    const dCol = findCol(data.headers, DATE_COL_ALIASES);
-
-    if (selectedPlatform !== 'All' && pCol) rows = rows.filter(r => smartCompare(r[pCol], selectedPlatform));
-    if (selectedBuild !== 'All' && bCol) rows = rows.filter(r => smartCompare(r[bCol], selectedBuild));
-    if (startDate || endDate) rows = rows.filter(r => {
-      if (!r[dCol || '']) return false;
-      const bd = new Date(r[dCol || '']);
-      return (!startDate || bd >= new Date(startDate)) && (!endDate || bd <= new Date(endDate));
-    });
+    if (!dataMap[tabIds.summary]) return [];
+    const rows = filterRowsForTab(tabIds.summary);
     const totals = rows.reduce((acc, r) => ({
-      passed: acc.passed + getValByAliases(r, data.headers, PASSED_COL_ALIASES),
-      failed: acc.failed + getValByAliases(r, data.headers, FAILED_COL_ALIASES),
-      notConsidered: acc.notConsidered + getValByAliases(r, data.headers, NOT_CONSIDERED_COL_ALIASES),
+      passed: acc.passed + getNumber(r, colFor(tabIds.summary, 'passed')),
+      failed: acc.failed + getNumber(r, colFor(tabIds.summary, 'failed')),
+      notConsidered: acc.notConsidered + getNumber(r, colFor(tabIds.summary, 'notConsidered')),
     }), { passed: 0, failed: 0, notConsidered: 0 });
     const sum = totals.passed + totals.failed + totals.notConsidered;
     return [
@@ -674,68 +1021,23 @@ export default function App() {
       { name: 'Fail', value: totals.failed, color: EXECUTION_COLORS.fail, percent: sum ? totals.failed / sum : 0 },
       { name: 'N/A', value: totals.notConsidered, color: EXECUTION_COLORS.notConsidered, percent: sum ? totals.notConsidered / sum : 0 },
     ].filter(d => d.value > 0);
-  }, [dataMap, selectedPlatform, selectedBuild, startDate, endDate]);
+  }, [dataMap, colFor, filterRowsForTab, tabIds]);
 
-  const trendData = useMemo(() => {
-    const summaryData = dataMap[TABS_CONFIG.SUMMARY.id];
-    const issuesData = dataMap[TABS_CONFIG.NEW_ISSUES.id];
-    if (!summaryData) return [];
-    let sumRows = [...summaryData.rows];
-    const pColSum = findCol(summaryData.headers, PLATFORM_COL_ALIASES);
-    const bColSum = findCol(summaryData.headers, BUILD_COL_ALIASES);
-    const dColSum = findCol(summaryData.headers, DATE_COL_ALIASES);
-    
-    if (selectedPlatform !== 'All' && pColSum) sumRows = sumRows.filter(r => smartCompare(r[pColSum], selectedPlatform));
-    if (selectedBuild !== 'All' && bColSum) sumRows = sumRows.filter(r => smartCompare(r[bColSum], selectedBuild));
+  const tabInput = useCallback((tabId: string) => ({ data: dataMap[tabId], cols: columnsByTab[tabId] }), [dataMap, columnsByTab]);
 
-    if (startDate || endDate) sumRows = sumRows.filter(r => {
-      if (!r[dColSum || '']) return false;
-      const bd = new Date(r[dColSum || '']);
-      return (!startDate || bd >= new Date(startDate)) && (!endDate || bd <= new Date(endDate));
-    });
-    const recentSumRows = sumRows.slice(0, 10).reverse();
-    return recentSumRows.map(r => {
-      // Use raw access instead of getValByAliases to preserve string nature of build names (e.g. avoid 0 for "RC 1")
-      const rawBuildName = String(r[bColSum || ''] || 'Unknown').trim();
-      const platformName = pColSum ? String(r[pColSum] || '').trim() : '';
-
-      const autoVal = getValByAliases(r, summaryData.headers, AUTO_COL_ALIASES);
-      const manualVal = getValByAliases(r, summaryData.headers, MANUAL_COL_ALIASES);
-      let critical = 0, major = 0, minor = 0;
-      if (issuesData) {
-        const bColIss = findCol(issuesData.headers, BUILD_COL_ALIASES);
-        const sColIss = findCol(issuesData.headers, SEVERITY_COL_ALIASES);
-        if (bColIss && sColIss) {
-          issuesData.rows.forEach(ir => {
-            const iBuild = String(ir[bColIss] || '').trim();
-            if (smartCompare(iBuild, rawBuildName)) {
-              const sev = String(ir[sColIss] || '').toLowerCase();
-              if (sev.includes('crit')) critical++;
-              else if (sev.includes('maj')) major++;
-              else if (sev.includes('min')) minor++;
-            }
-          });
-        }
-      }
-      if (critical === 0 && major === 0 && minor === 0) {
-        critical = getValByAliases(r, summaryData.headers, CRITICAL_ALIASES);
-        major = getValByAliases(r, summaryData.headers, MAJOR_ALIASES);
-        minor = getValByAliases(r, summaryData.headers, MINOR_ALIASES);
-      }
-      return {
-        name: rawBuildName,
-        platform: platformName,
-        fullName: rawBuildName,
-        Passed: getValByAliases(r, summaryData.headers, PASSED_COL_ALIASES),
-        Failed: getValByAliases(r, summaryData.headers, FAILED_COL_ALIASES),
-        Critical: critical,
-        Major: major,
-        Minor: minor,
-        Automation: autoVal,
-        Manual: manualVal,
-      };
-    });
-  }, [dataMap, selectedPlatform, selectedBuild, startDate, endDate]);
+  const [trendWindow, setTrendWindow] = useState<MetricsWindow>(() => {
+    const saved = localStorage.getItem('dashboard-trend-window');
+    return isMetricsWindow(saved) ? saved : DEFAULT_METRICS_WINDOW;
+  });
+
+  useEffect(() => {
+    localStorage.setItem('dashboard-trend-window', trendWindow);
+  }, [trendWindow]);
+
+  const trendData = useMemo(() => {
+    if (!dataMap[tabIds.summary]) return [];
+    return computeBuildMetrics(filterRowsForTab(tabIds.summary), columnsByTab[tabIds.summary] || {}, tabInput(tabIds.issues), trendWindow);
+  }, [dataMap, filterRowsForTab, columnsByTab, tabInput, trendWindow, tabIds]);
 
   /**
    * Determine if any issues exist in the current filtered context for the trend chart
@@ -749,6 +1051,199 @@ export default function App() {
     return trendData.length === 0 || trendData.every(d => (d.Critical + d.Major + d.Minor) === 0);
   }, [trendData, summaryStats, selectedBuild]);
 
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [compareSelection, setCompareSelection] = useState<BuildRef[]>([]);
+
+  const compareOptions = useMemo(() => listBuildRefs(tabInput(tabIds.summary)), [tabInput, tabIds]);
+
+  const comparisonColumns = useMemo(() => {
+    if (!isCompareMode) return [];
+    return compareBuilds(compareSelection, tabInput(tabIds.summary), tabInput(tabIds.issues), tabInput(tabIds.validation));
+  }, [isCompareMode, compareSelection, tabInput, tabIds]);
+
+  const [gateRules, setGateRules] = useState<GateRule[]>(DEFAULT_GATE_RULES);
+  // Build whose gate drill-down is open; null opens the rules editor on its own
+  const [gatePanelRef, setGatePanelRef] = useState<BuildRef | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (profile) setGateRules(loadGateRules(profile.id));
+  }, [profile?.id]);
+
+  const handleGateRulesChange = (rules: GateRule[]) => {
+    setGateRules(rules);
+    if (profile) saveGateRules(profile.id, rules);
+  };
+
+  const evaluateGate = useCallback((ref: BuildRef) => 
+    evaluateQualityGates(ref, gateRules, tabInput(tabIds.summary), tabInput(tabIds.issues), tabInput(tabIds.validation)),
+  [gateRules, tabInput, tabIds]);
+
+  const currentBuildRef = useMemo<BuildRef | null>(() => 
+    currentBuildInfo ? { build: currentBuildInfo.build, platform: currentBuildInfo.platform } : null,
+  [currentBuildInfo]);
+
+  const currentGate = useMemo(() => currentBuildRef ? evaluateGate(currentBuildRef) : null, [currentBuildRef, evaluateGate]);
+
+  const matrixGates = useMemo(() => {
+    const gates = new Map<string, ReturnType<typeof evaluateGate>>();
+    if (activeTab !== tabIds.summary) return gates;
+    const bCol = colFor(activeTab, 'build');
+    const pCol = colFor(activeTab, 'platform');
+    filteredRows.forEach(row => {
+      const ref = { build: getText(row, bCol), platform: getText(row, pCol) };
+      if (ref.build && !gates.has(buildRefKey(ref))) gates.set(buildRefKey(ref), evaluateGate(ref));
+    });
+    return gates;
+  }, [activeTab, tabIds, colFor, filteredRows, evaluateGate]);
+
+  const matrixCols: Partial<ResolvedColumns> = columnsByTab[tabIds.summary] || {};
+  const matrixWindow = useVirtualRows(activeTab === tabIds.summary ? filteredRows.length : 0, 77);
+
+  // The Execution Matrix shows derived columns, so its export mirrors what is rendered rather than the sheet
+  const matrixExport = useMemo<ExportableTable>(() => {
+    const col = (field: LogicalField) => colFor(tabIds.summary, field);
+    return {
+      name: `Execution Matrix${selectedBuild !== 'All' ? ` ${selectedBuild}` : ''}`,
+      headers: ['Build Version', 'Platform', 'Start Date', 'Overall Status', 'Quality Gate', 'Build Type', 'Total Test Cases', 'Passed Test Cases', 'Failed Test Cases', 'Critical', 'Major', 'Minor'],
+      rows: activeTab !== tabIds.summary ? [] : filteredRows.map(row => ({
+        'Build Version': getText(row, col('build')),
+        'Platform': getText(row, col('platform')),
+        'Start Date': getText(row, col('date')),
+        'Overall Status': getText(row, col('status')),
+        'Quality Gate': matrixGates.get(buildRefKey({ build: getText(row, col('build')), platform: getText(row, col('platform')) }))?.verdict || '',
+        'Build Type': getText(row, col('buildType')),
+        'Total Test Cases': getNumber(row, col('total')),
+        'Passed Test Cases': getNumber(row, col('passed')),
+        'Failed Test Cases': getNumber(row, col('failed')),
+        'Critical': getNumber(row, col('critical')),
+        'Major': getNumber(row, col('major')),
+        'Minor': getNumber(row, col('minor')),
+      })),
+    };
+  }, [colFor, tabIds, activeTab, selectedBuild, filteredRows, matrixGates]);
+
+  // 'print' opens the print dialog, 'pdf' downloads a PDF; either way the report is mounted only meanwhile
+  const [reportMode, setReportMode] = useState<'print' | 'pdf' | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const reportRef = useRef<HTMLDivElement>(null);
+
+  const reportSourceInfo = useMemo(() => {
+    const info = [`Profile: ${profile?.name || '—'}`];
+    [tabIds.summary, tabIds.issues, tabIds.validation].filter(Boolean).forEach(id => {
+      const tab = tabs.find(t => t.id === id);
+      const local = localSources[id];
+      if (tab) info.push(`${tab.label}: ${local ? `${local.fileName}${local.sheetName ? ` (${local.sheetName})` : ''}` : 'Google Sheets'}`);
+    });
+    if (dataFreshness.asOf) info.push(`Data as of ${dataFreshness.asOf.toLocaleString()}${dataFreshness.isStale ? ' (stale)' : ''}`);
+    return info;
+  }, [profile, tabs, tabIds, localSources, dataFreshness]);
+
+  const reportData = useMemo<BuildReportData | null>(() => {
+    if (!reportMode || !currentBuildInfo) return null;
+    return {
+      title: dynamicPageTitle,
+      buildInfo: currentBuildInfo,
+      gate: currentGate,
+      stats: summaryStats,
+      pieData,
+      trendData,
+      matrixRows: filterRowsForTab(tabIds.summary),
+      matrixCols: columnsByTab[tabIds.summary] || {},
+      tables: [tabIds.issues, tabIds.validation].filter(id => dataMap[id]).map(id => ({
+        title: tabs.find(t => t.id === id)?.label || id,
+        headers: headersForTab(id),
+        rows: filterRowsForTab(id),
+        statusColumn: colFor(id, 'status'),
+      })),
+      generatedAt: new Date(),
+      sourceInfo: reportSourceInfo,
+    };
+  }, [reportMode, currentBuildInfo, dynamicPageTitle, currentGate, summaryStats, pieData, trendData, filterRowsForTab, columnsByTab, tabIds, dataMap, tabs, headersForTab, colFor, reportSourceInfo]);
+
+  // The report mounts and paints once; then the print dialog opens or the PDF is built from its charts
+  useEffect(() => {
+    if (!reportMode) return;
+    if (reportMode === 'pdf') {
+      let cancelled = false;
+      document.body.classList.add('exporting-report');
+      const frame = requestAnimationFrame(() => {
+        if (!reportData || !reportRef.current) {
+          setReportMode(null);
+          return;
+        }
+        exportReportPdf(reportData, reportRef.current)
+          .catch(e => !cancelled && setReportError(`PDF export failed: ${e instanceof Error ? e.message : String(e)}`))
+          .finally(() => !cancelled && setReportMode(null));
+      });
+      return () => {
+        cancelled = true;
+        cancelAnimationFrame(frame);
+        document.body.classList.remove('exporting-report');
+      };
+    }
+    const done = () => setReportMode(null);
+    document.body.classList.add('printing-report');
+    window.addEventListener('afterprint', done);
+    const frame = requestAnimationFrame(() => window.print());
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('afterprint', done);
+      document.body.classList.remove('printing-report');
+    };
+  }, [reportMode]);
+
+  const handleReport = (mode: 'print' | 'pdf') => {
+    setReportError(null);
+    setReportMode(mode);
+  };
+
+  const handleToggleCompare = () => {
+    if (!isCompareMode && compareSelection.length === 0 && currentBuildRef) {
+      setCompareSelection([currentBuildRef]);
+    }
+    setIsCompareMode(m => !m);
+  };
+
+  const [insight, setInsight] = useState<ReadinessInsight | null>(null);
+  const [insightLoading, setInsightLoading] = useState(false);
+  const [insightError, setInsightError] = useState<string | null>(null);
+  const insightRequestRef = useRef(0);
+
+  // By content: the auto-refresh replaces the data objects even when the sheets did not change
+  const insightDataKey = useMemo(() =>
+    [tabIds.summary, tabIds.issues, tabIds.validation].map(id => dataMap[id] ? hashDashboardData(dataMap[id]) : '').join('|'),
+  [dataMap, tabIds]);
+
+  // An insight only describes the profile, data and filter scope it was generated for; one still on its way is dropped
+  useEffect(() => {
+    insightRequestRef.current++;
+    setInsight(null);
+    setInsightError(null);
+    setInsightLoading(false);
+  }, [filterSpec, insightDataKey, profile?.id]);
+
+  const handleAnalyze = useCallback(async () => {
+    const filteredTab = (tabId: string): DashboardData | undefined => 
+      dataMap[tabId] ? { headers: dataMap[tabId].headers, rows: filterRowsForTab(tabId) } : undefined;
+
+    const request = ++insightRequestRef.current;
+    setInsightLoading(true);
+    setInsightError(null);
+    try {
+      const result = await analyzeBuildReadiness({
+        summary: filteredTab(tabIds.summary),
+        issues: filteredTab(tabIds.issues),
+        validation: filteredTab(tabIds.validation),
+        currentBuildInfo,
+      });
+      if (request === insightRequestRef.current) setInsight(result);
+    } catch (e: any) {
+      if (request === insightRequestRef.current) setInsightError(e.message);
+    } finally {
+      if (request === insightRequestRef.current) setInsightLoading(false);
+    }
+  }, [dataMap, filterRowsForTab, currentBuildInfo, tabIds]);
+
   const renderActiveShape = (props: any) => {
     const { cx, cy, innerRadius, outerRadius, startAngle, endAngle, fill } = props;
     return (
@@ -827,9 +1322,31 @@ export default function App() {
     );
   };
 
-  const isAnyFilterActive = useMemo(() => {
-    return selectedPlatform !== 'All' || selectedBuild !== 'All' || startDate !== '' || endDate !== '';
-  }, [selectedPlatform, selectedBuild, startDate, endDate]);
+  const isAnyFilterActive = useMemo(() => isFilterActive(filterSpec), [filterSpec]);
+
+  // Only worked out while the analytics view is on screen
+  const issueAnalytics = useMemo(() => {
+    if (activeTabSource?.role !== 'issues' || issuesView !== 'analytics' || !dataMap[activeTab]) return null;
+    return analyzeIssues(filterRowsForTab(activeTab), columnsByTab[activeTab] || {}, tabInput(tabIds.summary));
+  }, [activeTabSource, activeTab, issuesView, dataMap, filterRowsForTab, columnsByTab, tabInput, tabIds]);
+
+  const validationWorkflow = useMemo(() => {
+    if (activeTabSource?.role !== 'validation' || validationView !== 'workflow' || !dataMap[activeTab]) return null;
+    return analyzeValidation(filterRowsForTab(activeTab), dataMap[activeTab].rows, columnsByTab[activeTab] || {});
+  }, [activeTabSource, activeTab, validationView, dataMap, filterRowsForTab, columnsByTab]);
+
+  const renderViewToggle = <V extends string>(value: V, options: [V, string][], onChange: (v: V) => void) => (
+    <div className="flex bg-slate-100 dark:bg-slate-900/50 p-1 rounded-2xl w-fit gap-1 shadow-inner">
+      {options.map(([v, label]) => (
+        <button key={v} onClick={() => onChange(v)} className={`px-5 py-2 rounded-xl text-[10px] font-black uppercase tracking-wider transition-all ${value === v ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-md' : 'text-slate-500 hover:text-slate-800'}`}>
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+
+  const issuesViewToggle = renderViewToggle(issuesView, [['table', '☰ Table'], ['analytics', '📈 Analytics']], setIssuesView);
+  const validationViewToggle = renderViewToggle(validationView, [['workflow', '✓ Workflow'], ['table', '☰ Table']], setValidationView);
 
   return (
     <div className="min-h-screen bg-[#F8FAFC] dark:bg-[#020617] pb-12 transition-all">
@@ -842,34 +1359,127 @@ export default function App() {
             <div className="w-10 h-10 bg-primary-600 rounded-xl flex items-center justify-center text-white font-black text-xl shadow-lg shrink-0">i</div>
             <h1 className="text-sm md:text-xl font-black uppercase tracking-tight text-primary-600 truncate">{dynamicPageTitle}</h1>
           </div>
-          <div className="flex gap-2 shrink-0">
+          <div className="flex gap-2 shrink-0 items-center">
+            {dataFreshness.asOf && (
+              <span 
+                title={dataFreshness.isStale ? 'The latest refresh failed; showing the last data that loaded successfully.' : 'Time of the oldest sheet currently shown'}
+                className={`hidden lg:inline-flex items-center gap-1.5 px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-wider whitespace-nowrap ${dataFreshness.isStale ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' : 'text-slate-400'}`}
+              >
+                <span className={`w-1.5 h-1.5 rounded-full ${dataFreshness.isStale ? 'bg-amber-500' : 'bg-emerald-500'}`} />
+                Data as of {dataFreshness.asOf.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}{dataFreshness.isStale && ' (stale)'}
+              </span>
+            )}
+            {sourceConfig && sourceConfig.profiles.length > 1 && (
+              <select value={profile?.id} onChange={e => handleProfileChange(e.target.value)} className="hidden md:block px-3 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase cursor-pointer border border-transparent focus:border-primary-500/30">
+                {sourceConfig.profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            )}
+            <button onClick={() => fileInputRef.current?.click()} title="Import CSV, TSV or XLSX" className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 hover:scale-105 transition-all">📂</button>
+            <input ref={fileInputRef} type="file" accept={ACCEPTED_FILE_TYPES} multiple className="hidden" onChange={e => { const files = Array.from(e.target.files || []); e.target.value = ''; if (files.length) handleFiles(files); }} />
+            <button onClick={() => setIsSourcesOpen(true)} title="Data sources" className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 hover:scale-105 transition-all">🗂️</button>
+            <button onClick={handleOpenActivity} title="Activity" className="relative p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 hover:scale-105 transition-all">
+              🔔
+              {unreadActivity > 0 && <span className="absolute -top-1 -right-1 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-rose-500 text-white text-[9px] font-black flex items-center justify-center">{unreadActivity > 99 ? '99+' : unreadActivity}</span>}
+            </button>
+            <button onClick={() => setIsTimeTravelOpen(o => !o)} title="Snapshot history" className={`p-2.5 rounded-xl hover:scale-105 transition-all ${isTimeTravelOpen || timeTravel ? 'bg-violet-100 dark:bg-violet-900/30' : 'bg-slate-100 dark:bg-slate-800'}`}>🕘</button>
+            <button onClick={() => setIsMappingOpen(true)} title="Column mapping" className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 hover:scale-105 transition-all">⚙️</button>
             <button onClick={() => setTheme(t => t === 'light' ? 'dark' : 'light')} className="p-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 hover:scale-105 transition-all">{isDark ? '☀️' : '🌙'}</button>
+            <button onClick={handleCopyLink} title="Copy a link to this view" className="px-4 py-2.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase whitespace-nowrap hover:scale-105 transition-all">{linkCopied ? 'Copied ✓' : '🔗 Copy link'}</button>
             <button onClick={() => syncAll()} className="px-5 py-2.5 bg-primary-600 text-white rounded-xl text-[10px] font-black uppercase active:scale-95 shadow-lg">Sync</button>
           </div>
         </div>
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 md:px-8 py-8 space-y-8">
+        {(isTimeTravelOpen || timeTravel) && (
+          <TimeTravelBar
+            snapshots={snapshots}
+            viewing={timeTravel?.snapshot || null}
+            error={timeTravelError}
+            onSelect={handleSelectSnapshot}
+            onCompare={handleOpenSnapshotDiff}
+            onClose={() => setIsTimeTravelOpen(false)}
+          />
+        )}
+        {(Object.keys(localSources).length > 0 || importError) && (
+          <section className={`rounded-[2rem] px-8 py-5 border flex flex-wrap items-center justify-between gap-4 animate-in fade-in slide-in-from-top-2 duration-300 ${importError ? 'bg-rose-50 border-rose-200 dark:bg-rose-900/20 dark:border-rose-900/40' : 'bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:border-amber-900/40'}`}>
+            <div className="flex items-center gap-3 min-w-0">
+              <span className="text-xl">{importError ? '⚠️' : '📂'}</span>
+              <div className="min-w-0">
+                <p className={`text-[10px] font-black uppercase tracking-widest ${importError ? 'text-rose-600' : 'text-amber-700 dark:text-amber-400'}`}>{importError ? 'Import failed' : 'Viewing local data'}</p>
+                <p className="text-[11px] font-bold text-slate-600 dark:text-slate-300 truncate">
+                  {importError || tabs.filter(t => localSources[t.id]).map(t => `${t.label}: ${localSources[t.id].fileName}${localSources[t.id].sheetName ? ` › ${localSources[t.id].sheetName}` : ''}`).join(' · ')}
+                </p>
+                {!importError && skippedSheets.length > 0 && (
+                  <p className="text-[10px] font-bold text-amber-700 dark:text-amber-400 truncate" title={skippedSheets.join('\n')}>
+                    Not loaded, no tab has their name: {skippedSheets.join(' · ')}
+                  </p>
+                )}
+              </div>
+            </div>
+            {Object.keys(localSources).length > 0 ? (
+              <button onClick={handleReturnToLive} className="px-5 py-2.5 bg-slate-900 dark:bg-slate-800 text-white rounded-xl text-[10px] font-black uppercase tracking-widest active:scale-95 shadow-lg shrink-0">Return to live data</button>
+            ) : (
+              <button onClick={() => setImportError(null)} className="px-5 py-2.5 bg-slate-100 dark:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest shrink-0">Dismiss</button>
+            )}
+          </section>
+        )}
+
         {/* Filter Section */}
         <section className="bg-white dark:bg-slate-900 rounded-[2.5rem] p-8 border border-slate-200 dark:border-slate-800 shadow-sm relative">
           <div className="flex items-center justify-between mb-6">
             <h2 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Dashboard Filters</h2>
-            {isAnyFilterActive && (
-              <button onClick={handleResetFilters} className="text-[10px] font-black uppercase text-rose-500 hover:text-rose-600 transition-all flex items-center gap-1.5 group animate-in fade-in slide-in-from-right-2 duration-300">
-                <span className="p-1.5 rounded-full bg-rose-50 dark:bg-rose-900/20 group-hover:bg-rose-100 dark:group-hover:bg-rose-900/40 transition-colors">
-                  <svg className="w-3.5 h-3.5 group-hover:rotate-[-45deg] transition-transform duration-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
-                </span>
-                Clear All Filters
+            <div className="flex items-center gap-4">
+              <FilterPresetMenu presets={filterPresets} currentSpec={filterSpec} onApply={p => applyFilterSpec(p.spec)} onChange={handleFilterPresetsChange} />
+              <button onClick={handleToggleCompare} className={`text-[10px] font-black uppercase transition-all flex items-center gap-1.5 ${isCompareMode ? 'text-primary-600' : 'text-slate-400 hover:text-primary-600'}`}>
+                <span className={`p-1.5 rounded-full transition-colors ${isCompareMode ? 'bg-primary-100 dark:bg-primary-900/30' : 'bg-slate-100 dark:bg-slate-800'}`}>⇄</span>
+                Compare Builds
               </button>
-            )}
+              {isAnyFilterActive && (
+                <button onClick={handleResetFilters} className="text-[10px] font-black uppercase text-rose-500 hover:text-rose-600 transition-all flex items-center gap-1.5 group animate-in fade-in slide-in-from-right-2 duration-300">
+                  <span className="p-1.5 rounded-full bg-rose-50 dark:bg-rose-900/20 group-hover:bg-rose-100 dark:group-hover:bg-rose-900/40 transition-colors">
+                    <svg className="w-3.5 h-3.5 group-hover:rotate-[-45deg] transition-transform duration-300" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                  </span>
+                  Clear All Filters
+                </button>
+              )}
+            </div>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
-            <div><label className="text-[10px] font-black uppercase text-slate-400 ml-1">Platform</label><select value={selectedPlatform} onChange={e => { const val = e.target.value; setSelectedPlatform(val); if (val === 'All') setSelectedBuild('All'); }} className="w-full bg-slate-50 dark:bg-slate-800 p-3.5 mt-1 rounded-2xl text-xs font-bold border border-transparent focus:border-primary-500/30 transition-all appearance-none cursor-pointer"><option value="All">All Platforms</option>{platforms.map(p => <option key={p} value={p}>{p}</option>)}</select></div>
-            <div><label className="text-[10px] font-black uppercase text-slate-400 ml-1">Build Version</label><select value={selectedBuild} onChange={e => handleBuildChange(e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 p-3.5 mt-1 rounded-2xl text-xs font-bold border border-transparent focus:border-primary-500/30 transition-all appearance-none cursor-pointer"><option value="All">All Builds</option>{builds.map(b => <option key={b} value={b}>{b}</option>)}</select></div>
-            <div className="md:col-span-2"><label className="text-[10px] font-black uppercase text-slate-400 ml-1">Date Range</label><div className="flex items-center gap-2 mt-1"><DateSelector value={startDate} onChange={setStartDate} placeholder="Start Date" /><span className="text-slate-300">~</span><DateSelector value={endDate} onChange={setEndDate} placeholder="End Date" /></div></div>
+            <div><label className="text-[10px] font-black uppercase text-slate-400 ml-1">Platform</label><MultiSelect values={platforms} selected={selectedPlatforms} onChange={next => { setSelectedPlatforms(next); if (next.length === 0) setSelectedBuilds([]); }} allLabel="All Platforms" /></div>
+            <div><label className="text-[10px] font-black uppercase text-slate-400 ml-1">Build Version</label><MultiSelect values={builds} selected={selectedBuilds} onChange={setSelectedBuilds} allLabel="All Builds" /></div>
+            <div className="md:col-span-2">
+              <div className="flex items-center justify-between">
+                <label className="text-[10px] font-black uppercase text-slate-400 ml-1">Date Range</label>
+                <select value={dateRange} onChange={e => handleDateRangeChange(e.target.value as RelativeDateRange | '')} className={`bg-transparent text-[10px] font-black uppercase tracking-wide cursor-pointer text-right outline-none ${dateRange ? 'text-primary-600' : 'text-slate-400 hover:text-primary-600'}`}>
+                  <option value="">Custom</option>
+                  {(Object.keys(RELATIVE_DATE_RANGES) as RelativeDateRange[]).map(r => (
+                    <option key={r} value={r} disabled={r === 'thisSprint' && !profile?.sprint}>{RELATIVE_DATE_RANGES[r]}{r === 'thisSprint' && !profile?.sprint ? ' (no sprint set)' : ''}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2 mt-1"><DateSelector value={effectiveStartDate} onChange={v => handleDateChange('start', v)} placeholder="Start Date" /><span className="text-slate-300">~</span><DateSelector value={effectiveEndDate} onChange={v => handleDateChange('end', v)} placeholder="End Date" /></div>
+              {dateRange && !resolvedDateRange && <p className="text-[10px] font-bold text-amber-500 mt-1.5 ml-1">{dateRange === 'sinceLastStoreRelease' ? 'No store release found in the summary sheet' : 'No sprint cadence configured for this profile'}</p>}
+            </div>
+            {(Object.keys(FILTER_DIMENSIONS) as FilterDimension[]).filter(dim => dimensionOptions[dim].length > 0).map(dim => (
+              <div key={dim}>
+                <label className="text-[10px] font-black uppercase text-slate-400 ml-1">{FILTER_DIMENSIONS[dim].label}</label>
+                <MultiSelect values={dimensionOptions[dim]} selected={dimensionFilters[dim]} onChange={next => setDimensionFilters(f => ({ ...f, [dim]: next }))} />
+              </div>
+            ))}
           </div>
         </section>
 
+        {isCompareMode && (
+          <BuildComparison
+            options={compareOptions}
+            selected={compareSelection}
+            columns={comparisonColumns}
+            onChange={setCompareSelection}
+            onClose={() => setIsCompareMode(false)}
+          />
+        )}
+
         {/* Current Status Section */}
         {currentBuildInfo && (
           <section className="animate-in fade-in slide-in-from-top-2 duration-500">
@@ -877,8 +1487,11 @@ export default function App() {
               <div className="flex items-center gap-3 mb-6">
                 <div className="w-2 h-2 rounded-full bg-primary-500 animate-pulse" />
                 <h2 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Current Status</h2>
+                {reportError && <p className="no-print ml-auto text-[10px] font-bold text-rose-500">{reportError}</p>}
+                <button onClick={() => handleReport('pdf')} disabled={reportMode !== null} title="Download a PDF report of this build" className={`no-print ${reportError ? '' : 'ml-auto '}px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase hover:scale-105 transition-all disabled:opacity-50`}>{reportMode === 'pdf' ? '⏳ Building PDF' : '📄 PDF report'}</button>
+                <button onClick={() => handleReport('print')} disabled={reportMode !== null} title="Open the print dialog with a report of this build" className="no-print px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase hover:scale-105 transition-all disabled:opacity-50">🖨️ Print report</button>
               </div>
-              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-8">
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-8">
                 <div>
                   <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider mb-1.5">Build Number</p>
                   <p className="text-sm font-black text-primary-600 dark:text-primary-400">#{currentBuildInfo.build}</p>
@@ -915,18 +1528,22 @@ export default function App() {
                     </span>
                   ) : <p className="text-sm font-black text-slate-300">—</p>}
                 </div>
+                <div>
+                  <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider mb-1.5">Quality Gate</p>
+                  {currentGate && <GateBadge verdict={currentGate.verdict} onClick={() => setGatePanelRef(currentGate.ref)} />}
+                </div>
               </div>
             </div>
           </section>
         )}
 
         <div className="flex bg-slate-100 dark:bg-slate-900/50 p-1 rounded-[1.8rem] w-full md:w-auto overflow-x-auto gap-1 shadow-inner no-scrollbar">
-          {Object.values(TABS_CONFIG).map(tab => (
+          {tabs.map(tab => (
             <button key={tab.id} onClick={() => setActiveTab(tab.id)} className={`px-8 py-3.5 rounded-2xl text-xs font-black uppercase tracking-wider transition-all flex items-center gap-2 whitespace-nowrap ${activeTab === tab.id ? 'bg-white dark:bg-slate-800 text-primary-600 shadow-md' : 'text-slate-500 hover:text-slate-800'}`}><span>{tab.icon}</span>{tab.label}</button>
           ))}
         </div>
 
-        {activeTab === 'summary' ? (
+        {activeTabSource?.role === 'summary' ? (
           <div className="space-y-8 animate-in fade-in duration-500">
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
               <MetricCard title="Total Cases" value={summaryStats?.total || 0} icon="🎯" />
@@ -934,8 +1551,14 @@ export default function App() {
               <MetricCard title="Pass Rate" value={`${summaryStats?.executed ? ((summaryStats.passed / summaryStats.executed) * 100).toFixed(1) : 0}%`} icon="✅" />
               <MetricCard title="Critical" value={summaryStats?.critical || 0} icon="🌋" />
             </div>
+            <div className="flex items-center justify-end gap-2 -mb-4">
+              <label htmlFor="trend-window" className="text-[10px] font-black uppercase text-slate-400 tracking-wider">Trend window</label>
+              <select id="trend-window" value={trendWindow} onChange={e => setTrendWindow(e.target.value as MetricsWindow)} className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 px-3 py-1.5 rounded-xl text-[11px] font-bold cursor-pointer">
+                {(Object.keys(METRICS_WINDOWS) as MetricsWindow[]).map(w => <option key={w} value={w}>{METRICS_WINDOWS[w].label}</option>)}
+              </select>
+            </div>
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-              <Card title="Distribution" loading={loadingMap[activeTab]} error={errorMap[activeTab]} onRetry={() => fetchData(activeTab)}>
+              <Card title="Distribution" loading={loadingMap[activeTab]} error={errorMap[activeTab]} onRetry={() => fetchData(activeTab)} discoveredTabs={discoveredTabs} onPickSheet={pickSheetForActiveTab} suggestedGids={suggestedGids}>
                 <div className="h-[400px] md:h-[360px] relative">
                   <ResponsiveContainer width="100%" height="100%">
                     <PieChart>
@@ -987,6 +1610,9 @@ export default function App() {
                 </Card>
               </div>
             </div>
+            <Card title="AI Insights" fullWidth>
+              <AIInsights insight={insight} loading={insightLoading} error={insightError} onAnalyze={handleAnalyze} />
+            </Card>
             <Card title="Issue Severity Trend" fullWidth>
               <div className="h-[360px] relative flex flex-col items-center justify-center">
                 {trendHasNoIssues ? (
@@ -1017,14 +1643,45 @@ export default function App() {
                 )}
               </div>
             </Card>
-            <Card title="Execution Matrix & Build Details" fullWidth>
-              <div className="max-h-[600px] overflow-auto custom-scrollbar border border-slate-100 dark:border-slate-800 rounded-2xl shadow-inner bg-white dark:bg-slate-900 relative">
+            <Card title="Build Trends" fullWidth>
+              {trendData.length < 2 ? (
+                <p className="py-12 text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic">Trends need at least two builds in the window</p>
+              ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                  {[
+                    { title: 'Pass Rate (%)', key: 'PassRate', avgKey: 'PassRateAvg', color: EXECUTION_COLORS.pass },
+                    { title: 'Defects per 100 Executed', key: 'DefectDensity', avgKey: 'DefectDensityAvg', color: EXECUTION_COLORS.fail },
+                    { title: 'Automation Share (%)', key: 'AutomationShare', color: EXECUTION_COLORS.automation },
+                  ].map(chart => (
+                    <div key={chart.key}>
+                      <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">{chart.title}</p>
+                      <div className="h-[260px]"><ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={trendData} margin={{ top: 10, right: 10, left: -20, bottom: 20 }}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={isDark ? '#1e293b' : '#f1f5f9'} />
+                          <XAxis dataKey="name" tick={<CustomXAxisTick />} axisLine={false} tickLine={false} interval={0} height={70} />
+                          <YAxis tick={{ fontSize: 10, fontWeight: 800 }} axisLine={false} tickLine={false} />
+                          <Tooltip content={<CustomTooltip />} />
+                          <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: '11px', fontWeight: 'bold' }} />
+                          <Line name={chart.title.replace(/ \(%\)$/, '')} dataKey={chart.key} stroke={chart.color} strokeWidth={2.5} dot={{ r: 3 }} connectNulls />
+                          {chart.avgKey && <Line name={`${MOVING_AVERAGE_SPAN}-build avg`} dataKey={chart.avgKey} stroke={chart.color} strokeOpacity={0.45} strokeWidth={2} strokeDasharray="5 4" dot={false} connectNulls />}
+                        </LineChart>
+                      </ResponsiveContainer></div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+            <Card title="Execution Matrix & Build Details" fullWidth warnings={dataMap[activeTab]?.warnings} exportTable={matrixExport}>
+              <div ref={matrixWindow.containerRef} className="max-h-[600px] overflow-auto custom-scrollbar border border-slate-100 dark:border-slate-800 rounded-2xl shadow-inner bg-white dark:bg-slate-900 relative">
                 <table className="w-full text-left min-w-[1400px] border-separate border-spacing-0">
                   <thead className="bg-slate-50 dark:bg-slate-900 shadow-sm">
                     <tr className="text-[10px] font-black uppercase text-slate-400 tracking-wider">
                       <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 sticky left-0 top-0 z-50 min-w-[200px] text-left whitespace-nowrap">Build Version</th>
                       <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 sticky top-0 z-40 text-left whitespace-nowrap">Start Date</th>
                       <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 text-center sticky top-0 z-40 whitespace-nowrap">Overall Status</th>
+                      <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 text-center sticky top-0 z-40 whitespace-nowrap">
+                        <button onClick={() => setGatePanelRef(null)} className="uppercase tracking-wider hover:text-primary-600 transition-colors" title="Edit quality gate rules">Quality Gate ⚙️</button>
+                      </th>
                       <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 sticky top-0 z-40 text-left whitespace-nowrap">Build Type</th>
                       <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 text-right sticky top-0 z-40 whitespace-nowrap">Total Test Cases</th>
                       <th className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 text-right sticky top-0 z-40 whitespace-nowrap">Passed Test Cases</th>
@@ -1033,28 +1690,26 @@ export default function App() {
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
-                    {filteredRows.map((row, idx) => {
-                      const bCol = findCol(dataMap[activeTab].headers, BUILD_COL_ALIASES);
-                      const pCol = findCol(dataMap[activeTab].headers, PLATFORM_COL_ALIASES);
-                      const dCol = findCol(dataMap[activeTab].headers, DATE_COL_ALIASES);
-                      const sCol = findCol(dataMap[activeTab].headers, STATUS_COL_ALIASES);
-                      const tCol = findCol(dataMap[activeTab].headers, TYPE_COL_ALIASES);
-                      
-                      const total = getValByAliases(row, dataMap[activeTab].headers, TOTAL_COL_ALIASES);
-                      const passed = getValByAliases(row, dataMap[activeTab].headers, PASSED_COL_ALIASES);
-                      const failed = getValByAliases(row, dataMap[activeTab].headers, FAILED_COL_ALIASES);
-                      const critical = getValByAliases(row, dataMap[activeTab].headers, CRITICAL_ALIASES);
-                      const major = getValByAliases(row, dataMap[activeTab].headers, MAJOR_ALIASES);
-                      const minor = getValByAliases(row, dataMap[activeTab].headers, MINOR_ALIASES);
+                    <SpacerRow height={matrixWindow.padTop} colSpan={9} />
+                    {filteredRows.slice(matrixWindow.start, matrixWindow.end).map((row, i) => {
+                      const { build: bCol, platform: pCol, date: dCol, status: sCol, buildType: tCol } = matrixCols;
+                      const total = getNumber(row, matrixCols.total);
+                      const passed = getNumber(row, matrixCols.passed);
+                      const failed = getNumber(row, matrixCols.failed);
+                      const critical = getNumber(row, matrixCols.critical);
+                      const major = getNumber(row, matrixCols.major);
+                      const minor = getNumber(row, matrixCols.minor);
+                      const gate = matrixGates.get(buildRefKey({ build: getText(row, bCol), platform: getText(row, pCol) }));
 
                       return (
-                        <tr key={idx} className="hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors">
+                        <tr key={matrixWindow.start + i} ref={i === 0 ? matrixWindow.measureRow : undefined} className="hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors">
                           <td className="px-6 py-5 sticky left-0 z-30 bg-white dark:bg-slate-900 border-r border-slate-50 dark:border-slate-800 whitespace-nowrap min-w-[200px] text-left">
                             <div className="font-extrabold text-sm text-slate-900 dark:text-white">{row[bCol || ''] || '-'}</div>
                             <div className="text-[10px] font-bold text-slate-500 uppercase mt-0.5 tracking-wide">{row[pCol || ''] || 'N/A'}</div>
                           </td>
                           <td className="px-6 py-5 text-[11px] font-bold text-slate-500 whitespace-nowrap text-left">{row[dCol || ''] || '-'}</td>
                           <td className="px-6 py-5 text-center"><span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${getStatusStyles(row[sCol || ''])} whitespace-nowrap`}>{row[sCol || ''] || 'N/A'}</span></td>
+                          <td className="px-6 py-5 text-center">{gate && <GateBadge verdict={gate.verdict} onClick={() => setGatePanelRef(gate.ref)} />}</td>
                           <td className="px-6 py-5 text-left"><span className={`px-2.5 py-0.5 rounded-lg text-[10px] font-black uppercase tracking-wider ${getBuildTypeStyles(row[tCol || ''])} whitespace-nowrap`}>{row[tCol || ''] || 'N/A'}</span></td>
                           <td className="px-6 py-5 text-xs font-black text-slate-500 text-right">{total}</td>
                           <td className="px-6 py-5 text-xs font-black text-emerald-600 text-right">{passed}</td>
@@ -1069,45 +1724,100 @@ export default function App() {
                         </tr>
                       );
                     })}
+                    <SpacerRow height={matrixWindow.padBottom} colSpan={9} />
                     {filteredRows.length === 0 && (
-                      <tr><td colSpan={8} className="px-6 py-12 text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic">No matching build details found</td></tr>
+                      <tr><td colSpan={9} className="px-6 py-12 text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic">No matching build details found</td></tr>
                     )}
                   </tbody>
                 </table>
               </div>
             </Card>
           </div>
+        ) : activeTabSource?.role === 'issues' && issuesView === 'analytics' ? (
+          <div className="space-y-4 animate-in fade-in duration-500">
+            {issuesViewToggle}
+            <Card title="Issue Analytics" loading={loadingMap[activeTab]} error={errorMap[activeTab]} onRetry={() => fetchData(activeTab)} discoveredTabs={discoveredTabs} onPickSheet={pickSheetForActiveTab} suggestedGids={suggestedGids} warnings={dataMap[activeTab]?.warnings} fullWidth>
+              {issueAnalytics && <IssueAnalytics analytics={issueAnalytics} isDark={isDark} />}
+            </Card>
+          </div>
+        ) : activeTabSource?.role === 'validation' && validationView === 'workflow' ? (
+          <div className="space-y-4 animate-in fade-in duration-500">
+            {validationViewToggle}
+            <Card title="Validation Workflow" loading={loadingMap[activeTab]} error={errorMap[activeTab]} onRetry={() => fetchData(activeTab)} discoveredTabs={discoveredTabs} onPickSheet={pickSheetForActiveTab} suggestedGids={suggestedGids} warnings={dataMap[activeTab]?.warnings} fullWidth>
+              {validationWorkflow && <ValidationWorkflow workflow={validationWorkflow} />}
+            </Card>
+          </div>
         ) : (
-          <Card title={activeTab === 'new_issues' ? 'Issue Backlog (External Data)' : 'Validation Queue'} loading={loadingMap[activeTab]} error={errorMap[activeTab]} onRetry={() => fetchData(activeTab)} discoveredTabs={discoveredTabs} fullWidth>
-            <div className="max-h-[600px] overflow-auto custom-scrollbar border border-slate-100 dark:border-slate-800 rounded-2xl shadow-inner bg-white dark:bg-slate-900 relative">
-              <table className="w-full text-left min-w-[1000px] border-separate border-spacing-0">
-                <thead className="bg-slate-50 dark:bg-slate-900 shadow-sm">
-                  <tr className="text-[10px] font-black uppercase text-slate-400 tracking-wider">
-                    {displayHeaders.map((h, i) => <th key={i} className="px-6 py-4 border-b border-slate-200 dark:border-slate-700 whitespace-nowrap bg-slate-50 dark:bg-slate-900 sticky top-0 z-40">{h}</th>)}
-                  </tr>
-                </thead>
-                <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
-                  {filteredRows.map((row, i) => (
-                    <tr key={i} className="hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors">
-                      {displayHeaders.map((h, j) => {
-                        const isStatus = STATUS_COL_ALIASES.some(a => a.toLowerCase() === h.toLowerCase());
-                        const val = row[h];
-                        if (isStatus && val) {
-                          return <td key={j} className="px-6 py-5 min-w-[120px] whitespace-nowrap"><span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${getStatusStyles(val)}`}>{val}</span></td>;
-                        }
-                        return <td key={j} className="px-6 py-5 text-[12px] font-bold text-slate-600 dark:text-slate-300 leading-relaxed min-w-[120px] whitespace-nowrap">{val || '-'}</td>;
-                      })}
-                    </tr>
-                  ))}
-                  {filteredRows.length === 0 && !loadingMap[activeTab] && (
-                    <tr><td colSpan={displayHeaders.length || 1} className="px-6 py-12 text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic">No records match the current filters</td></tr>
-                  )}
-                </tbody>
-              </table>
-            </div>
-          </Card>
+          <div className="space-y-4">
+            {activeTabSource?.role === 'issues' && issuesViewToggle}
+            {activeTabSource?.role === 'validation' && validationViewToggle}
+            <Card title={activeTabSource?.role === 'issues' ? 'Issue Backlog (External Data)' : activeTabSource?.role === 'validation' ? 'Validation Queue' : activeTabSource?.label || ''} loading={loadingMap[activeTab]} error={errorMap[activeTab]} onRetry={() => fetchData(activeTab)} discoveredTabs={discoveredTabs} onPickSheet={pickSheetForActiveTab} suggestedGids={suggestedGids} warnings={dataMap[activeTab]?.warnings} exportTable={tableExport} fullWidth>
+              <DataGrid grid={grid} statusColumns={statusColumns} multiSelectColumns={multiSelectColumns} loading={loadingMap[activeTab]} />
+            </Card>
+          </div>
         )}
       </main>
+
+      <FileDropOverlay targetLabel={activeTabSource?.label || 'the current tab'} onFiles={handleFiles} />
+
+      {toastEvents && !isActivityOpen && <ChangeToast events={toastEvents} onOpen={handleOpenActivity} onDismiss={dismissToast} />}
+
+      {isActivityOpen && (
+        <ActivityDrawer
+          events={activity}
+          prefs={notificationPrefs}
+          platforms={platforms}
+          severities={dimensionOptions.severities}
+          onPrefsChange={handleNotificationPrefsChange}
+          onClear={() => setActivity([])}
+          onClose={() => setIsActivityOpen(false)}
+        />
+      )}
+
+      {diffRange && (
+        <SnapshotDiffPanel
+          snapshots={snapshots}
+          tabs={tabs}
+          liveData={liveDataMap}
+          mappings={columnMappings}
+          initialFrom={diffRange.from}
+          initialTo={diffRange.to}
+          onClose={() => setDiffRange(null)}
+        />
+      )}
+
+      {isSourcesOpen && sourceConfig && profile && (
+        <DataSourceSettings
+          config={sourceConfig}
+          activeProfileId={profile.id}
+          isLocal={isLocalSourceConfig}
+          onSave={handleSaveSources}
+          onResetToDeployed={handleResetSources}
+          onClose={() => setIsSourcesOpen(false)}
+        />
+      )}
+
+      {reportData && <BuildReport {...reportData} containerRef={reportRef} />}
+
+      {gatePanelRef !== undefined && (
+        <QualityGatePanel
+          result={gatePanelRef ? evaluateGate(gatePanelRef) : null}
+          rules={gateRules}
+          onChange={handleGateRulesChange}
+          onClose={() => setGatePanelRef(undefined)}
+        />
+      )}
+
+      {isMappingOpen && (
+        <ColumnMappingPanel
+          tabs={tabs}
+          initialTabId={activeTab}
+          dataMap={dataMap}
+          mappings={columnMappings}
+          onChange={handleColumnMappingsChange}
+          onClose={() => setIsMappingOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -1122,11 +1832,25 @@ function MetricCard({ title, value, icon }: MetricCardProps) {
   );
 }
 
-function Card({ title, children, loading, error, onRetry, discoveredTabs, fullWidth }: CardProps) {
-  const tabsList = discoveredTabs ? Object.entries(discoveredTabs) : [];
+function Card({ title, children, loading, error, onRetry, discoveredTabs, onPickSheet, suggestedGids = [], fullWidth, warnings, exportTable }: CardProps) {
+  const tabsList = [...(discoveredTabs || [])].sort((a, b) => Number(suggestedGids.includes(b.gid)) - Number(suggestedGids.includes(a.gid)));
+  const malformedRows = countMalformedRows(warnings);
   return (
     <div className={`bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-sm flex flex-col min-h-[400px] ${fullWidth ? 'lg:col-span-3' : ''}`}>
-      <div className="px-8 py-6 border-b border-slate-50 dark:border-slate-800/50 flex justify-between items-center"><h3 className="text-[12px] font-black uppercase tracking-widest text-slate-400">{title}</h3></div>
+      <div className="px-8 py-6 border-b border-slate-50 dark:border-slate-800/50 flex justify-between items-center gap-4">
+        <h3 className="text-[12px] font-black uppercase tracking-widest text-slate-400">{title}</h3>
+        <div className="flex items-center gap-2">
+          {malformedRows > 0 && !error && (
+            <span 
+              title={warnings!.filter(w => w.scope === 'row').map(w => `Line ${w.row}: ${w.message}`).join('\n')}
+              className="px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400 cursor-help whitespace-nowrap"
+            >
+              {malformedRows} {malformedRows === 1 ? 'row' : 'rows'} malformed
+            </span>
+          )}
+          {exportTable && !error && <ExportMenu table={exportTable} />}
+        </div>
+      </div>
       <div className="p-8 flex-1 relative flex flex-col">
         {loading && <div className="absolute inset-0 z-50 flex items-center justify-center bg-white/60 dark:bg-slate-900/60 backdrop-blur-sm rounded-[2.5rem]"><div className="w-8 h-8 border-3 border-primary-600 border-t-transparent rounded-full animate-spin" /></div>}
         {error ? (
@@ -1135,9 +1859,14 @@ function Card({ title, children, loading, error, onRetry, discoveredTabs, fullWi
             <p className="text-[11px] font-bold text-rose-500 max-w-xs">{error}</p>
             {tabsList.length > 0 && (
               <div className="bg-slate-50 dark:bg-slate-800 p-4 rounded-2xl text-left w-full max-sm border border-slate-100 dark:border-slate-700">
-                <p className="text-[9px] font-black uppercase text-slate-400 mb-2 tracking-widest">Available Sheets (Discovery):</p>
+                <p className="text-[9px] font-black uppercase text-slate-400 mb-2 tracking-widest">{onPickSheet ? 'Pick the sheet for this tab (Discovery):' : 'Available Sheets (Discovery):'}</p>
                 <div className="space-y-1">
-                  {tabsList.map(([name, gid]) => (
+                  {tabsList.map(({ name, gid }) => onPickSheet ? (
+                    <button key={gid} onClick={() => onPickSheet(gid)} className="w-full flex justify-between items-center gap-2 px-2 py-1 rounded-lg text-[10px] font-bold text-slate-600 dark:text-slate-400 hover:bg-primary-50 hover:text-primary-600 dark:hover:bg-primary-900/20 transition-colors text-left">
+                      <span>{name}{suggestedGids.includes(gid) && <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400 text-[8px] uppercase">Suggested</span>}</span>
+                      <span className="bg-slate-100 dark:bg-slate-700 px-1 rounded text-[8px]">GID: {gid}</span>
+                    </button>
+                  ) : (
                     <div key={gid} className="flex justify-between items-center text-[10px] font-bold text-slate-600 dark:text-slate-400"><span>{name}</span><span className="bg-slate-100 dark:bg-slate-700 px-1 rounded text-[8px]">GID: {gid}</span></div>
                   ))}
                 </div>
@@ -0,0 +1,78 @@
+import React from 'react';
+import { ReadinessInsight, ReadinessVerdict } from '../types';
+
+interface AIInsightsProps {
+  insight: ReadinessInsight | null;
+  loading: boolean;
+  error: string | null;
+  onAnalyze: () => void;
+}
+
+const VERDICT_STYLES: Record<ReadinessVerdict, { label: string; className: string }> = {
+  GO: { label: 'Go', className: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400' },
+  CONDITIONAL: { label: 'Conditional', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400' },
+  NO_GO: { label: 'No-Go', className: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400' },
+};
+
+const RISK_DOT: Record<string, string> = {
+  high: 'bg-rose-500',
+  medium: 'bg-amber-500',
+  low: 'bg-blue-500',
+};
+
+export default function AIInsights({ insight, loading, error, onAnalyze }: AIInsightsProps) {
+  return (
+    <div className="flex-1 flex flex-col gap-6">
+      <div className="flex items-center justify-between gap-4">
+        {insight ? (
+          <div className="flex items-center gap-3">
+            <span className={`px-4 py-1.5 rounded-full text-[11px] font-black uppercase tracking-widest ${VERDICT_STYLES[insight.verdict].className}`}>
+              {VERDICT_STYLES[insight.verdict].label}
+            </span>
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+              {(insight.confidence * 100).toFixed(0)}% confidence · {new Date(insight.generatedAt).toLocaleTimeString()}
+            </span>
+          </div>
+        ) : (
+          <p className="text-[11px] font-bold text-slate-400">Generate a go/no-go assessment for the current filters.</p>
+        )}
+        <button
+          onClick={onAnalyze}
+          disabled={loading}
+          className="px-5 py-2.5 bg-primary-600 text-white rounded-xl text-[10px] font-black uppercase active:scale-95 shadow-lg disabled:opacity-50 shrink-0"
+        >
+          {loading ? 'Analyzing…' : insight ? 'Re-analyze' : 'Analyze'}
+        </button>
+      </div>
+
+      {error && <p className="text-[11px] font-bold text-rose-500">{error}</p>}
+
+      {insight && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div>
+            <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider mb-3">Top Risks</p>
+            {insight.risks.length === 0 ? (
+              <p className="text-xs font-bold text-slate-400 italic">No significant risks identified.</p>
+            ) : (
+              <ul className="space-y-3">
+                {insight.risks.map((risk, i) => (
+                  <li key={i} className="flex gap-3">
+                    <span className={`w-2 h-2 rounded-full mt-1.5 shrink-0 ${RISK_DOT[risk.severity]}`} />
+                    <div>
+                      <p className="text-xs font-black text-slate-900 dark:text-white">{risk.title}</p>
+                      <p className="text-[11px] font-medium text-slate-500 dark:text-slate-400 leading-relaxed">{risk.detail}</p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider mb-3">Narrative</p>
+            <p className="text-xs font-medium text-slate-600 dark:text-slate-300 leading-relaxed whitespace-pre-line">{insight.narrative}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
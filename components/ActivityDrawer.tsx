@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { browserNotificationPermission, requestBrowserNotificationPermission } from '../services/browserNotifications';
+import { CHANGE_EVENT_TYPES, ChangeEvent, describeChangeEvent, NotificationPrefs } from '../utils/changeEvents';
+import { getSeverityDotStyles, getStatusStyles } from '../utils/statusStyles';
+import MultiSelect from './MultiSelect';
+
+interface ActivityDrawerProps {
+  events: ChangeEvent[];
+  prefs: NotificationPrefs;
+  platforms: string[];
+  severities: string[];
+  onPrefsChange: (prefs: NotificationPrefs) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function ActivityDrawer({ events, prefs, platforms, severities, onPrefsChange, onClear, onClose }: ActivityDrawerProps) {
+  const [permission, setPermission] = useState(browserNotificationPermission);
+
+  const handleToggleBrowser = async () => {
+    if (prefs.browser) {
+      onPrefsChange({ ...prefs, browser: false });
+      return;
+    }
+    const result = await requestBrowserNotificationPermission();
+    setPermission(result);
+    if (result === 'granted') onPrefsChange({ ...prefs, browser: true });
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex justify-end bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <aside className="bg-white dark:bg-slate-900 border-l border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-md h-full flex flex-col animate-in slide-in-from-right duration-300" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-50 dark:border-slate-800/50 flex justify-between items-center">
+          <h3 className="text-[12px] font-black uppercase tracking-widest text-slate-400">Activity</h3>
+          <div className="flex items-center gap-2">
+            {events.length > 0 && <button onClick={onClear} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-rose-500">Clear</button>}
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-all">
+              <svg className="w-4 h-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar px-8 py-6">
+          {events.length === 0 ? (
+            <p className="py-12 text-center text-slate-400 font-bold text-[10px] uppercase tracking-widest italic">No changes noticed yet. Each refresh is compared with the data before it.</p>
+          ) : (
+            <ol className="space-y-4">
+              {events.map(e => (
+                <li key={e.id} className="flex gap-3">
+                  <span className="w-8 h-8 shrink-0 rounded-xl bg-slate-100 dark:bg-slate-800 flex items-center justify-center text-sm">{CHANGE_EVENT_TYPES[e.type].icon}</span>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-[11px] font-bold text-slate-700 dark:text-slate-200">{describeChangeEvent(e)}</p>
+                    <div className="mt-1 flex items-center gap-2">
+                      <span className="text-[9px] font-black uppercase tracking-wider text-slate-400">{CHANGE_EVENT_TYPES[e.type].label} · {formatTime(e.at)}</span>
+                      {e.type === 'newIssue' ? (
+                        e.severity && (
+                          <span className="flex items-center gap-1 text-[9px] font-black uppercase text-slate-500">
+                            <span className={`w-1.5 h-1.5 rounded-full ${getSeverityDotStyles(e.severity)}`} />{e.severity}
+                          </span>
+                        )
+                      ) : (
+                        e.to && <span className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase ${getStatusStyles(e.to)}`}>{e.to}</span>
+                      )}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="px-8 py-6 border-t border-slate-100 dark:border-slate-800 space-y-4">
+          <label className="flex items-center justify-between gap-4 cursor-pointer">
+            <span>
+              <span className="block text-[10px] font-black uppercase tracking-widest text-slate-500">Browser notifications</span>
+              <span className="block text-[10px] font-bold text-slate-400">
+                {permission === 'unsupported' ? 'Not supported in this browser' : permission === 'denied' ? 'Blocked in the browser\'s site settings' : 'Alert even when this tab is in the background'}
+              </span>
+            </span>
+            <input type="checkbox" checked={prefs.browser} disabled={permission === 'unsupported' || permission === 'denied'} onChange={handleToggleBrowser} className="w-4 h-4 accent-primary-600" />
+          </label>
+          {prefs.browser && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <span className="text-[9px] font-black uppercase tracking-wider text-slate-400">Platforms</span>
+                <MultiSelect values={platforms} selected={prefs.platforms} onChange={next => onPrefsChange({ ...prefs, platforms: next })} />
+              </div>
+              <div className="space-y-1.5">
+                <span className="text-[9px] font-black uppercase tracking-wider text-slate-400">Issue severity</span>
+                <MultiSelect values={severities} selected={prefs.severities} onChange={next => onPrefsChange({ ...prefs, severities: next })} />
+              </div>
+            </div>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
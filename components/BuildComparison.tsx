@@ -0,0 +1,147 @@
+import React from 'react';
+import { BuildComparisonColumn, BuildRef, buildRefKey, buildRefLabel } from '../utils/buildComparison';
+import { getSeverityDotStyles, getStatusStyles } from '../utils/statusStyles';
+
+interface BuildComparisonProps {
+  options: BuildRef[];
+  selected: BuildRef[];
+  columns: BuildComparisonColumn[];
+  onChange: (selected: BuildRef[]) => void;
+  onClose: () => void;
+}
+
+// `higherIsBetter` decides the colour; the arrow always follows the sign
+function Delta({ value, suffix = '', higherIsBetter = true, digits = 0 }: { value: number | null; suffix?: string; higherIsBetter?: boolean; digits?: number }) {
+  if (value === null) return <span className="text-[9px] font-black uppercase tracking-widest text-slate-300">Baseline</span>;
+  const rounded = Number(value.toFixed(digits));
+  if (rounded === 0) return <span className="text-[10px] font-black text-slate-400">= 0{suffix}</span>;
+  const good = (rounded > 0) === higherIsBetter;
+  return (
+    <span className={`text-[10px] font-black ${good ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-500'}`}>
+      {rounded > 0 ? '▲' : '▼'} {Math.abs(rounded).toFixed(digits)}{suffix}
+    </span>
+  );
+}
+
+// The issues tab does not say which platform this issue is on, so every platform column lists it
+function SharedTag() {
+  return <span title="Logged against the build, not a platform" className="ml-1.5 px-1.5 py-0.5 rounded-md bg-slate-100 dark:bg-slate-800 text-[8px] font-black uppercase tracking-widest text-slate-400 whitespace-nowrap">All platforms</span>;
+}
+
+export default function BuildComparison({ options, selected, columns, onChange, onClose }: BuildComparisonProps) {
+  const selectedKeys = new Set(selected.map(buildRefKey));
+
+  const toggle = (ref: BuildRef) => {
+    const key = buildRefKey(ref);
+    onChange(selectedKeys.has(key) ? selected.filter(r => buildRefKey(r) !== key) : [...selected, ref]);
+  };
+
+  const metricRows: { label: string; render: (c: BuildComparisonColumn) => React.ReactNode }[] = [
+    { label: 'Pass Rate', render: c => <><div className="text-lg font-black text-slate-900 dark:text-white">{c.passRate.toFixed(1)}%</div><Delta value={c.passRateDelta} suffix=" pts" digits={1} /></> },
+    { label: 'Failed', render: c => <><div className="text-lg font-black text-rose-500">{c.failed}</div><Delta value={c.failedDelta} higherIsBetter={false} /></> },
+    { label: 'Automation', render: c => <><div className="text-lg font-black text-violet-500">{c.automation}</div><Delta value={c.automationDelta} /></> },
+    { label: 'Manual', render: c => <><div className="text-lg font-black text-pink-500">{c.manual}</div><Delta value={c.manualDelta} /></> },
+  ];
+
+  return (
+    <section className="bg-white dark:bg-slate-900 rounded-[2.5rem] p-8 border border-slate-200 dark:border-slate-800 shadow-sm animate-in fade-in slide-in-from-top-2 duration-500 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="w-2 h-2 rounded-full bg-primary-500" />
+          <h2 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">Build Comparison</h2>
+        </div>
+        <button onClick={onClose} className="text-[10px] font-black uppercase text-slate-400 hover:text-rose-500 transition-colors">Exit Compare</button>
+      </div>
+
+      <div>
+        <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider mb-2">Pick two or more builds</p>
+        <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto custom-scrollbar">
+          {options.map(ref => {
+            const active = selectedKeys.has(buildRefKey(ref));
+            return (
+              <button key={buildRefKey(ref)} onClick={() => toggle(ref)} className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-wide transition-all whitespace-nowrap ${active ? 'bg-primary-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-800 dark:hover:text-slate-200'}`}>
+                {buildRefLabel(ref)}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {columns.length < 2 ? (
+        <p className="py-10 text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic">Select at least two builds to compare</p>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-left border-separate border-spacing-0" style={{ minWidth: `${200 + columns.length * 220}px` }}>
+            <thead>
+              <tr>
+                <th className="pb-4 pr-4 w-[160px]" />
+                {columns.map(c => (
+                  <th key={buildRefKey(c.ref)} className="pb-4 px-4 align-bottom">
+                    <div className="text-sm font-black text-primary-600 dark:text-primary-400">#{c.ref.build}</div>
+                    <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wide">{c.ref.platform || 'All platforms'}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {metricRows.map(row => (
+                <tr key={row.label}>
+                  <td className="py-3 pr-4 text-[10px] font-black uppercase text-slate-400 tracking-wider border-t border-slate-100 dark:border-slate-800">{row.label}</td>
+                  {columns.map(c => <td key={buildRefKey(c.ref)} className="py-3 px-4 border-t border-slate-100 dark:border-slate-800">{row.render(c)}</td>)}
+                </tr>
+              ))}
+              <tr>
+                <td className="py-3 pr-4 text-[10px] font-black uppercase text-slate-400 tracking-wider border-t border-slate-100 dark:border-slate-800 align-top">Issues</td>
+                {columns.map((c, i) => (
+                  <td key={buildRefKey(c.ref)} className="py-3 px-4 border-t border-slate-100 dark:border-slate-800 align-top">
+                    <div className="flex gap-3 mb-2 text-[10px] font-black uppercase tracking-wide">
+                      <span className="text-rose-500">{i === 0 ? 'Reported' : 'New'} {c.newIssues.length}</span>
+                      {i > 0 && <span className="text-slate-400">Carried {c.carriedOverIssues.length}</span>}
+                    </div>
+                    <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar pr-1">
+                      {c.newIssues.map((iss, j) => (
+                        <li key={`n${j}`} className="flex items-start gap-2 text-[11px] font-bold text-slate-700 dark:text-slate-200">
+                          <span className={`w-1.5 h-1.5 rounded-full mt-1.5 shrink-0 ${getSeverityDotStyles(iss.severity)}`} />
+                          <span className="leading-snug">{iss.title}{iss.shared && <SharedTag />}</span>
+                        </li>
+                      ))}
+                      {c.carriedOverIssues.map((iss, j) => (
+                        <li key={`c${j}`} className="flex items-start gap-2 text-[11px] font-medium text-slate-400">
+                          <span className={`w-1.5 h-1.5 rounded-full mt-1.5 shrink-0 opacity-50 ${getSeverityDotStyles(iss.severity)}`} />
+                          <span className="leading-snug">{iss.title}{iss.shared && <SharedTag />}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                ))}
+              </tr>
+              <tr>
+                <td className="py-3 pr-4 text-[10px] font-black uppercase text-slate-400 tracking-wider border-t border-slate-100 dark:border-slate-800 align-top">Validation Changes</td>
+                {columns.map((c, i) => (
+                  <td key={buildRefKey(c.ref)} className="py-3 px-4 border-t border-slate-100 dark:border-slate-800 align-top">
+                    {i === 0 ? <span className="text-[9px] font-black uppercase tracking-widest text-slate-300">Baseline</span> : c.validationChanges.length === 0 ? (
+                      <span className="text-[11px] font-bold text-slate-400 italic">No changes</span>
+                    ) : (
+                      <ul className="space-y-1.5 max-h-40 overflow-y-auto custom-scrollbar pr-1">
+                        {c.validationChanges.map(ch => (
+                          <li key={ch.ticket} className="text-[11px] font-bold text-slate-700 dark:text-slate-200">
+                            <div className="truncate max-w-[200px]" title={ch.ticket}>{ch.ticket}</div>
+                            <div className="flex items-center gap-1 mt-0.5">
+                              {ch.from !== null ? <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest ${getStatusStyles(ch.from)}`}>{ch.from || '—'}</span> : <span className="text-[8px] font-black uppercase text-slate-400">New</span>}
+                              <span className="text-slate-300">→</span>
+                              <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest ${getStatusStyles(ch.to)}`}>{ch.to || '—'}</span>
+                            </div>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,177 @@
+import React from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend, PieChart, Pie, Cell, LabelList } from 'recharts';
+import { BuildReportData, MATRIX_HEADERS, REPORT_CHART_SIZES, reportMetricCards, reportStatusFields } from '../utils/buildReport';
+import { describeGateRule, formatGateValue } from '../utils/qualityGates';
+import { getNumber, getText } from '../utils/schema';
+import { EXECUTION_COLORS, getGateVerdictStyles, getStatusStyles } from '../utils/statusStyles';
+
+interface BuildReportProps extends BuildReportData {
+  // The PDF export reads the rendered charts from here
+  containerRef?: React.Ref<HTMLDivElement>;
+}
+
+// Charts have fixed sizes; ResponsiveContainer cannot measure a hidden tree
+const { distribution: PIE, methodology: METHODOLOGY, severity: SEVERITY } = REPORT_CHART_SIZES;
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <h2 className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-500 mb-3">{children}</h2>
+);
+
+const Pill = ({ className, children }: { className: string; children: React.ReactNode }) => (
+  <span className={`px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest whitespace-nowrap ${className}`}>{children}</span>
+);
+
+/**
+ * Light-themed, print-only rendition of the selected build. Mounted just
+ * before `window.print()`, or offscreen while the PDF export copies its charts.
+ */
+export default function BuildReport({ title, buildInfo, gate, stats, pieData, trendData, matrixRows, matrixCols, tables, generatedAt, sourceInfo, containerRef }: BuildReportProps) {
+  return (
+    <div ref={containerRef} className="print-report text-slate-900 bg-white">
+      {/* The table footer repeats on every printed page, keeping room for the fixed page footer */}
+      <table className="print-frame w-full border-collapse">
+        <tfoot><tr><td><div className="print-footer-space" /></td></tr></tfoot>
+        <tbody><tr><td>
+          <header className="flex items-end justify-between border-b-2 border-primary-600 pb-3 mb-6">
+            <h1 className="text-lg font-black uppercase tracking-tight text-primary-600">{title}</h1>
+            {gate && <Pill className={getGateVerdictStyles(gate.verdict)}>Quality Gate: {gate.verdict}</Pill>}
+          </header>
+
+          <section className="print-avoid-break mb-6">
+            <SectionTitle>Current Status</SectionTitle>
+            <div className="grid grid-cols-6 gap-4">
+              {reportStatusFields(buildInfo).map(f => (
+                <div key={f.label}>
+                  <p className="text-[8px] font-black uppercase text-slate-400 tracking-wider mb-1">{f.label}</p>
+                  {f.value ? (f.pill ? <Pill className={getStatusStyles(f.value)}>{f.value}</Pill> : <p className="text-xs font-black">{f.value}</p>) : <p className="text-xs font-black text-slate-300">—</p>}
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="print-avoid-break mb-6 grid grid-cols-4 gap-3">
+            {reportMetricCards(stats).map(({ label, value }) => (
+              <div key={label} className="rounded-2xl border border-slate-200 p-4">
+                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1">{label}</span>
+                <span className="text-2xl font-black tracking-tight">{value}</span>
+              </div>
+            ))}
+          </section>
+
+          {gate && gate.results.some(r => r.outcome !== 'pass') && (
+            <section className="print-avoid-break mb-6">
+              <SectionTitle>Unmet Quality Gates</SectionTitle>
+              <ul className="space-y-1">
+                {gate.results.filter(r => r.outcome !== 'pass').map(r => (
+                  <li key={r.rule.id} className="text-[11px] font-bold">
+                    {r.outcome === 'noData'
+                      ? <><span className="text-slate-400">?</span> {describeGateRule(r.rule)} — no data for this build</>
+                      : <><span className={r.rule.severity === 'block' ? 'text-rose-600' : 'text-amber-600'}>✕</span> {describeGateRule(r.rule)} — actual {formatGateValue(r.rule, r.actual)}</>}
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          <section className="print-avoid-break mb-6 grid grid-cols-[240px_1fr] gap-4 items-center">
+            <div data-report-chart="distribution">
+              <SectionTitle>Distribution</SectionTitle>
+              <PieChart width={PIE.width} height={PIE.height}>
+                <Pie data={pieData} cx="50%" cy="45%" innerRadius={50} outerRadius={75} paddingAngle={4} dataKey="value" isAnimationActive={false} label={({ value }: any) => value} labelLine={false}>
+                  {pieData.map((e, i) => <Cell key={i} fill={e.color} stroke="none" />)}
+                </Pie>
+                <Legend verticalAlign="bottom" height={28} iconType="circle" wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+              </PieChart>
+            </div>
+            <div data-report-chart="methodology">
+              <SectionTitle>Methodology Trend</SectionTitle>
+              <BarChart width={METHODOLOGY.width} height={METHODOLOGY.height} data={trendData} margin={{ top: 20, right: 10, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="name" tick={{ fontSize: 9, fontWeight: 800 }} axisLine={false} tickLine={false} interval={0} />
+                <YAxis tick={{ fontSize: 9, fontWeight: 800 }} axisLine={false} tickLine={false} />
+                <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+                <Bar name="Automation" dataKey="Automation" fill={EXECUTION_COLORS.automation} barSize={12} isAnimationActive={false}>
+                  <LabelList position="top" fontSize={9} fontWeight="900" fill="#1e293b" formatter={(val: number) => val > 0 ? val : ''} />
+                </Bar>
+                <Bar name="Manual" dataKey="Manual" fill={EXECUTION_COLORS.manual} barSize={12} isAnimationActive={false}>
+                  <LabelList position="top" fontSize={9} fontWeight="900" fill="#1e293b" formatter={(val: number) => val > 0 ? val : ''} />
+                </Bar>
+              </BarChart>
+            </div>
+          </section>
+
+          <section className="print-avoid-break mb-6" data-report-chart="severity">
+            <SectionTitle>Issue Severity Trend</SectionTitle>
+            <BarChart width={SEVERITY.width} height={SEVERITY.height} data={trendData} margin={{ top: 20, right: 10, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="name" tick={{ fontSize: 9, fontWeight: 800 }} axisLine={false} tickLine={false} interval={0} />
+              <YAxis tick={{ fontSize: 9, fontWeight: 800 }} axisLine={false} tickLine={false} />
+              <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: '10px', fontWeight: 'bold' }} />
+              <Bar name="Critical" dataKey="Critical" stackId="severity" fill={EXECUTION_COLORS.critical} barSize={24} isAnimationActive={false} />
+              <Bar name="Major" dataKey="Major" stackId="severity" fill={EXECUTION_COLORS.major} barSize={24} isAnimationActive={false} />
+              <Bar name="Minor" dataKey="Minor" stackId="severity" fill={EXECUTION_COLORS.minor} barSize={24} isAnimationActive={false} />
+            </BarChart>
+          </section>
+
+          <section className="mb-6">
+            <SectionTitle>Execution Matrix</SectionTitle>
+            <table className="w-full text-left border-collapse text-[10px]">
+              <thead>
+                <tr className="text-[8px] font-black uppercase text-slate-500 tracking-wider border-b border-slate-300">
+                  {MATRIX_HEADERS.map((h, i) => <th key={h} className={`py-2 pr-2 ${i >= 4 ? 'text-right' : ''}`}>{h}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {matrixRows.map((row, i) => (
+                  <tr key={i} className="border-b border-slate-100 print-avoid-break">
+                    <td className="py-1.5 pr-2 font-black">{getText(row, matrixCols.build) || '-'} <span className="text-slate-400 font-bold">{getText(row, matrixCols.platform)}</span></td>
+                    <td className="py-1.5 pr-2 font-bold text-slate-600">{getText(row, matrixCols.date) || '-'}</td>
+                    <td className="py-1.5 pr-2">{getText(row, matrixCols.status) ? <Pill className={getStatusStyles(getText(row, matrixCols.status))}>{getText(row, matrixCols.status)}</Pill> : '-'}</td>
+                    <td className="py-1.5 pr-2 font-bold text-slate-600">{getText(row, matrixCols.buildType) || '-'}</td>
+                    <td className="py-1.5 pr-2 text-right font-black">{getNumber(row, matrixCols.total)}</td>
+                    <td className="py-1.5 pr-2 text-right font-black text-emerald-600">{getNumber(row, matrixCols.passed)}</td>
+                    <td className="py-1.5 pr-2 text-right font-black text-rose-600">{getNumber(row, matrixCols.failed)}</td>
+                    <td className="py-1.5 text-right font-black">{getNumber(row, matrixCols.critical)} / {getNumber(row, matrixCols.major)} / {getNumber(row, matrixCols.minor)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          {tables.map(table => (
+            <section key={table.title} className="mb-6">
+              <SectionTitle>{table.title} ({table.rows.length})</SectionTitle>
+              {table.rows.length === 0 ? (
+                <p className="text-[10px] font-bold text-slate-400 italic">No records for this build</p>
+              ) : (
+                <table className="w-full text-left border-collapse text-[9px]">
+                  <thead>
+                    <tr className="text-[8px] font-black uppercase text-slate-500 tracking-wider border-b border-slate-300">
+                      {table.headers.map(h => <th key={h} className="py-2 pr-2">{h}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {table.rows.map((row, i) => (
+                      <tr key={i} className="border-b border-slate-100 print-avoid-break align-top">
+                        {table.headers.map(h => (
+                          <td key={h} className="py-1.5 pr-2 font-bold text-slate-700">
+                            {h === table.statusColumn && row[h] ? <Pill className={getStatusStyles(row[h])}>{row[h]}</Pill> : row[h] || '-'}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          ))}
+        </td></tr></tbody>
+      </table>
+
+      <footer className="print-footer border-t border-slate-200 pt-2 mt-8 text-[8px] font-bold text-slate-400 flex justify-between gap-4">
+        <span>Generated {generatedAt.toLocaleString()}</span>
+        <span className="text-right">{sourceInfo.join(' · ')}</span>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import React, { useEffect } from 'react';
+import { CHANGE_EVENT_TYPES, ChangeEvent, describeChangeEvent } from '../utils/changeEvents';
+
+interface ChangeToastProps {
+  events: ChangeEvent[];
+  onOpen: () => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION = 8000;
+const MAX_LINES = 3;
+
+export default function ChangeToast({ events, onOpen, onDismiss }: ChangeToastProps) {
+  // A newer batch replaces this one and restarts the timer
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [events, onDismiss]);
+
+  return (
+    <div role="status" className="fixed bottom-6 right-6 z-[140] w-[22rem] max-w-[calc(100vw-3rem)] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-3xl shadow-2xl p-5 animate-in fade-in slide-in-from-bottom-4 duration-300">
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-[10px] font-black uppercase tracking-widest text-primary-600">{events.length === 1 ? '1 change' : `${events.length} changes`} since last refresh</p>
+        <button onClick={onDismiss} className="text-slate-300 hover:text-slate-500 text-xs" aria-label="Dismiss">✕</button>
+      </div>
+      <ul className="space-y-1.5">
+        {events.slice(0, MAX_LINES).map(e => (
+          <li key={e.id} className="flex gap-2 text-[11px] font-bold text-slate-700 dark:text-slate-200">
+            <span className="shrink-0">{CHANGE_EVENT_TYPES[e.type].icon}</span>
+            <span className="line-clamp-2">{describeChangeEvent(e)}</span>
+          </li>
+        ))}
+      </ul>
+      <button onClick={onOpen} className="mt-3 text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-primary-600">
+        {events.length > MAX_LINES ? `+${events.length - MAX_LINES} more · ` : ''}View activity →
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import React from 'react';
+
+// Tooltip shared by the dashboard's recharts charts
+const CustomTooltip = ({ active, payload, label }: any) => {
+  if (!active || !payload?.length) return null;
+  const title = label || payload[0].name;
+  return (
+    <div className="bg-white dark:bg-slate-800 p-4 border border-slate-200 dark:border-slate-700 shadow-2xl rounded-2xl animate-in fade-in duration-150 min-w-[160px] pointer-events-none z-[200]">
+      <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 dark:text-slate-400 mb-2.5 border-b border-slate-100 dark:border-slate-700 pb-2.5 truncate max-w-[200px]">{title}</p>
+      <div className="space-y-2">
+        {payload.map((entry: any, index: number) => {
+          // Robust percentage retrieval for Pie charts
+          const preCalcPercent = entry.payload?.percent;
+          let percentDisplay = null;
+
+          if (preCalcPercent !== undefined && !isNaN(preCalcPercent)) {
+             percentDisplay = (preCalcPercent * 100).toFixed(1);
+          }
+          
+          return (
+            <div key={index} className="flex items-center justify-between gap-6">
+              <div className="flex items-center gap-2.5">
+                <div className="w-2.5 h-2.5 rounded-full ring-2 ring-white shadow-sm" style={{ backgroundColor: entry.color || entry.fill }} />
+                <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200">{entry.name}</span>
+              </div>
+              <div className="flex items-center gap-1.5 text-right">
+                <span className="text-[11px] font-extrabold text-slate-900 dark:text-white">{entry.value}</span>
+                {percentDisplay && (
+                  <span className="text-[10px] font-black text-primary-600 dark:text-primary-400">
+                    ({percentDisplay}%)
+                  </span>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CustomTooltip;
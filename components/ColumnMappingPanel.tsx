@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { DashboardData, LogicalField, TabColumnMappings } from '../types';
+import { FIELD_DEFINITIONS, LOGICAL_FIELDS, parseColumnMappingsFile, resolveColumn, serializeColumnMappings, suggestColumns } from '../utils/columnMapping';
+import { downloadFile } from '../utils/download';
+
+interface ColumnMappingPanelProps {
+  tabs: { id: string; label: string; icon: string }[];
+  initialTabId: string;
+  dataMap: Record<string, DashboardData>;
+  mappings: TabColumnMappings;
+  onChange: (mappings: TabColumnMappings) => void;
+  onClose: () => void;
+}
+
+const AUTO = '__auto__';
+const NONE = '__none__';
+
+const SOURCE_STYLES = {
+  override: 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300',
+  alias: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  none: 'bg-slate-100 text-slate-500 dark:bg-slate-800 dark:text-slate-400',
+};
+
+export default function ColumnMappingPanel({ tabs, initialTabId, dataMap, mappings, onChange, onClose }: ColumnMappingPanelProps) {
+  const [tabId, setTabId] = useState(initialTabId);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const headers = dataMap[tabId]?.headers || [];
+  const tabMapping = mappings[tabId] || {};
+
+  const setField = (field: LogicalField, value: string) => {
+    const next = { ...tabMapping };
+    if (value === AUTO) delete next[field];
+    else next[field] = value === NONE ? '' : value;
+    onChange({ ...mappings, [tabId]: next });
+  };
+
+  const resetTab = () => {
+    const next = { ...mappings };
+    delete next[tabId];
+    onChange(next);
+  };
+
+  const handleExport = () => downloadFile(serializeColumnMappings(mappings), 'application/json', 'column-mappings.json');
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseColumnMappingsFile(await file.text()));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-50 dark:border-slate-800/50 flex justify-between items-center">
+          <h3 className="text-[12px] font-black uppercase tracking-widest text-slate-400">Column Mapping</h3>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-all">
+            <svg className="w-4 h-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="px-8 pt-6 flex gap-1 overflow-x-auto no-scrollbar">
+          {tabs.map(tab => (
+            <button key={tab.id} onClick={() => setTabId(tab.id)} className={`px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-wider transition-all flex items-center gap-2 whitespace-nowrap ${tabId === tab.id ? 'bg-primary-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-800'}`}>
+              <span>{tab.icon}</span>{tab.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-8 overflow-auto custom-scrollbar flex-1">
+          {headers.length === 0 ? (
+            <p className="text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic py-12">No data loaded for this tab yet</p>
+          ) : (
+            <table className="w-full text-left border-separate border-spacing-0">
+              <thead>
+                <tr className="text-[10px] font-black uppercase text-slate-400 tracking-wider">
+                  <th className="pb-3 pr-4">Field</th>
+                  <th className="pb-3 pr-4">Resolved Column</th>
+                  <th className="pb-3 pr-4">Mapping</th>
+                  <th className="pb-3">Suggestions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {LOGICAL_FIELDS.map(field => {
+                  const { column, source } = resolveColumn(headers, field, tabMapping);
+                  const override = tabMapping[field];
+                  const selectValue = override === undefined ? AUTO : override === '' ? NONE : override;
+                  const suggestions = suggestColumns(headers, field).filter(s => s.header !== column);
+                  return (
+                    <tr key={field} className="border-t border-slate-100 dark:border-slate-800">
+                      <td className="py-2.5 pr-4 text-xs font-black text-slate-900 dark:text-white whitespace-nowrap">{FIELD_DEFINITIONS[field].label}</td>
+                      <td className="py-2.5 pr-4 whitespace-nowrap">
+                        <span className={`px-2.5 py-0.5 rounded-lg text-[10px] font-black tracking-wide ${SOURCE_STYLES[source]}`}>
+                          {column || 'Not mapped'}
+                        </span>
+                      </td>
+                      <td className="py-2.5 pr-4">
+                        <select value={selectValue} onChange={e => setField(field, e.target.value)} className="w-full bg-slate-50 dark:bg-slate-800 px-3 py-2 rounded-xl text-[11px] font-bold border border-transparent focus:border-primary-500/30 transition-all cursor-pointer">
+                          <option value={AUTO}>Auto (aliases)</option>
+                          <option value={NONE}>Not mapped</option>
+                          {override && !headers.includes(override) && <option value={override}>{override} (missing)</option>}
+                          {headers.map(h => <option key={h} value={h}>{h}</option>)}
+                        </select>
+                      </td>
+                      <td className="py-2.5">
+                        <div className="flex flex-wrap gap-1">
+                          {suggestions.map(s => (
+                            <button key={s.header} onClick={() => setField(field, s.header)} title={`${Math.round(s.score * 100)}% match`} className="px-2 py-0.5 rounded-lg text-[10px] font-bold bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-primary-50 hover:text-primary-600 transition-colors whitespace-nowrap">
+                              {s.header}
+                            </button>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-50 dark:border-slate-800/50 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-[11px] font-bold text-rose-500">{importError}</div>
+          <div className="flex gap-2">
+            <button onClick={resetTab} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase text-rose-500 bg-rose-50 dark:bg-rose-900/20 hover:bg-rose-100 transition-colors">Reset Tab</button>
+            <button onClick={() => fileInputRef.current?.click()} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase bg-slate-100 dark:bg-slate-800 hover:scale-105 transition-all">Import JSON</button>
+            <button onClick={handleExport} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase bg-primary-600 text-white shadow-lg active:scale-95">Export JSON</button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ColumnSchema } from '../types';
+import {
+  applyGridLayout, applyGridQuery, distinctValues, EMPTY_GRID_QUERY, GridLayout, GridQuery,
+  isGridQueryActive, loadGridLayouts, saveGridLayouts, TabGridLayouts
+} from '../utils/dataGrid';
+import { getStatusStyles } from '../utils/statusStyles';
+
+interface UseDataGridOptions {
+  storageKey: string;
+  headers: string[];
+  rows: Record<string, any>[];
+  schema?: Record<string, ColumnSchema>;
+}
+
+/**
+ * Query and layout state for one grid. Lives in the caller so the visible
+ * columns and rows can also feed exports.
+ */
+export function useDataGrid({ storageKey, headers, rows, schema }: UseDataGridOptions) {
+  const [query, setQuery] = useState<GridQuery>(EMPTY_GRID_QUERY);
+  const [layouts, setLayouts] = useState<TabGridLayouts>(() => loadGridLayouts(storageKey));
+
+  useEffect(() => {
+    setQuery(EMPTY_GRID_QUERY);
+    setLayouts(loadGridLayouts(storageKey));
+  }, [storageKey]);
+
+  const updateLayouts = useCallback((next: TabGridLayouts) => {
+    setLayouts(next);
+    saveGridLayouts(storageKey, next);
+  }, [storageKey]);
+
+  // Every column in display order, hidden ones included, for the column picker
+  const orderedHeaders = useMemo(() => applyGridLayout(headers, layouts.current && { ...layouts.current, hidden: [] }), [headers, layouts]);
+  const columns = useMemo(() => applyGridLayout(headers, layouts.current), [headers, layouts]);
+  const visibleRows = useMemo(() => applyGridQuery(rows, columns, query, schema), [rows, columns, query, schema]);
+
+  return { storageKey, query, setQuery, layouts, updateLayouts, headers, orderedHeaders, columns, rows, visibleRows, schema };
+}
+
+export type DataGridState = ReturnType<typeof useDataGrid>;
+
+// Smaller tables render in full; windowing only pays off once the DOM gets heavy
+const VIRTUALIZE_AFTER = 150;
+
+/**
+ * Windowed rendering for a table inside a scroll container. Only the rows in
+ * view (plus `overscan`) are mounted; spacer rows keep the scroll height, so
+ * sticky headers and sticky first columns behave as in a full table.
+ * Row height starts as an estimate and is corrected from the first rendered row.
+ */
+export function useVirtualRows(count: number, estimatedRowHeight: number, overscan = 10) {
+  // A callback ref, so listeners follow the container when it mounts later or remounts
+  const [container, containerRef] = useState<HTMLDivElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+
+  useEffect(() => {
+    const el = container;
+    if (!el) return;
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => setScrollTop(el.scrollTop));
+    };
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    el.addEventListener('scroll', handleScroll, { passive: true });
+    observer.observe(el);
+    setScrollTop(el.scrollTop);
+    setViewportHeight(el.clientHeight);
+    return () => {
+      cancelAnimationFrame(frame);
+      el.removeEventListener('scroll', handleScroll);
+      observer.disconnect();
+    };
+  }, [container]);
+
+  const measureRow = useCallback((el: HTMLTableRowElement | null) => {
+    if (el && el.offsetHeight > 0 && Math.abs(el.offsetHeight - rowHeight) > 1) setRowHeight(el.offsetHeight);
+  }, [rowHeight]);
+
+  if (count <= VIRTUALIZE_AFTER) {
+    return { containerRef, measureRow, start: 0, end: count, padTop: 0, padBottom: 0 };
+  }
+  const start = Math.min(Math.max(0, Math.floor(scrollTop / rowHeight) - overscan), Math.max(0, count - 1));
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return { containerRef, measureRow, start, end, padTop: start * rowHeight, padBottom: (count - end) * rowHeight };
+}
+
+export function SpacerRow({ height, colSpan }: { height: number; colSpan: number }) {
+  if (height <= 0) return null;
+  return <tr aria-hidden="true"><td colSpan={colSpan} style={{ height, padding: 0, border: 0 }} /></tr>;
+}
+
+interface DataGridProps {
+  grid: DataGridState;
+  // Columns rendered as status pills
+  statusColumns?: string[];
+  // Columns filtered by picking values rather than typing, in addition to enum-typed ones
+  multiSelectColumns?: string[];
+  loading?: boolean;
+}
+
+function ValueFilter({ values, selected, onChange }: { values: string[]; selected: string[]; onChange: (values: string[]) => void }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const toggle = (value: string) => onChange(selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value]);
+
+  return (
+    <div ref={ref} className="relative">
+      <button onClick={() => setIsOpen(o => !o)} className={`w-full text-left px-2.5 py-1.5 rounded-lg text-[10px] font-bold normal-case tracking-normal border transition-all truncate ${selected.length ? 'border-primary-500/40 text-primary-600 bg-primary-50 dark:bg-primary-900/20' : 'border-transparent bg-white dark:bg-slate-800 text-slate-400'}`}>
+        {selected.length === 0 ? 'All' : selected.length === 1 ? selected[0] : `${selected.length} selected`}
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-1 z-[60] min-w-[180px] max-h-64 overflow-y-auto custom-scrollbar bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl shadow-2xl p-1.5 normal-case tracking-normal">
+          {values.map(v => (
+            <label key={v} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800 cursor-pointer">
+              <input type="checkbox" checked={selected.includes(v)} onChange={() => toggle(v)} className="accent-primary-600" />
+              <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200 whitespace-nowrap">{v}</span>
+            </label>
+          ))}
+          {selected.length > 0 && (
+            <button onClick={() => onChange([])} className="w-full mt-1 px-2 py-1.5 rounded-lg text-[10px] font-black uppercase text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20">Clear</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ColumnPicker({ grid }: { grid: DataGridState }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [layoutName, setLayoutName] = useState('');
+  const ref = useRef<HTMLDivElement>(null);
+  const { layouts, updateLayouts, orderedHeaders } = grid;
+  const hidden = layouts.current?.hidden || [];
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const setCurrent = (current: GridLayout | undefined) => updateLayouts({ ...layouts, current });
+
+  const toggleHidden = (h: string) => setCurrent({
+    order: orderedHeaders,
+    hidden: hidden.includes(h) ? hidden.filter(x => x !== h) : [...hidden, h],
+  });
+
+  const move = (index: number, delta: number) => {
+    const order = [...orderedHeaders];
+    const target = index + delta;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    setCurrent({ order, hidden });
+  };
+
+  const saveAs = () => {
+    const name = layoutName.trim();
+    if (!name) return;
+    updateLayouts({ ...layouts, saved: { ...layouts.saved, [name]: { order: orderedHeaders, hidden } } });
+    setLayoutName('');
+  };
+
+  const removeSaved = (name: string) => {
+    const saved = { ...layouts.saved };
+    delete saved[name];
+    updateLayouts({ ...layouts, saved });
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button onClick={() => setIsOpen(o => !o)} className="px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase tracking-wider text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 transition-all whitespace-nowrap">
+        Columns{hidden.length > 0 && ` (${orderedHeaders.length - hidden.length}/${orderedHeaders.length})`}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-[60] w-72 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl p-3 animate-in fade-in zoom-in-95 duration-150">
+          <div className="max-h-64 overflow-y-auto custom-scrollbar space-y-0.5 pr-1">
+            {orderedHeaders.map((h, i) => (
+              <div key={h} className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800">
+                <input type="checkbox" checked={!hidden.includes(h)} onChange={() => toggleHidden(h)} className="accent-primary-600 cursor-pointer" />
+                <span className={`flex-1 text-[11px] font-bold truncate ${hidden.includes(h) ? 'text-slate-400' : 'text-slate-700 dark:text-slate-200'}`}>{h}</span>
+                <button onClick={() => move(i, -1)} disabled={i === 0} className="px-1 text-slate-400 hover:text-primary-600 disabled:opacity-20" title="Move left">↑</button>
+                <button onClick={() => move(i, 1)} disabled={i === orderedHeaders.length - 1} className="px-1 text-slate-400 hover:text-primary-600 disabled:opacity-20" title="Move right">↓</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="border-t border-slate-100 dark:border-slate-800 mt-3 pt-3 space-y-2">
+            <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider">Saved Layouts</p>
+            {Object.keys(layouts.saved).map(name => (
+              <div key={name} className="flex items-center gap-2">
+                <button onClick={() => setCurrent(layouts.saved[name])} className="flex-1 text-left px-2 py-1 rounded-lg text-[11px] font-bold text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/20 truncate">{name}</button>
+                <button onClick={() => removeSaved(name)} className="px-1 text-[10px] text-slate-400 hover:text-rose-500" title="Delete layout">✕</button>
+              </div>
+            ))}
+            <div className="flex gap-1.5">
+              <input value={layoutName} onChange={e => setLayoutName(e.target.value)} onKeyDown={e => e.key === 'Enter' && saveAs()} placeholder="Layout name" className="flex-1 min-w-0 bg-slate-50 dark:bg-slate-800 px-2.5 py-1.5 rounded-lg text-[11px] font-bold border border-transparent focus:border-primary-500/30" />
+              <button onClick={saveAs} disabled={!layoutName.trim()} className="px-2.5 py-1.5 rounded-lg text-[10px] font-black uppercase bg-primary-600 text-white disabled:opacity-40">Save</button>
+            </div>
+            <button onClick={() => setCurrent(undefined)} className="w-full px-2 py-1.5 rounded-lg text-[10px] font-black uppercase text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20">Reset to sheet order</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function DataGrid({ grid, statusColumns = [], multiSelectColumns = [], loading }: DataGridProps) {
+  const { query, setQuery, columns, rows, visibleRows, schema } = grid;
+  const { containerRef, measureRow, start, end, padTop, padBottom } = useVirtualRows(visibleRows.length, 61);
+
+  const valueOptions = useMemo(() => {
+    const options: Record<string, string[]> = {};
+    columns.forEach(h => {
+      if (multiSelectColumns.includes(h) || schema?.[h]?.type === 'enum') options[h] = distinctValues(rows, h);
+    });
+    return options;
+  }, [columns, rows, schema, multiSelectColumns]);
+
+  const toggleSort = (column: string) => {
+    const current = query.sort?.column === column ? query.sort.direction : null;
+    // asc -> desc -> unsorted
+    const sort = current === null ? { column, direction: 'asc' as const } : current === 'asc' ? { column, direction: 'desc' as const } : null;
+    setQuery({ ...query, sort });
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <input value={query.search} onChange={e => setQuery({ ...query, search: e.target.value })} placeholder="Search all columns…" className="w-full bg-slate-50 dark:bg-slate-800 pl-9 pr-3 py-2.5 rounded-xl text-xs font-bold border border-transparent focus:border-primary-500/30 transition-all" />
+          <svg className="w-3.5 h-3.5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M21 21l-4.35-4.35M11 19a8 8 0 100-16 8 8 0 000 16z" /></svg>
+        </div>
+        <span className="text-[10px] font-black uppercase tracking-wider text-slate-400 whitespace-nowrap">
+          {visibleRows.length === rows.length ? `${rows.length} rows` : `${visibleRows.length} of ${rows.length} rows`}
+        </span>
+        {isGridQueryActive(query) && (
+          <button onClick={() => setQuery({ ...EMPTY_GRID_QUERY, sort: query.sort })} className="text-[10px] font-black uppercase text-rose-500 hover:underline">Clear</button>
+        )}
+        <ColumnPicker grid={grid} />
+      </div>
+
+      {/* The minimum height leaves room for the filter dropdowns when only a few rows match */}
+      <div ref={containerRef} className="max-h-[600px] min-h-[360px] overflow-auto custom-scrollbar border border-slate-100 dark:border-slate-800 rounded-2xl shadow-inner bg-white dark:bg-slate-900 relative">
+        <table className="w-full text-left min-w-[1000px] border-separate border-spacing-0">
+          <thead className="bg-slate-50 dark:bg-slate-900 shadow-sm">
+            <tr className="text-[10px] font-black uppercase text-slate-400 tracking-wider">
+              {columns.map((h, col) => {
+                const direction = query.sort?.column === h ? query.sort.direction : null;
+                return (
+                  <th key={h} className={`px-6 pt-4 pb-2 whitespace-nowrap bg-slate-50 dark:bg-slate-900 sticky top-0 align-top ${col === 0 ? 'left-0 z-50' : 'z-40'}`}>
+                    <button onClick={() => toggleSort(h)} className={`uppercase tracking-wider flex items-center gap-1 hover:text-primary-600 transition-colors ${direction ? 'text-primary-600' : ''}`}>
+                      {h}<span className="text-[9px] w-2">{direction === 'asc' ? '▲' : direction === 'desc' ? '▼' : ''}</span>
+                    </button>
+                    <div className="mt-2 min-w-[100px]">
+                      {valueOptions[h] ? (
+                        <ValueFilter values={valueOptions[h]} selected={query.valueFilters[h] || []} onChange={values => setQuery({ ...query, valueFilters: { ...query.valueFilters, [h]: values } })} />
+                      ) : (
+                        <input value={query.textFilters[h] || ''} onChange={e => setQuery({ ...query, textFilters: { ...query.textFilters, [h]: e.target.value } })} placeholder="Filter" className="w-full px-2.5 py-1.5 rounded-lg text-[10px] font-bold normal-case tracking-normal bg-white dark:bg-slate-800 border border-transparent focus:border-primary-500/30 transition-all" />
+                      )}
+                    </div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100 dark:divide-slate-800">
+            <SpacerRow height={padTop} colSpan={columns.length || 1} />
+            {visibleRows.slice(start, end).map((row, i) => (
+              <tr key={start + i} ref={i === 0 ? measureRow : undefined} className="hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors">
+                {columns.map((h, col) => {
+                  const val = row[h];
+                  // The first column stays in view while scrolling sideways, as in the Execution Matrix
+                  const sticky = col === 0 ? 'sticky left-0 z-30 bg-white dark:bg-slate-900 border-r border-slate-50 dark:border-slate-800' : '';
+                  if (statusColumns.includes(h) && val) {
+                    return <td key={h} className={`px-6 py-5 min-w-[120px] whitespace-nowrap ${sticky}`}><span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${getStatusStyles(val)}`}>{val}</span></td>;
+                  }
+                  return <td key={h} className={`px-6 py-5 text-[12px] font-bold text-slate-600 dark:text-slate-300 leading-relaxed min-w-[120px] whitespace-nowrap ${sticky}`}>{val === '' || val === undefined || val === null ? '-' : val}</td>;
+                })}
+              </tr>
+            ))}
+            <SpacerRow height={padBottom} colSpan={columns.length || 1} />
+            {visibleRows.length === 0 && !loading && (
+              <tr><td colSpan={columns.length || 1} className="px-6 py-12 text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic">No records match the current filters</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { DataSourceConfig, DataSourceProfile, TabRole, TabSource } from '../types';
+import { TAB_ROLES, parseDataSourceConfig } from '../services/dataSources';
+import { downloadFile } from '../utils/download';
+
+interface DataSourceSettingsProps {
+  config: DataSourceConfig;
+  activeProfileId: string;
+  isLocal: boolean;
+  onSave: (config: DataSourceConfig, profileId: string) => void;
+  onResetToDeployed: () => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-50 dark:bg-slate-800 px-3 py-2 rounded-xl text-[11px] font-bold border border-transparent focus:border-primary-500/30 transition-all';
+const labelClass = 'text-[9px] font-black uppercase text-slate-400 tracking-wider ml-1';
+
+export default function DataSourceSettings({ config, activeProfileId, isLocal, onSave, onResetToDeployed, onClose }: DataSourceSettingsProps) {
+  const [draft, setDraft] = useState<DataSourceConfig>(() => JSON.parse(JSON.stringify(config)));
+  const [profileId, setProfileId] = useState(activeProfileId);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile = draft.profiles.find(p => p.id === profileId) || draft.profiles[0];
+
+  const updateProfile = (patch: Partial<DataSourceProfile>) => {
+    setDraft(d => ({ ...d, profiles: d.profiles.map(p => p.id === profile.id ? { ...p, ...patch } : p) }));
+  };
+
+  const updateTab = (index: number, patch: Partial<TabSource>) => {
+    updateProfile({ tabs: profile.tabs.map((t, i) => i === index ? { ...t, ...patch } : t) });
+  };
+
+  const addTab = () => {
+    const n = profile.tabs.length + 1;
+    updateProfile({ tabs: [...profile.tabs, { id: `tab_${n}`, label: `Tab ${n}`, icon: '📄', role: 'custom' }] });
+  };
+
+  const removeTab = (index: number) => {
+    updateProfile({ tabs: profile.tabs.filter((_, i) => i !== index) });
+  };
+
+  const addProfile = () => {
+    const id = `team_${draft.profiles.length + 1}`;
+    setDraft(d => ({ ...d, profiles: [...d.profiles, { id, name: `Team ${d.profiles.length + 1}`, title: 'RC Build Reports', tabs: [] }] }));
+    setProfileId(id);
+  };
+
+  const handleSave = () => {
+    try {
+      const parsed = parseDataSourceConfig(draft);
+      onSave(parsed, profile.id);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const handleExport = () => downloadFile(JSON.stringify(draft, null, 2), 'application/json', 'data-sources.json');
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-50 dark:border-slate-800/50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <h3 className="text-[12px] font-black uppercase tracking-widest text-slate-400">Data Sources</h3>
+            {isLocal && <span className="px-2.5 py-0.5 rounded-lg text-[9px] font-black uppercase tracking-wider bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">Local override</span>}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-all">
+            <svg className="w-4 h-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-8 overflow-auto custom-scrollbar flex-1 space-y-6">
+          <div>
+            <label className={labelClass}>Sheet Proxy URL (read all profiles through the server, e.g. /api)</label>
+            <input value={draft.proxy || ''} onChange={e => setDraft(d => ({ ...d, proxy: e.target.value || undefined }))} placeholder="Fetch sheets directly from Google" className={`${inputClass} mt-1`} />
+          </div>
+
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className={labelClass}>Profile</label>
+              <select value={profile.id} onChange={e => setProfileId(e.target.value)} className={`${inputClass} mt-1 cursor-pointer`}>
+                {draft.profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <button onClick={addProfile} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase bg-slate-100 dark:bg-slate-800 hover:scale-105 transition-all">Add Profile</button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div><label className={labelClass}>Name</label><input value={profile.name} onChange={e => updateProfile({ name: e.target.value })} className={`${inputClass} mt-1`} /></div>
+            <div><label className={labelClass}>Page Title</label><input value={profile.title} onChange={e => updateProfile({ title: e.target.value })} className={`${inputClass} mt-1`} /></div>
+            <div><label className={labelClass}>Published ID (2PACX-…)</label><input value={profile.publishedId || ''} onChange={e => updateProfile({ publishedId: e.target.value || undefined })} className={`${inputClass} mt-1`} /></div>
+            <div><label className={labelClass}>Sprint Start (any sprint)</label><input type="date" value={profile.sprint?.start || ''} onChange={e => updateProfile({ sprint: e.target.value ? { start: e.target.value, lengthDays: profile.sprint?.lengthDays || 14 } : undefined })} className={`${inputClass} mt-1`} /></div>
+            <div><label className={labelClass}>Sprint Length (days)</label><input type="number" min={1} value={profile.sprint?.lengthDays || ''} disabled={!profile.sprint} onChange={e => profile.sprint && updateProfile({ sprint: { ...profile.sprint, lengthDays: Math.max(1, Number(e.target.value) || 1) } })} className={`${inputClass} mt-1 disabled:opacity-40`} /></div>
+          </div>
+
+          <div className="space-y-3">
+            {profile.tabs.map((tab, i) => (
+              <div key={i} className="grid grid-cols-2 md:grid-cols-12 gap-3 items-end bg-slate-50/50 dark:bg-slate-800/30 p-4 rounded-2xl border border-slate-100 dark:border-slate-800">
+                <div className="md:col-span-1"><label className={labelClass}>Icon</label><input value={tab.icon} onChange={e => updateTab(i, { icon: e.target.value })} className={`${inputClass} mt-1 text-center`} /></div>
+                <div className="md:col-span-2"><label className={labelClass}>Id</label><input value={tab.id} onChange={e => updateTab(i, { id: e.target.value })} className={`${inputClass} mt-1`} /></div>
+                <div className="md:col-span-2"><label className={labelClass}>Label</label><input value={tab.label} onChange={e => updateTab(i, { label: e.target.value })} className={`${inputClass} mt-1`} /></div>
+                <div className="md:col-span-2">
+                  <label className={labelClass}>Role</label>
+                  <select value={tab.role} onChange={e => updateTab(i, { role: e.target.value as TabRole })} className={`${inputClass} mt-1 cursor-pointer`}>
+                    {TAB_ROLES.map(r => <option key={r} value={r}>{r}</option>)}
+                  </select>
+                </div>
+                <div className="md:col-span-2"><label className={labelClass}>Spreadsheet ID</label><input value={tab.spreadsheetId || ''} onChange={e => updateTab(i, { spreadsheetId: e.target.value || undefined })} className={`${inputClass} mt-1`} /></div>
+                <div className="md:col-span-1"><label className={labelClass}>GID</label><input value={tab.gid || ''} onChange={e => updateTab(i, { gid: e.target.value || undefined })} className={`${inputClass} mt-1`} /></div>
+                <div className="md:col-span-1 flex justify-end">
+                  <button onClick={() => removeTab(i)} className="p-2.5 rounded-xl text-rose-500 bg-rose-50 dark:bg-rose-900/20 hover:bg-rose-100 transition-colors" title="Remove tab">
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+                <div className="col-span-2 md:col-span-12"><label className={labelClass}>Direct CSV URL (overrides the fields above)</label><input value={tab.url || ''} onChange={e => updateTab(i, { url: e.target.value || undefined })} placeholder="https://…" className={`${inputClass} mt-1`} /></div>
+              </div>
+            ))}
+            <button onClick={addTab} className="w-full py-3 rounded-2xl border-2 border-dashed border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase text-slate-400 hover:text-primary-600 hover:border-primary-300 transition-colors">+ Add Tab</button>
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-50 dark:border-slate-800/50 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-[11px] font-bold text-rose-500">{error}</div>
+          <div className="flex gap-2">
+            {isLocal && <button onClick={onResetToDeployed} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase text-rose-500 bg-rose-50 dark:bg-rose-900/20 hover:bg-rose-100 transition-colors">Use Deployed Config</button>}
+            <button onClick={handleExport} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase bg-slate-100 dark:bg-slate-800 hover:scale-105 transition-all">Export JSON</button>
+            <button onClick={handleSave} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase bg-primary-600 text-white shadow-lg active:scale-95">Save & Sync</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportableTable, exportTable, TableExportFormat } from '../utils/tableExport';
+
+const OPTIONS: { format: TableExportFormat; label: string; hint: string }[] = [
+  { format: 'csv', label: 'CSV', hint: 'Download' },
+  { format: 'xlsx', label: 'Excel (XLSX)', hint: 'Download' },
+  { format: 'markdown', label: 'Markdown', hint: 'Copy to clipboard' },
+];
+
+export default function ExportMenu({ table }: { table: ExportableTable }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleExport = async (format: TableExportFormat) => {
+    setIsOpen(false);
+    try {
+      await exportTable(table, format);
+      if (format === 'markdown') setNotice('Copied');
+    } catch {
+      setNotice('Export failed');
+    }
+    setTimeout(() => setNotice(null), 2000);
+  };
+
+  return (
+    <div ref={menuRef} className="relative no-print">
+      <button onClick={() => setIsOpen(o => !o)} disabled={table.rows.length === 0} title={`Export ${table.rows.length} rows`} className="px-3 py-1.5 rounded-xl bg-slate-100 dark:bg-slate-800 text-[10px] font-black uppercase tracking-wider text-slate-500 hover:text-slate-800 dark:hover:text-slate-200 transition-all whitespace-nowrap disabled:opacity-40">
+        {notice || 'Export ▾'}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-[60] w-48 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl p-1.5 animate-in fade-in zoom-in-95 duration-150">
+          {OPTIONS.map(o => (
+            <button key={o.format} onClick={() => handleExport(o.format)} className="w-full flex items-center justify-between gap-2 px-3 py-2 rounded-xl text-left hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
+              <span className="text-[11px] font-black text-slate-700 dark:text-slate-200">{o.label}</span>
+              <span className="text-[9px] font-bold text-slate-400 uppercase tracking-wide">{o.hint}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface FileDropOverlayProps {
+  targetLabel: string;
+  onFiles: (files: File[]) => void;
+}
+
+/**
+ * Full-window drop target that appears while files are dragged over the page
+ */
+export default function FileDropOverlay({ targetLabel, onFiles }: FileDropOverlayProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element; count them to know when the drag really left
+  const depth = useRef(0);
+
+  useEffect(() => {
+    const hasFiles = (e: DragEvent) => Array.from(e.dataTransfer?.types || []).includes('Files');
+
+    const handleEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth.current++;
+      setIsDragging(true);
+    };
+    const handleOver = (e: DragEvent) => {
+      if (hasFiles(e)) e.preventDefault();
+    };
+    const handleLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth.current = Math.max(0, depth.current - 1);
+      if (depth.current === 0) setIsDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depth.current = 0;
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer?.files || []);
+      if (files.length > 0) onFiles(files);
+    };
+
+    window.addEventListener('dragenter', handleEnter);
+    window.addEventListener('dragover', handleOver);
+    window.addEventListener('dragleave', handleLeave);
+    window.addEventListener('drop', handleDrop);
+    return () => {
+      window.removeEventListener('dragenter', handleEnter);
+      window.removeEventListener('dragover', handleOver);
+      window.removeEventListener('dragleave', handleLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  }, [onFiles]);
+
+  if (!isDragging) return null;
+
+  return (
+    <div className="fixed inset-0 z-[160] flex items-center justify-center p-8 bg-primary-600/10 backdrop-blur-sm pointer-events-none animate-in fade-in duration-150">
+      <div className="w-full max-w-xl border-4 border-dashed border-primary-500 rounded-[2.5rem] bg-white/90 dark:bg-slate-900/90 p-12 text-center shadow-2xl">
+        <div className="text-5xl mb-4">📂</div>
+        <p className="text-base font-black text-slate-900 dark:text-white uppercase tracking-tight">Drop to load locally</p>
+        <p className="text-xs font-bold text-slate-400 mt-2">CSV or TSV loads into <span className="text-primary-600">{targetLabel}</span>; XLSX workbooks fill one tab per sheet.</p>
+      </div>
+    </div>
+  );
+}
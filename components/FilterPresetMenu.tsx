@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RELATIVE_DATE_RANGES } from '../utils/dateRanges';
+import { downloadFile } from '../utils/download';
+import { FilterSpec, isFilterActive } from '../utils/filterEngine';
+import { FilterPreset, parseFilterPresetsFile, serializeFilterPresets, upsertFilterPreset } from '../utils/filterPresets';
+
+interface FilterPresetMenuProps {
+  presets: FilterPreset[];
+  currentSpec: FilterSpec;
+  onApply: (preset: FilterPreset) => void;
+  onChange: (presets: FilterPreset[]) => void;
+}
+
+// One-line summary of what a preset restores, shown under its name
+const describeSpec = (spec: FilterSpec) => {
+  const parts = [
+    spec.platforms.join(' + '),
+    spec.builds.length > 2 ? `${spec.builds.length} builds` : spec.builds.join(', '),
+    spec.buildTypes.join(', '),
+    spec.dateRange ? RELATIVE_DATE_RANGES[spec.dateRange] : spec.startDate || spec.endDate ? `${spec.startDate || '…'} ~ ${spec.endDate || '…'}` : '',
+  ].filter(Boolean);
+  return parts.length ? parts.join(' · ') : 'No filters';
+};
+
+export default function FilterPresetMenu({ presets, currentSpec, onApply, onChange }: FilterPresetMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onChange(upsertFilterPreset(presets, { name: trimmed, spec: currentSpec }));
+    setName('');
+  };
+
+  const handleApply = (preset: FilterPreset) => {
+    onApply(preset);
+    setIsOpen(false);
+  };
+
+  const handleExport = () => downloadFile(serializeFilterPresets(presets), 'application/json', 'filter-presets.json');
+
+  // Imported presets are merged in; one with an existing name replaces it
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parseFilterPresetsFile(await file.text()).reduce(upsertFilterPreset, presets));
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button onClick={() => setIsOpen(o => !o)} className={`text-[10px] font-black uppercase transition-all flex items-center gap-1.5 ${isOpen ? 'text-primary-600' : 'text-slate-400 hover:text-primary-600'}`}>
+        <span className={`p-1.5 rounded-full transition-colors ${isOpen ? 'bg-primary-100 dark:bg-primary-900/30' : 'bg-slate-100 dark:bg-slate-800'}`}>★</span>
+        Presets{presets.length > 0 && ` (${presets.length})`}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-[60] w-80 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl p-2 animate-in fade-in zoom-in-95 duration-150">
+          <div className="max-h-72 overflow-y-auto custom-scrollbar">
+            {presets.length === 0 && (
+              <p className="px-3 py-4 text-center text-[10px] font-bold uppercase tracking-widest text-slate-400 italic">No saved presets</p>
+            )}
+            {presets.map(p => (
+              <div key={p.name} className="group flex items-center gap-2 rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors">
+                <button onClick={() => handleApply(p)} className="flex-1 min-w-0 px-3 py-2 text-left">
+                  <span className="block text-[11px] font-black text-slate-700 dark:text-slate-200 truncate">{p.name}</span>
+                  <span className="block text-[9px] font-bold text-slate-400 truncate">{describeSpec(p.spec)}</span>
+                </button>
+                <button onClick={() => onChange(presets.filter(x => x.name !== p.name))} title="Delete preset" className="px-2 text-slate-300 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-all">✕</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-2 pt-2 border-t border-slate-100 dark:border-slate-800 flex gap-2">
+            <input value={name} onChange={e => setName(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSave()} placeholder="Save current filters as…" className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-[11px] font-bold outline-none border border-transparent focus:border-primary-500/30" />
+            <button onClick={handleSave} disabled={!name.trim() || !isFilterActive(currentSpec)} className="px-3 py-2 rounded-xl bg-primary-600 text-white text-[10px] font-black uppercase tracking-wider disabled:opacity-40">Save</button>
+          </div>
+
+          <div className="mt-2 flex items-center justify-between px-1">
+            <button onClick={() => fileInputRef.current?.click()} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-primary-600">Import JSON</button>
+            <button onClick={handleExport} disabled={presets.length === 0} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-primary-600 disabled:opacity-40">Export JSON</button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+          </div>
+          {error && <p className="mt-2 px-1 text-[10px] font-bold text-rose-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import React from 'react';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { IssueAnalytics as IssueAnalyticsData, IssueBreakdown } from '../utils/issueAnalytics';
+import { EXECUTION_COLORS } from '../utils/statusStyles';
+import CustomTooltip from './ChartTooltip';
+
+interface IssueAnalyticsProps {
+  analytics: IssueAnalyticsData;
+  isDark: boolean;
+}
+
+const Panel = ({ title, hint, children, className = '' }: { title: string; hint?: string; children: React.ReactNode; className?: string }) => (
+  <div className={`bg-slate-50/50 dark:bg-slate-800/30 rounded-3xl border border-slate-100 dark:border-slate-800 p-6 ${className}`}>
+    <div className="flex items-baseline justify-between gap-4 mb-4">
+      <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">{title}</h4>
+      {hint && <span className="text-[9px] font-bold text-slate-400 text-right">{hint}</span>}
+    </div>
+    {children}
+  </div>
+);
+
+const Empty = ({ children }: { children: React.ReactNode }) => (
+  <p className="py-10 text-center text-slate-400 font-bold text-[10px] uppercase tracking-widest italic">{children}</p>
+);
+
+const Stat = ({ label, value, sub }: { label: string; value: string | number; sub?: string }) => (
+  <div className="bg-slate-50/50 dark:bg-slate-800/30 rounded-2xl border border-slate-100 dark:border-slate-800 px-5 py-4">
+    <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider mb-1">{label}</p>
+    <p className="text-xl font-black text-slate-900 dark:text-white">{value}</p>
+    {sub && <p className="text-[9px] font-bold text-slate-400 mt-0.5">{sub}</p>}
+  </div>
+);
+
+function BreakdownTable({ rows }: { rows: IssueBreakdown[] }) {
+  const max = Math.max(1, ...rows.map(r => r.open + r.closed));
+  return (
+    <div className="space-y-2">
+      {rows.map(r => (
+        <div key={r.name} className="grid grid-cols-[minmax(0,9rem)_1fr_auto] items-center gap-3">
+          <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200 truncate" title={r.name}>{r.name}</span>
+          <div className="flex h-2.5 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-800">
+            <div style={{ width: `${(r.open / max) * 100}%`, backgroundColor: EXECUTION_COLORS.fail }} />
+            <div style={{ width: `${(r.closed / max) * 100}%`, backgroundColor: EXECUTION_COLORS.pass }} />
+          </div>
+          <span className="text-[10px] font-black text-slate-500 whitespace-nowrap">{r.open} open · {r.closed} closed</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function IssueAnalytics({ analytics, isDark }: IssueAnalyticsProps) {
+  const { escapes } = analytics;
+  const gridStroke = isDark ? '#1e293b' : '#f1f5f9';
+  const axisTick = { fontSize: 10, fontWeight: 800 };
+
+  if (analytics.total === 0) return <Empty>No issues match the current filters</Empty>;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <Stat label="Issues" value={analytics.total} />
+        <Stat label="Open" value={analytics.open} />
+        <Stat label="Closed" value={analytics.closed} />
+        <Stat label="Median time to close" value={analytics.medianResolutionDays === null ? '—' : `${analytics.medianResolutionDays}d`} sub={analytics.hasClosedDates ? undefined : 'Needs a closed date column'} />
+        <Stat label="Defect escape rate" value={escapes?.rate == null ? '—' : `${escapes.rate.toFixed(1)}%`} sub={escapes ? `${escapes.escaped} of ${escapes.total} on released builds` : 'Needs store release and dates'} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Panel title="Open vs. Closed Over Time" hint={analytics.hasClosedDates ? undefined : 'No closed date column: showing reported issues only'} className="lg:col-span-2">
+          {analytics.burnDown.length === 0 ? <Empty>Needs a reported date column</Empty> : (
+            <div className="h-[280px]"><ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={analytics.burnDown} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridStroke} />
+                <XAxis dataKey="date" tick={axisTick} axisLine={false} tickLine={false} minTickGap={24} />
+                <YAxis tick={axisTick} axisLine={false} tickLine={false} allowDecimals={false} />
+                <Tooltip content={<CustomTooltip />} />
+                <Legend verticalAlign="top" align="right" wrapperStyle={{ fontSize: '11px', fontWeight: 'bold' }} />
+                {analytics.hasClosedDates ? (
+                  <>
+                    <Area type="monotone" dataKey="Closed" stackId="issues" stroke={EXECUTION_COLORS.pass} fill={EXECUTION_COLORS.pass} fillOpacity={0.25} isAnimationActive={false} />
+                    <Area type="monotone" dataKey="Open" stackId="issues" stroke={EXECUTION_COLORS.fail} fill={EXECUTION_COLORS.fail} fillOpacity={0.35} isAnimationActive={false} />
+                  </>
+                ) : (
+                  <Area type="monotone" dataKey="Reported" stroke={EXECUTION_COLORS.minor} fill={EXECUTION_COLORS.minor} fillOpacity={0.25} isAnimationActive={false} />
+                )}
+              </AreaChart>
+            </ResponsiveContainer></div>
+          )}
+        </Panel>
+
+        <Panel title="Open Issue Age">
+          {analytics.open === 0 ? <Empty>No open issues</Empty> : (
+            <div className="h-[280px]"><ResponsiveContainer width="100%" height="100%">
+              <BarChart data={analytics.ageBuckets} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={gridStroke} />
+                <XAxis dataKey="name" tick={{ fontSize: 9, fontWeight: 800 }} axisLine={false} tickLine={false} interval={0} />
+                <YAxis tick={axisTick} axisLine={false} tickLine={false} allowDecimals={false} />
+                <Tooltip content={<CustomTooltip />} cursor={{ fill: isDark ? '#1e293b' : '#f8fafc' }} />
+                <Bar name="Open issues" dataKey="count" fill={EXECUTION_COLORS.major} radius={[6, 6, 0, 0]} barSize={24} />
+              </BarChart>
+            </ResponsiveContainer></div>
+          )}
+        </Panel>
+      </div>
+
+      {(analytics.byModule || analytics.byAssignee) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {analytics.byModule && <Panel title="By Module"><BreakdownTable rows={analytics.byModule} /></Panel>}
+          {analytics.byAssignee && <Panel title="By Assignee"><BreakdownTable rows={analytics.byAssignee} /></Panel>}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Panel title="Top Recurring Issues" hint="Same title across builds">
+          {analytics.recurring.length === 0 ? <Empty>No issue title repeats across builds</Empty> : (
+            <table className="w-full text-left">
+              <tbody>
+                {analytics.recurring.map(r => (
+                  <tr key={r.title} className="border-t border-slate-100 dark:border-slate-800 first:border-t-0">
+                    <td className="py-2 pr-3 text-[11px] font-bold text-slate-700 dark:text-slate-200">{r.title}</td>
+                    <td className="py-2 pr-3 text-[10px] font-bold text-slate-400">{r.builds.join(', ')}</td>
+                    <td className="py-2 text-right text-[11px] font-black text-slate-900 dark:text-white whitespace-nowrap">{r.builds.length} builds</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </Panel>
+
+        <Panel title="Escaped Defects" hint="Reported after the build's store release">
+          {!escapes ? <Empty>Needs released-to-store and date columns</Empty> : escapes.issues.length === 0 ? <Empty>No issues reported after release</Empty> : (
+            <div className="max-h-72 overflow-y-auto custom-scrollbar">
+              <table className="w-full text-left">
+                <tbody>
+                  {escapes.issues.map((e, i) => (
+                    <tr key={i} className="border-t border-slate-100 dark:border-slate-800 first:border-t-0">
+                      <td className="py-2 pr-3 text-[11px] font-bold text-slate-700 dark:text-slate-200">{e.title || 'Untitled issue'}</td>
+                      <td className="py-2 pr-3 text-[10px] font-black text-slate-500 whitespace-nowrap">#{e.build}</td>
+                      <td className="py-2 text-right text-[10px] font-bold text-slate-400 whitespace-nowrap">{e.reported} · released {e.released}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Panel>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+interface MultiSelectProps {
+  values: string[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+  allLabel?: string;
+}
+
+// Long option lists (build versions) get a search box
+const SEARCH_AFTER = 8;
+
+/**
+ * Dropdown of checkboxes styled like the filter selects. Nothing selected
+ * means "all", matching how the filter engine reads an empty list.
+ */
+export default function MultiSelect({ values, selected, onChange, allLabel = 'All' }: MultiSelectProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) setSearch('');
+  }, [isOpen]);
+
+  // Keep the order of `values` so the selection reads the same way as the list;
+  // values no longer offered (e.g. from an old preset) stay selected at the end
+  const toggle = (value: string) => onChange(selected.includes(value)
+    ? selected.filter(v => v !== value)
+    : [...values.filter(v => v === value || selected.includes(v)), ...selected.filter(v => !values.includes(v))]);
+
+  const needle = search.trim().toLowerCase();
+  const visible = needle ? values.filter(v => v.toLowerCase().includes(needle)) : values;
+  const label = selected.length === 0 ? allLabel : selected.length <= 2 ? selected.join(', ') : `${selected.length} selected`;
+
+  return (
+    <div ref={ref} className="relative mt-1">
+      <button onClick={() => setIsOpen(o => !o)} title={selected.join(', ')} className={`w-full flex items-center justify-between gap-2 bg-slate-50 dark:bg-slate-800 p-3.5 rounded-2xl text-xs font-bold border transition-all text-left ${selected.length ? 'border-primary-500/30 text-primary-600 dark:text-primary-400' : 'border-transparent'}`}>
+        <span className="truncate">{label}</span>
+        <svg className={`w-3.5 h-3.5 shrink-0 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 9l-7 7-7-7" /></svg>
+      </button>
+      {isOpen && (
+        <div className="absolute left-0 right-0 top-full mt-2 z-[60] min-w-[200px] bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-2xl shadow-2xl p-1.5 animate-in fade-in zoom-in-95 duration-150">
+          {values.length > SEARCH_AFTER && (
+            <input autoFocus value={search} onChange={e => setSearch(e.target.value)} placeholder="Search…" className="w-full mb-1 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-[11px] font-bold outline-none border border-transparent focus:border-primary-500/30" />
+          )}
+          <div className="max-h-64 overflow-y-auto custom-scrollbar">
+            {visible.map(v => (
+              <label key={v} className="flex items-center gap-2 px-3 py-2 rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800 cursor-pointer">
+                <input type="checkbox" checked={selected.includes(v)} onChange={() => toggle(v)} className="accent-primary-600" />
+                <span className="text-[11px] font-bold text-slate-700 dark:text-slate-200 truncate">{v}</span>
+              </label>
+            ))}
+            {visible.length === 0 && <p className="px-3 py-2 text-[10px] font-bold text-slate-400 italic">No matches</p>}
+          </div>
+          {selected.length > 0 && (
+            <button onClick={() => onChange([])} className="w-full mt-1 px-3 py-2 rounded-xl text-[10px] font-black uppercase text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20">Clear ({selected.length})</button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { GateMetric, GateRule, GateVerdict } from '../types';
+import { buildRefLabel } from '../utils/buildComparison';
+import { BuildGateResult, DEFAULT_GATE_RULES, describeGateRule, formatGateValue, GATE_METRICS } from '../utils/qualityGates';
+import { getGateVerdictStyles, getStatusStyles } from '../utils/statusStyles';
+
+interface QualityGatePanelProps {
+  result: BuildGateResult | null;
+  rules: GateRule[];
+  onChange: (rules: GateRule[]) => void;
+  onClose: () => void;
+}
+
+const METRICS = Object.keys(GATE_METRICS) as GateMetric[];
+
+const TAB_LABELS = { summary: 'Summary', issues: 'Issues', validation: 'Ticket Validation' };
+
+export function GateBadge({ verdict, onClick }: { verdict: GateVerdict; onClick?: () => void }) {
+  return (
+    <button onClick={onClick} title="Show quality gate details" className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest transition-transform hover:scale-105 ${getGateVerdictStyles(verdict)}`}>
+      {verdict}
+    </button>
+  );
+}
+
+export default function QualityGatePanel({ result, rules, onChange, onClose }: QualityGatePanelProps) {
+  const [view, setView] = useState<'results' | 'rules'>(result ? 'results' : 'rules');
+
+  const updateRule = (id: string, patch: Partial<GateRule>) => onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const addRule = () => {
+    const metric: GateMetric = 'failedCount';
+    onChange([...rules, { id: `rule-${Date.now()}`, metric, operator: GATE_METRICS[metric].operator, threshold: 0, severity: 'warn', enabled: true }]);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-50 dark:border-slate-800/50 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <h3 className="text-[12px] font-black uppercase tracking-widest text-slate-400">Quality Gates</h3>
+            {result && <span className="text-xs font-black text-primary-600 dark:text-primary-400">#{buildRefLabel(result.ref)}</span>}
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-all">
+            <svg className="w-4 h-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="px-8 pt-6 flex gap-1">
+          {result && (
+            <button onClick={() => setView('results')} className={`px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-wider transition-all ${view === 'results' ? 'bg-primary-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-800'}`}>Results</button>
+          )}
+          <button onClick={() => setView('rules')} className={`px-5 py-2.5 rounded-2xl text-[10px] font-black uppercase tracking-wider transition-all ${view === 'rules' ? 'bg-primary-600 text-white shadow-md' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:text-slate-800'}`}>Rules</button>
+        </div>
+
+        <div className="p-8 overflow-auto custom-scrollbar flex-1">
+          {view === 'results' && result ? (
+            <div className="space-y-3">
+              <div className="flex items-center gap-3 mb-2">
+                <GateBadge verdict={result.verdict} />
+                <span className="text-[11px] font-bold text-slate-500">
+                  {result.results.filter(r => r.outcome === 'fail').length} of {result.results.length} rules failed
+                  {result.results.some(r => r.outcome === 'noData') && ` · ${result.results.filter(r => r.outcome === 'noData').length} without data`}
+                </span>
+              </div>
+              {result.results.length === 0 && (
+                <p className="text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic py-12">No rules enabled</p>
+              )}
+              {result.results.map(({ rule, actual, outcome, evidence }) => (
+                <div key={rule.id} className={`rounded-2xl border p-4 ${outcome === 'pass' ? 'border-slate-100 dark:border-slate-800' : outcome === 'noData' ? 'border-dashed border-slate-300 dark:border-slate-700' : rule.severity === 'block' ? 'border-rose-200 dark:border-rose-500/30 bg-rose-50/50 dark:bg-rose-500/5' : 'border-amber-200 dark:border-amber-500/30 bg-amber-50/50 dark:bg-amber-500/5'}`}>
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-sm ${outcome === 'pass' ? 'text-emerald-500' : outcome === 'noData' ? 'text-slate-400' : rule.severity === 'block' ? 'text-rose-500' : 'text-amber-500'}`}>{outcome === 'pass' ? '✓' : outcome === 'noData' ? '?' : '✕'}</span>
+                      <span className="text-xs font-black text-slate-900 dark:text-white">{describeGateRule(rule)}</span>
+                      <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{rule.severity}</span>
+                    </div>
+                    <span className={`text-xs font-black ${outcome === 'noData' ? 'text-slate-400 italic' : outcome === 'pass' ? 'text-emerald-600 dark:text-emerald-400' : 'text-rose-500'}`}>{formatGateValue(rule, actual)}</span>
+                  </div>
+                  {evidence.length > 0 && (
+                    <div className="mt-3 pl-6">
+                      <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider mb-1.5">{TAB_LABELS[evidence[0].tab]} rows</p>
+                      <ul className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar pr-1">
+                        {evidence.map((ev, i) => (
+                          <li key={i} className="flex items-center gap-2 text-[11px]">
+                            <span className="font-black text-slate-700 dark:text-slate-200 whitespace-nowrap">{ev.label}</span>
+                            {ev.detail && <span className="font-medium text-slate-500 truncate">{ev.detail}</span>}
+                            {ev.status && <span className={`ml-auto px-2 py-0.5 rounded-full text-[8px] font-black uppercase tracking-widest whitespace-nowrap ${getStatusStyles(ev.status)}`}>{ev.status}</span>}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map(rule => (
+                <div key={rule.id} className="flex flex-wrap items-center gap-2 rounded-2xl bg-slate-50 dark:bg-slate-800/50 p-3">
+                  <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} className="accent-primary-600 w-4 h-4 cursor-pointer" />
+                  <select value={rule.metric} onChange={e => { const metric = e.target.value as GateMetric; updateRule(rule.id, { metric, operator: GATE_METRICS[metric].operator }); }} className="flex-1 min-w-[180px] bg-white dark:bg-slate-800 px-3 py-2 rounded-xl text-[11px] font-bold border border-transparent focus:border-primary-500/30 transition-all cursor-pointer">
+                    {METRICS.map(m => <option key={m} value={m}>{GATE_METRICS[m].label}</option>)}
+                  </select>
+                  <select value={rule.operator} onChange={e => updateRule(rule.id, { operator: e.target.value as GateRule['operator'] })} className="bg-white dark:bg-slate-800 px-3 py-2 rounded-xl text-[11px] font-bold border border-transparent focus:border-primary-500/30 transition-all cursor-pointer">
+                    <option value=">=">≥</option>
+                    <option value="<=">≤</option>
+                  </select>
+                  <div className="flex items-center gap-1">
+                    <input type="number" value={rule.threshold} onChange={e => updateRule(rule.id, { threshold: Number(e.target.value) || 0 })} className="w-20 bg-white dark:bg-slate-800 px-3 py-2 rounded-xl text-[11px] font-bold border border-transparent focus:border-primary-500/30 transition-all" />
+                    <span className="text-[11px] font-black text-slate-400 w-3">{GATE_METRICS[rule.metric].unit}</span>
+                  </div>
+                  <select value={rule.severity} onChange={e => updateRule(rule.id, { severity: e.target.value as GateRule['severity'] })} className="bg-white dark:bg-slate-800 px-3 py-2 rounded-xl text-[11px] font-bold border border-transparent focus:border-primary-500/30 transition-all cursor-pointer">
+                    <option value="block">Blocks</option>
+                    <option value="warn">Warns</option>
+                  </select>
+                  <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-2 text-slate-400 hover:text-rose-500 transition-colors" title="Remove rule">
+                    <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </div>
+              ))}
+              {rules.length === 0 && (
+                <p className="text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic py-12">No rules defined</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        {view === 'rules' && (
+          <div className="px-8 py-5 border-t border-slate-50 dark:border-slate-800/50 flex justify-end gap-2">
+            <button onClick={() => onChange(DEFAULT_GATE_RULES)} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase text-rose-500 bg-rose-50 dark:bg-rose-900/20 hover:bg-rose-100 transition-colors">Restore Defaults</button>
+            <button onClick={addRule} className="px-4 py-2.5 rounded-xl text-[10px] font-black uppercase bg-primary-600 text-white shadow-lg active:scale-95">Add Rule</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
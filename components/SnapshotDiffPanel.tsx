@@ -0,0 +1,143 @@
+import React, { useEffect, useState } from 'react';
+import { DashboardData, TabColumnMappings, TabSource } from '../types';
+import { loadSnapshotData, SnapshotMeta } from '../services/snapshotStore';
+import { diffSnapshots, isTabDiffEmpty, TabDiff } from '../utils/snapshotDiff';
+import { formatTakenAt } from './TimeTravelBar';
+
+interface SnapshotDiffPanelProps {
+  snapshots: SnapshotMeta[];
+  tabs: TabSource[];
+  liveData: Record<string, DashboardData>;
+  mappings: TabColumnMappings;
+  initialFrom: string;
+  initialTo: string;
+  onClose: () => void;
+}
+
+export const LIVE_SNAPSHOT_ID = 'live';
+
+// Long lists are cut short; the full picture is one time-travel step away
+const MAX_LISTED = 100;
+
+function RowList({ title, rows, tone }: { title: string; rows: string[]; tone: string }) {
+  if (rows.length === 0) return null;
+  return (
+    <div>
+      <p className={`text-[9px] font-black uppercase tracking-wider mb-1.5 ${tone}`}>{title} ({rows.length})</p>
+      <ul className="space-y-1">
+        {rows.slice(0, MAX_LISTED).map(r => <li key={r} className="text-[11px] font-bold text-slate-600 dark:text-slate-300">{r}</li>)}
+        {rows.length > MAX_LISTED && <li className="text-[10px] font-bold text-slate-400 italic">…and {rows.length - MAX_LISTED} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+function TabDiffSection({ diff, label }: { diff: TabDiff; label: string }) {
+  return (
+    <div className="rounded-2xl border border-slate-100 dark:border-slate-800 p-5 space-y-4">
+      <div className="flex items-baseline justify-between gap-4">
+        <h4 className="text-xs font-black text-slate-900 dark:text-white">{label}</h4>
+        <span className="text-[10px] font-bold text-slate-400">
+          +{diff.added.length} · −{diff.removed.length} · {diff.changed.length} changed{diff.matchedBy === 'position' ? ' · matched by row position' : ''}
+        </span>
+      </div>
+      {(diff.addedColumns.length > 0 || diff.removedColumns.length > 0) && (
+        <p className="text-[10px] font-bold text-slate-500">
+          {diff.addedColumns.length > 0 && <>Columns added: <span className="text-emerald-600">{diff.addedColumns.join(', ')}</span>. </>}
+          {diff.removedColumns.length > 0 && <>Columns removed: <span className="text-rose-500">{diff.removedColumns.join(', ')}</span>.</>}
+        </p>
+      )}
+      <RowList title="Added rows" rows={diff.added} tone="text-emerald-600" />
+      <RowList title="Removed rows" rows={diff.removed} tone="text-rose-500" />
+      {diff.changed.length > 0 && (
+        <div>
+          <p className="text-[9px] font-black uppercase tracking-wider mb-1.5 text-amber-600">Changed rows ({diff.changed.length})</p>
+          <div className="space-y-2">
+            {diff.changed.slice(0, MAX_LISTED).map(row => (
+              <div key={row.key}>
+                <p className="text-[11px] font-black text-slate-700 dark:text-slate-200">{row.key}</p>
+                <ul className="pl-4">
+                  {row.cells.map(c => (
+                    <li key={c.column} className="text-[10px] font-bold text-slate-500">
+                      {c.column}: <span className="line-through text-rose-500/80">{c.before || '(empty)'}</span> → <span className="text-emerald-600 dark:text-emerald-400">{c.after || '(empty)'}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+            {diff.changed.length > MAX_LISTED && <p className="text-[10px] font-bold text-slate-400 italic">…and {diff.changed.length - MAX_LISTED} more</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SnapshotDiffPanel({ snapshots, tabs, liveData, mappings, initialFrom, initialTo, onClose }: SnapshotDiffPanelProps) {
+  const [fromId, setFromId] = useState(initialFrom);
+  const [toId, setToId] = useState(initialTo);
+  const [diffs, setDiffs] = useState<TabDiff[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = (id: string) => {
+      if (id === LIVE_SNAPSHOT_ID) return Promise.resolve(liveData);
+      const snapshot = snapshots.find(s => s.id === id);
+      return snapshot ? loadSnapshotData(snapshot) : Promise.resolve({});
+    };
+    setDiffs(null);
+    Promise.all([load(fromId), load(toId)])
+      .then(([before, after]) => {
+        if (cancelled) return;
+        setDiffs(diffSnapshots(before, after, mappings));
+        setError(null);
+      })
+      .catch((e: any) => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [fromId, toId, snapshots, liveData, mappings]);
+
+  const changed = diffs?.filter(d => !isTabDiffEmpty(d)) || [];
+  const options = [
+    ...snapshots.map(s => ({ id: s.id, label: formatTakenAt(s.takenAt) })),
+    { id: LIVE_SNAPSHOT_ID, label: 'Live data' },
+  ];
+  const selectClass = 'px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-800 text-[11px] font-bold cursor-pointer border border-transparent focus:border-primary-500/30';
+
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-50 dark:border-slate-800/50 flex justify-between items-center">
+          <h3 className="text-[12px] font-black uppercase tracking-widest text-slate-400">Compare Snapshots</h3>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-all">
+            <svg className="w-4 h-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="px-8 pt-6 flex flex-wrap items-center gap-3">
+          <select value={fromId} onChange={e => setFromId(e.target.value)} aria-label="From" className={selectClass}>
+            {options.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+          <span className="text-slate-400 font-black">→</span>
+          <select value={toId} onChange={e => setToId(e.target.value)} aria-label="To" className={selectClass}>
+            {options.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+        </div>
+
+        <div className="p-8 overflow-auto custom-scrollbar flex-1 space-y-4">
+          {error ? (
+            <p className="text-center text-rose-500 font-bold text-xs py-12">{error}</p>
+          ) : !diffs ? (
+            <p className="text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic py-12">Comparing…</p>
+          ) : changed.length === 0 ? (
+            <p className="text-center text-slate-400 font-bold text-xs uppercase tracking-widest italic py-12">No differences</p>
+          ) : changed.map(d => (
+            <React.Fragment key={d.tabId}>
+              <TabDiffSection diff={d} label={tabs.find(t => t.id === d.tabId)?.label || d.tabId} />
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
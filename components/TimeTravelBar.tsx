@@ -0,0 +1,59 @@
+import React from 'react';
+import { SnapshotMeta } from '../services/snapshotStore';
+
+interface TimeTravelBarProps {
+  snapshots: SnapshotMeta[];
+  // null while the dashboard shows live data
+  viewing: SnapshotMeta | null;
+  error: string | null;
+  onSelect: (snapshot: SnapshotMeta | null) => void;
+  onCompare: () => void;
+  onClose: () => void;
+}
+
+export const formatTakenAt = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export default function TimeTravelBar({ snapshots, viewing, error, onSelect, onCompare, onClose }: TimeTravelBarProps) {
+  // The slider's last stop is the live data
+  const position = viewing ? snapshots.findIndex(s => s.id === viewing.id) : snapshots.length;
+
+  return (
+    <section className={`rounded-[2rem] px-8 py-5 border flex flex-wrap items-center gap-x-6 gap-y-3 animate-in fade-in slide-in-from-top-2 duration-300 ${viewing ? 'bg-violet-50 border-violet-200 dark:bg-violet-900/20 dark:border-violet-900/40' : 'bg-white border-slate-200 dark:bg-slate-900 dark:border-slate-800'}`}>
+      <div className="flex items-center gap-3 shrink-0">
+        <span className="text-xl">🕘</span>
+        <div>
+          <p className={`text-[10px] font-black uppercase tracking-widest ${viewing ? 'text-violet-700 dark:text-violet-400' : 'text-slate-400'}`}>{viewing ? 'Viewing snapshot' : 'Time travel'}</p>
+          <p className="text-[11px] font-bold text-slate-600 dark:text-slate-300 whitespace-nowrap">
+            {viewing ? `${formatTakenAt(viewing.takenAt)} · ${position + 1} of ${snapshots.length}` : snapshots.length ? 'Live data' : 'No snapshots yet'}
+          </p>
+        </div>
+      </div>
+
+      {snapshots.length > 0 ? (
+        <input
+          type="range"
+          min={0}
+          max={snapshots.length}
+          value={position}
+          onChange={e => { const i = Number(e.target.value); onSelect(i >= snapshots.length ? null : snapshots[i]); }}
+          aria-label="Snapshot"
+          className="flex-1 min-w-[12rem] accent-violet-600 cursor-pointer"
+        />
+      ) : (
+        <p className="flex-1 text-[11px] font-bold text-slate-400">A snapshot is recorded after each sync that changes the data.</p>
+      )}
+
+      {error && <p className="w-full order-last text-[10px] font-bold text-rose-500">{error}</p>}
+
+      <div className="flex items-center gap-2 shrink-0">
+        <button onClick={onCompare} disabled={snapshots.length === 0} className="px-4 py-2.5 bg-slate-100 dark:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-40">Compare</button>
+        {viewing ? (
+          <button onClick={() => onSelect(null)} className="px-5 py-2.5 bg-slate-900 dark:bg-slate-800 text-white rounded-xl text-[10px] font-black uppercase tracking-widest active:scale-95 shadow-lg">Back to live</button>
+        ) : (
+          <button onClick={onClose} className="px-4 py-2.5 bg-slate-100 dark:bg-slate-800 rounded-xl text-[10px] font-black uppercase tracking-widest">Close</button>
+        )}
+      </div>
+    </section>
+  );
+}
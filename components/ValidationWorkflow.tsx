@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { buildRefKey, buildRefLabel } from '../utils/buildComparison';
+import { getStatusStyles } from '../utils/statusStyles';
+import { OutcomeCounts, TicketHistory, VALIDATION_OUTCOMES, ValidationOutcome, ValidationWorkflow as ValidationWorkflowData } from '../utils/ticketValidation';
+
+interface ValidationWorkflowProps {
+  workflow: ValidationWorkflowData;
+}
+
+const OUTCOMES = Object.keys(VALIDATION_OUTCOMES) as ValidationOutcome[];
+
+function OutcomeBar({ counts }: { counts: OutcomeCounts }) {
+  const total = OUTCOMES.reduce((n, o) => n + counts[o], 0);
+  return (
+    <div className="space-y-2">
+      <div className="flex h-2.5 rounded-full overflow-hidden bg-slate-100 dark:bg-slate-800">
+        {total > 0 && OUTCOMES.map(o => counts[o] > 0 && (
+          <div key={o} title={`${VALIDATION_OUTCOMES[o].label}: ${counts[o]}`} style={{ width: `${(counts[o] / total) * 100}%`, backgroundColor: VALIDATION_OUTCOMES[o].color }} />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        {OUTCOMES.filter(o => o !== 'other' || counts.other > 0).map(o => (
+          <span key={o} className="flex items-center gap-1.5 text-[10px] font-bold text-slate-500">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: VALIDATION_OUTCOMES[o].color }} />
+            {VALIDATION_OUTCOMES[o].label} <span className="font-black text-slate-900 dark:text-white">{counts[o]}</span>
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TicketHistoryModal({ history, onClose }: { history: TicketHistory; onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 z-[150] flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-900 rounded-[2.5rem] border border-slate-200 dark:border-slate-800 shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-6 border-b border-slate-50 dark:border-slate-800/50 flex justify-between items-start gap-4">
+          <div className="min-w-0">
+            <h3 className="text-[12px] font-black uppercase tracking-widest text-slate-400">Ticket History</h3>
+            <p className="mt-1 text-sm font-black text-slate-900 dark:text-white">
+              {history.ticket && <span className="text-primary-600 dark:text-primary-400 mr-2">{history.ticket}</span>}
+              {history.title}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-all">
+            <svg className="w-4 h-4 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <ol className="p-8 overflow-auto custom-scrollbar flex-1 space-y-3">
+          {history.entries.map((e, i) => (
+            <li key={i} className="flex items-center gap-4">
+              <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: VALIDATION_OUTCOMES[e.outcome].color }} />
+              <span className="text-xs font-black text-slate-900 dark:text-white whitespace-nowrap">#{buildRefLabel(e)}</span>
+              <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase ${getStatusStyles(e.status)}`}>{e.status || '—'}</span>
+              {e.revalidatedAfter && <span className="text-[10px] font-bold text-amber-600 dark:text-amber-400">↻ re-validated after #{e.revalidatedAfter}</span>}
+              {e.date && <span className="ml-auto text-[10px] font-bold text-slate-400 whitespace-nowrap">{e.date}</span>}
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
+
+export default function ValidationWorkflow({ workflow }: ValidationWorkflowProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [historyKey, setHistoryKey] = useState<string | null>(null);
+  const history = historyKey ? workflow.histories.get(historyKey) : undefined;
+
+  const toggleGroup = (key: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  if (workflow.groups.length === 0) {
+    return <p className="py-10 text-center text-slate-400 font-bold text-[10px] uppercase tracking-widest italic">No tickets match the current filters</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-6 items-center bg-slate-50/50 dark:bg-slate-800/30 rounded-3xl border border-slate-100 dark:border-slate-800 p-6">
+        <OutcomeBar counts={workflow.totals} />
+        <div className="text-right">
+          <p className="text-[9px] font-black uppercase text-slate-400 tracking-wider">Re-validated after Not Fixed</p>
+          <p className="text-xl font-black text-amber-600 dark:text-amber-400">{workflow.revalidated}</p>
+        </div>
+      </div>
+
+      {workflow.groups.map(g => {
+        const key = buildRefKey(g.ref);
+        const isOpen = !collapsed.has(key);
+        return (
+          <div key={key} className="rounded-3xl border border-slate-100 dark:border-slate-800 overflow-hidden">
+            <button onClick={() => toggleGroup(key)} className="w-full px-6 py-4 grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-4 items-center text-left hover:bg-slate-50/50 dark:hover:bg-slate-800/30 transition-colors">
+              <span className="flex items-center gap-2">
+                <span className={`text-slate-400 text-[10px] transition-transform ${isOpen ? 'rotate-90' : ''}`}>▶</span>
+                <span className="text-sm font-black text-slate-900 dark:text-white">#{buildRefLabel(g.ref) || 'No build'}</span>
+                <span className="text-[10px] font-bold text-slate-400">{g.tickets.length}</span>
+              </span>
+              <OutcomeBar counts={g.counts} />
+            </button>
+            {isOpen && (
+              <table className="w-full text-left border-t border-slate-100 dark:border-slate-800">
+                <tbody>
+                  {g.tickets.map((t, i) => (
+                    <tr
+                      key={i}
+                      onClick={() => t.key && setHistoryKey(t.key)}
+                      title={t.key ? 'Show history across builds' : undefined}
+                      className={`border-t border-slate-50 dark:border-slate-800/50 first:border-t-0 transition-colors ${t.key ? 'cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800/40' : ''} ${t.revalidatedAfter ? 'bg-amber-50/60 dark:bg-amber-500/5' : ''}`}
+                    >
+                      <td className="pl-6 pr-3 py-2.5 text-[11px] font-black text-primary-600 dark:text-primary-400 whitespace-nowrap">{t.ticket || '—'}</td>
+                      <td className="px-3 py-2.5 text-[11px] font-bold text-slate-700 dark:text-slate-200">
+                        {t.title}
+                        {t.revalidatedAfter && <span className="ml-2 text-[10px] font-bold text-amber-600 dark:text-amber-400 whitespace-nowrap">↻ Not Fixed in #{t.revalidatedAfter}</span>}
+                      </td>
+                      <td className="pl-3 pr-6 py-2.5 text-right">
+                        <span className={`px-2.5 py-1 rounded-lg text-[10px] font-black uppercase whitespace-nowrap ${getStatusStyles(t.status)}`}>{t.status || '—'}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        );
+      })}
+
+      {history && <TicketHistoryModal history={history} onClose={() => setHistoryKey(null)} />}
+    </div>
+  );
+}
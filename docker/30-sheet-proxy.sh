@@ -0,0 +1,8 @@
+#!/bin/sh
+# Runs from the nginx image's /docker-entrypoint.d before nginx starts.
+# Starts the sheet proxy that nginx serves under /api/. It reads
+# PROXY_DATA_SOURCES when set, otherwise the deployed data-sources.json.
+set -e
+
+node /opt/rc-dashboard/sheet-proxy.mjs &
+echo "$0: sheet proxy started"
@@ -0,0 +1,13 @@
+#!/bin/sh
+# Runs from the nginx image's /docker-entrypoint.d before nginx starts.
+# Starts the webhook notifier in the background when a config is mounted.
+set -e
+
+if [ ! -f "$WEBHOOKS_CONFIG" ]; then
+  echo "$0: no webhook config at $WEBHOOKS_CONFIG, notifier not started"
+  exit 0
+fi
+
+mkdir -p "$(dirname "$WEBHOOKS_STATE")"
+node /opt/rc-dashboard/webhooks.mjs &
+echo "$0: webhook notifier started"
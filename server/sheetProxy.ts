@@ -0,0 +1,219 @@
+/**
+ * Sheet proxy: fetches each configured tab at most once per refresh interval
+ * and serves the parsed data with ETags, so any number of open dashboards
+ * cost one download per sheet. It reads its own data source file, which can
+ * list sheets the browser never sees.
+ *
+ *   PROXY_PORT             listen port (default 8081)
+ *   PROXY_HOST             listen address (default 127.0.0.1, behind nginx)
+ *   PROXY_DATA_SOURCES     data sources to serve (default $DATA_SOURCES, then ./public/data-sources.json)
+ *   PROXY_REFRESH_SECONDS  how long a fetched tab is served before it is fetched again (default 120)
+ *   PROXY_MAX_CACHED_TABS  cached tab copies kept; the least recently requested go first (default 200)
+ *   SHEETS_AUTHORIZATION   optional Authorization header sent upstream, for sources that are not public
+ *
+ *   GET /api/tabs/:id?profile=<id>[&gid=<gid>]  the tab's parsed data; 304 when If-None-Match matches.
+ *                                               `gid` re-points a published tab, e.g. to a sheet picked by hand;
+ *                                               only the tab's own gid and those found by discovery are accepted
+ *   GET /api/discovery?profile=<id>             { "sheets": [{ name, gid }] } of the profile's published sheet
+ */
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { DataSourceConfig, DataSourceProfile, TabSource } from "../types";
+import { buildCsvUrl, buildDiscoveryUrl, DEFAULT_DATA_SOURCES, parseDataSourceConfig, supportsDiscovery } from "../services/dataSources";
+import { parseCSV } from "../utils/dataParser";
+import { DiscoveredSheet, matchSheet, parsePublishedSheets, sheetMatchError } from "../utils/sheetDiscovery";
+
+const PORT = Number(process.env.PROXY_PORT) || 8081;
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+const DATA_SOURCES_PATH = process.env.PROXY_DATA_SOURCES || process.env.DATA_SOURCES || './public/data-sources.json';
+const REFRESH_MS = Math.max(10, Number(process.env.PROXY_REFRESH_SECONDS) || 120) * 1000;
+const MAX_CACHED_TABS = Math.max(1, Number(process.env.PROXY_MAX_CACHED_TABS) || 200);
+const AUTHORIZATION = process.env.SHEETS_AUTHORIZATION;
+const UPSTREAM_TIMEOUT_MS = 30000;
+
+interface CachedTab {
+  // Last upstream attempt; the tab is not fetched again before REFRESH_MS has passed
+  checkedAt: number;
+  // Last good copy, still served (marked stale) when a later fetch fails
+  body?: string;
+  etag?: string;
+  fetchedAt?: string;
+  // Set when the last attempt failed
+  error?: { status: number; message: string };
+}
+
+interface CachedDiscovery {
+  checkedAt: number;
+  sheets: DiscoveredSheet[] | null;
+}
+
+// Map order doubles as recency: entries are re-inserted on use and the oldest evicted first
+const tabCache = new Map<string, CachedTab>();
+const discoveryCache = new Map<string, CachedDiscovery>();
+// gid a moved published tab was last found under, per cache key
+const gidOverrides = new Map<string, string>();
+// Upstream requests in progress, so concurrent misses share one download
+const inflight = new Map<string, Promise<any>>();
+let sources: { config: DataSourceConfig; loadedAt: number } | null = null;
+
+const log = (...args: any[]) => console.log(new Date().toISOString(), '[sheet-proxy]', ...args);
+
+const isFresh = (checkedAt: number) => Date.now() - checkedAt < REFRESH_MS;
+
+const cacheTab = (key: string, entry: CachedTab) => {
+  tabCache.delete(key);
+  tabCache.set(key, entry);
+  while (tabCache.size > MAX_CACHED_TABS) tabCache.delete(tabCache.keys().next().value!);
+};
+
+const shared = <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  let pending = inflight.get(key);
+  if (!pending) {
+    pending = load().finally(() => inflight.delete(key));
+    inflight.set(key, pending);
+  }
+  return pending;
+};
+
+const upstreamFetch = (url: string) => fetch(url, {
+  headers: AUTHORIZATION ? { Authorization: AUTHORIZATION } : undefined,
+  signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+});
+
+// Re-read once per interval, so edits to the file apply without a restart
+const getDataSources = async (): Promise<DataSourceConfig> => {
+  if (sources && isFresh(sources.loadedAt)) return sources.config;
+  let config: DataSourceConfig;
+  try {
+    config = parseDataSourceConfig(JSON.parse(await readFile(DATA_SOURCES_PATH, 'utf8')));
+  } catch (err: any) {
+    if (!sources) log(`Using built-in data sources (${DATA_SOURCES_PATH}: ${err.message})`);
+    config = sources?.config || DEFAULT_DATA_SOURCES;
+  }
+  sources = { config, loadedAt: Date.now() };
+  return config;
+};
+
+const discover = (profile: DataSourceProfile): Promise<DiscoveredSheet[] | null> => {
+  const cached = discoveryCache.get(profile.id);
+  if (cached && isFresh(cached.checkedAt)) return Promise.resolve(cached.sheets);
+  return shared(`discovery:${profile.id}`, async () => {
+    let sheets: DiscoveredSheet[] | null = null;
+    try {
+      const resp = await upstreamFetch(buildDiscoveryUrl(profile)!);
+      if (resp.ok) sheets = parsePublishedSheets(await resp.text());
+      else log(`Discovery for '${profile.id}' answered HTTP ${resp.status}`);
+    } catch (err: any) {
+      log(`Discovery for '${profile.id}' failed: ${err.message}`);
+    }
+    discoveryCache.set(profile.id, { checkedAt: Date.now(), sheets });
+    return sheets;
+  });
+};
+
+/**
+ * `pinnedGid` is a sheet the user picked; it is fetched as is, without
+ * falling back to discovery.
+ */
+const refreshTab = async (profile: DataSourceProfile, tab: TabSource, key: string, pinnedGid?: string, previous?: CachedTab): Promise<CachedTab> => {
+  const checkedAt = Date.now();
+  try {
+    let resp = await upstreamFetch(buildCsvUrl(tab, profile, pinnedGid || gidOverrides.get(key)));
+    let notFoundMessage = `Invalid source configuration. Tab '${tab.label}' was not found.`;
+    // Same recovery as the dashboard: a published tab that moved is looked up by its label
+    if ((resp.status === 400 || resp.status === 404) && !pinnedGid && supportsDiscovery(tab, profile)) {
+      const sheets = await discover(profile);
+      const match = matchSheet(tab.label, sheets || []);
+      if (match.kind === 'match' && match.sheet.gid !== gidOverrides.get(key)) {
+        gidOverrides.set(key, match.sheet.gid);
+        log(`'${tab.label}' of '${profile.id}' found as '${match.sheet.name}' (gid ${match.sheet.gid})`);
+        resp = await upstreamFetch(buildCsvUrl(tab, profile, match.sheet.gid));
+      }
+      notFoundMessage = sheetMatchError(tab.label, match);
+    }
+    if (!resp.ok) {
+      const notFound = resp.status === 400 || resp.status === 404;
+      const message = notFound ? notFoundMessage : `Sheet answered HTTP ${resp.status} for '${tab.label}'.`;
+      return { ...previous, checkedAt, error: { status: notFound ? 404 : 502, message } };
+    }
+    const body = JSON.stringify(parseCSV(await resp.text()));
+    const etag = `"${createHash('sha1').update(body).digest('base64url')}"`;
+    return { checkedAt, body, etag, fetchedAt: new Date(checkedAt).toISOString() };
+  } catch (err: any) {
+    return { ...previous, checkedAt, error: { status: 502, message: `Could not fetch '${tab.label}': ${err.message}` } };
+  }
+};
+
+const getTab = (profile: DataSourceProfile, tab: TabSource, pinnedGid?: string): Promise<CachedTab> => {
+  const key = pinnedGid ? `${profile.id}/${tab.id}@${pinnedGid}` : `${profile.id}/${tab.id}`;
+  const cached = tabCache.get(key);
+  if (cached && isFresh(cached.checkedAt)) {
+    cacheTab(key, cached);
+    return Promise.resolve(cached);
+  }
+  return shared(`tab:${key}`, async () => {
+    const next = await refreshTab(profile, tab, key, pinnedGid, cached);
+    if (next.error) log(next.error.message);
+    cacheTab(key, next);
+    return next;
+  });
+};
+
+const sendJson = (res: ServerResponse, status: number, body: any, headers: Record<string, string> = {}) =>
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers })
+    .end(typeof body === 'string' ? body : JSON.stringify(body));
+
+// nginx turns strong ETags into weak ones when it gzips, so the W/ prefix is ignored
+const etagMatches = (header: string | undefined, etag: string) =>
+  !!header && header.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+
+const handleTab = async (req: IncomingMessage, res: ServerResponse, profile: DataSourceProfile, tabId: string, gid: string | null) => {
+  const tab = profile.tabs.find(t => t.id === tabId);
+  if (!tab) return sendJson(res, 404, { error: `Unknown tab '${tabId}' in profile '${profile.id}'.` });
+  if (gid !== null && !/^\d+$/.test(gid)) return sendJson(res, 400, { error: `Invalid gid '${gid}'.` });
+  // Only published tabs are addressed by gid; others ignore it and share one cache entry
+  const pinnedGid = gid && supportsDiscovery(tab, profile) ? gid : undefined;
+  // Each accepted gid costs an upstream fetch and a cache entry, so it has to be a sheet the profile publishes
+  if (pinnedGid && pinnedGid !== tab.gid && !(await discover(profile))?.some(s => s.gid === pinnedGid)) {
+    return sendJson(res, 404, { error: `Sheet gid '${pinnedGid}' is not published in profile '${profile.id}'.` });
+  }
+  const entry = await getTab(profile, tab, pinnedGid);
+  if (!entry.body) return sendJson(res, entry.error!.status, { error: entry.error!.message });
+  const headers = {
+    ETag: entry.etag!,
+    'Cache-Control': 'no-cache',
+    'X-Fetched-At': entry.fetchedAt!,
+    'X-Sheet-Stale': String(!!entry.error),
+  };
+  if (etagMatches(req.headers['if-none-match'], entry.etag!)) return res.writeHead(304, headers).end();
+  sendJson(res, 200, entry.body, headers);
+};
+
+const handleDiscovery = async (res: ServerResponse, profile: DataSourceProfile) => {
+  if (!profile.publishedId) return sendJson(res, 404, { error: `Profile '${profile.id}' has no published sheet to discover tabs in.` });
+  const sheets = await discover(profile);
+  if (!sheets) return sendJson(res, 502, { error: `Could not read the published sheet of '${profile.id}'.` });
+  sendJson(res, 200, { sheets }, { 'Cache-Control': 'no-cache' });
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return sendJson(res, 405, { error: 'Only GET is supported.' });
+  const url = new URL(req.url || '/', 'http://localhost');
+  const config = await getDataSources();
+  const profileId = url.searchParams.get('profile') || config.defaultProfile;
+  const profile = config.profiles.find(p => p.id === profileId);
+  if (!profile) return sendJson(res, 404, { error: `Unknown profile '${profileId}'.` });
+
+  const tabMatch = url.pathname.match(/^\/api\/tabs\/([^/]+)$/);
+  if (tabMatch) return handleTab(req, res, profile, decodeURIComponent(tabMatch[1]), url.searchParams.get('gid'));
+  if (url.pathname === '/api/discovery') return handleDiscovery(res, profile);
+  sendJson(res, 404, { error: `No such endpoint: ${url.pathname}` });
+};
+
+createServer((req, res) => {
+  handle(req, res).catch(err => {
+    log(err.message);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Sheet proxy failed to answer.' });
+  });
+}).listen(PORT, HOST, () => log(`Listening on http://${HOST}:${PORT}, refreshing tabs every ${REFRESH_MS / 1000}s`));
@@ -0,0 +1,90 @@
+import { CHANGE_EVENT_TYPES, ChangeEventType } from "../utils/changeEvents";
+
+export interface WebhookTarget {
+  id: string;
+  url: string;
+  // Profiles to watch; every profile when empty
+  profiles: string[];
+  events: ChangeEventType[];
+  // Narrow new-issue events only, as in the dashboard's browser alerts
+  severities: string[];
+  platforms: string[];
+  headers: Record<string, string>;
+  // JSON body; string values may contain {{placeholders}}
+  payload: any;
+}
+
+export interface WebhookConfig {
+  pollIntervalSeconds: number;
+  retries: number;
+  // An identical event is not sent to the same webhook again within this window
+  dedupHours: number;
+  // Optional export from the dashboard's Column Mapping panel, per profile id;
+  // a single path applies to every profile
+  columnMappingsFile?: string | Record<string, string>;
+  webhooks: WebhookTarget[];
+}
+
+const EVENT_TYPES = Object.keys(CHANGE_EVENT_TYPES) as ChangeEventType[];
+
+// Unless a webhook says otherwise: status flips, store releases and Critical issues
+const DEFAULT_EVENTS: ChangeEventType[] = ['buildStatus', 'storeRelease', 'newIssue'];
+const DEFAULT_SEVERITIES = ['Critical'];
+// Slack and Teams incoming webhooks both accept a bare `text` field
+const DEFAULT_PAYLOAD = { text: '{{message}}' };
+
+const stringList = (raw: any): string[] =>
+  Array.isArray(raw) ? raw.filter(v => typeof v === 'string' && v.trim() !== '') : [];
+
+const mappingFiles = (raw: any): string | Record<string, string> | undefined => {
+  if (typeof raw === 'string') return raw;
+  if (!raw || typeof raw !== 'object') return undefined;
+  return Object.fromEntries(Object.entries(raw).filter((e): e is [string, string] => typeof e[1] === 'string'));
+};
+
+const positive = (raw: any, fallback: number) => {
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+const sanitizeTarget = (raw: any, index: number): WebhookTarget => {
+  const id = String(raw?.id || `webhook_${index + 1}`);
+  if (!raw || typeof raw.url !== 'string' || !/^https?:\/\//i.test(raw.url)) {
+    throw new Error(`Webhook '${id}' needs an http(s) "url".`);
+  }
+  const events = raw.events === undefined ? DEFAULT_EVENTS : stringList(raw.events).filter((e): e is ChangeEventType => (EVENT_TYPES as string[]).includes(e));
+  if (events.length === 0) throw new Error(`Webhook '${id}' has no known "events" (${EVENT_TYPES.join(', ')}).`);
+  const headers: Record<string, string> = {};
+  if (raw.headers && typeof raw.headers === 'object') {
+    Object.entries(raw.headers).forEach(([k, v]) => { if (typeof v === 'string') headers[k] = v; });
+  }
+  return {
+    id,
+    url: raw.url,
+    profiles: stringList(raw.profiles),
+    events,
+    severities: raw.severities === undefined ? DEFAULT_SEVERITIES : stringList(raw.severities),
+    platforms: stringList(raw.platforms),
+    headers,
+    payload: raw.payload && typeof raw.payload === 'object' ? raw.payload : DEFAULT_PAYLOAD,
+  };
+};
+
+export const parseWebhookConfig = (raw: any): WebhookConfig => {
+  if (!raw || !Array.isArray(raw.webhooks)) {
+    throw new Error('Webhook config must contain a "webhooks" array.');
+  }
+  const webhooks = raw.webhooks.map(sanitizeTarget);
+  const ids = new Set<string>();
+  webhooks.forEach((w: WebhookTarget) => {
+    if (ids.has(w.id)) throw new Error(`Duplicate webhook id '${w.id}'.`);
+    ids.add(w.id);
+  });
+  return {
+    pollIntervalSeconds: Math.max(30, positive(raw.pollIntervalSeconds, 120)),
+    retries: Math.min(10, Math.round(positive(raw.retries, 3))),
+    dedupHours: positive(raw.dedupHours, 24),
+    columnMappingsFile: mappingFiles(raw.columnMappingsFile),
+    webhooks,
+  };
+};
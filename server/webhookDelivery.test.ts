@@ -0,0 +1,139 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ChangeEvent } from '../utils/changeEvents';
+import { parseWebhookConfig } from './webhookConfig';
+import { deliverWebhook, dispatchEvents, eventFingerprint, EventContext } from './webhookDelivery';
+import { startWebhookStub, StubOptions, WebhookStub } from './webhookStub';
+
+const BACKOFF_MS = 40;
+
+let stub: WebhookStub | null = null;
+
+const startStub = async (options: StubOptions = {}) => {
+  stub = await startWebhookStub(options);
+  return stub;
+};
+
+afterEach(async () => {
+  await stub?.close();
+  stub = null;
+});
+
+const configFor = (url: string, retries: number, webhook: Record<string, any> = {}) =>
+  parseWebhookConfig({ retries, webhooks: [{ id: 'qa-channel', url: `${url}/hook`, ...webhook }] });
+
+const ctx: EventContext = { profileId: 'mobile', profileName: 'Mobile', tabLabel: 'New Issues' };
+
+const newIssue = (patch: Partial<ChangeEvent> = {}): ChangeEvent => ({
+  id: 'evt-1',
+  type: 'newIssue',
+  at: '2025-03-12T10:00:00.000Z',
+  tabId: 'new_issues',
+  build: '4.12.0',
+  platform: 'iOS',
+  subject: 'QA-101 Crash on login',
+  severity: 'Critical',
+  from: null,
+  to: 'Open',
+  ...patch,
+});
+
+const gaps = (requests: { at: number }[]) => requests.slice(1).map((r, i) => r.at - requests[i].at);
+
+describe('deliverWebhook', () => {
+  it('posts the body as JSON with the configured headers', async () => {
+    const { url, requests } = await startStub();
+    const [target] = configFor(url, 0, { headers: { 'X-Token': 'secret' } }).webhooks;
+    await deliverWebhook(target, { text: 'hello' }, 0, BACKOFF_MS);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ method: 'POST', path: '/hook', status: 200 });
+    expect(JSON.parse(requests[0].body)).toEqual({ text: 'hello' });
+  });
+
+  it('retries server errors with exponentially growing waits', async () => {
+    const { url, requests } = await startStub({ failures: 2 });
+    const [target] = configFor(url, 3).webhooks;
+    await deliverWebhook(target, { text: 'hello' }, 3, BACKOFF_MS);
+    expect(requests.map(r => r.status)).toEqual([500, 500, 200]);
+    const [first, second] = gaps(requests);
+    expect(first).toBeGreaterThanOrEqual(BACKOFF_MS - 5);
+    expect(second).toBeGreaterThanOrEqual(2 * BACKOFF_MS - 5);
+  });
+
+  it('retries rate limiting', async () => {
+    const { url, requests } = await startStub({ failures: 1, failStatus: 429 });
+    await deliverWebhook(configFor(url, 1).webhooks[0], {}, 1, BACKOFF_MS);
+    expect(requests.map(r => r.status)).toEqual([429, 200]);
+  });
+
+  it('gives up with the last failure once the retries are used up', async () => {
+    const { url, requests } = await startStub({ failures: 5 });
+    await expect(deliverWebhook(configFor(url, 2).webhooks[0], {}, 2, BACKOFF_MS)).rejects.toThrow("Webhook 'qa-channel' failed: HTTP 500");
+    expect(requests).toHaveLength(3);
+  });
+
+  it('does not retry other client errors', async () => {
+    const { url, requests } = await startStub({ failures: 1, failStatus: 404 });
+    await expect(deliverWebhook(configFor(url, 3).webhooks[0], {}, 3, BACKOFF_MS)).rejects.toThrow('HTTP 404');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('retries network errors', async () => {
+    const { url } = await startStub();
+    await stub!.close();
+    stub = null;
+    await expect(deliverWebhook(configFor(url, 1).webhooks[0], {}, 1, BACKOFF_MS)).rejects.toThrow("Webhook 'qa-channel' failed: fetch failed");
+  });
+});
+
+describe('eventFingerprint', () => {
+  it('ignores when and under which id the same change was seen, and letter case', () => {
+    const seen = eventFingerprint('qa-channel', 'mobile', newIssue());
+    expect(eventFingerprint('qa-channel', 'mobile', newIssue({ id: 'evt-2', at: '2025-03-13T08:00:00.000Z' }))).toBe(seen);
+    expect(eventFingerprint('qa-channel', 'mobile', newIssue({ subject: 'qa-101 crash on LOGIN' }))).toBe(seen);
+  });
+
+  it('tells apart changes, webhooks and profiles', () => {
+    const seen = eventFingerprint('qa-channel', 'mobile', newIssue());
+    expect(eventFingerprint('qa-channel', 'mobile', newIssue({ from: 'Open', to: 'Fixed' }))).not.toBe(seen);
+    expect(eventFingerprint('qa-channel', 'mobile', newIssue({ platform: 'Android' }))).not.toBe(seen);
+    expect(eventFingerprint('release-channel', 'mobile', newIssue())).not.toBe(seen);
+    expect(eventFingerprint('qa-channel', 'web', newIssue())).not.toBe(seen);
+  });
+});
+
+describe('dispatchEvents', () => {
+  const noLog = () => {};
+
+  it('sends an event once, however often it is seen', async () => {
+    const { url, requests } = await startStub();
+    const config = configFor(url, 0);
+    const sent: Record<string, string> = {};
+    await dispatchEvents([newIssue(), newIssue({ id: 'evt-2' })], ctx, config, sent, noLog, BACKOFF_MS);
+    await dispatchEvents([newIssue({ id: 'evt-3', at: '2025-03-12T10:02:00.000Z' })], ctx, config, sent, noLog, BACKOFF_MS);
+    expect(requests).toHaveLength(1);
+    expect(JSON.parse(requests[0].body).text).toContain('[Mobile]');
+    expect(Object.keys(sent)).toEqual([eventFingerprint('qa-channel', 'mobile', newIssue())]);
+  });
+
+  it('counts a failed delivery and leaves it unrecorded, so a later dispatch sends it', async () => {
+    const { url, requests } = await startStub({ failures: 2 });
+    const config = configFor(url, 1);
+    const sent: Record<string, string> = {};
+    const logged: string[] = [];
+    expect(await dispatchEvents([newIssue()], ctx, config, sent, m => logged.push(m), BACKOFF_MS)).toBe(1);
+    expect(sent).toEqual({});
+    expect(logged).toEqual(["Webhook 'qa-channel' failed: HTTP 500"]);
+    expect(await dispatchEvents([newIssue()], ctx, config, sent, noLog, BACKOFF_MS)).toBe(0);
+    expect(requests.map(r => r.status)).toEqual([500, 500, 200]);
+    expect(Object.keys(sent)).toHaveLength(1);
+  });
+
+  it('skips events, severities and profiles the webhook does not watch', async () => {
+    const { url, requests } = await startStub();
+    const config = configFor(url, 0, { profiles: ['mobile'] });
+    const sent: Record<string, string> = {};
+    await dispatchEvents([newIssue({ severity: 'Minor' }), newIssue({ type: 'validationStatus', from: 'Open', to: 'Fixed' })], ctx, config, sent, noLog, BACKOFF_MS);
+    await dispatchEvents([newIssue()], { ...ctx, profileId: 'web' }, config, sent, noLog, BACKOFF_MS);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,104 @@
+import { CHANGE_EVENT_TYPES, ChangeEvent, describeChangeEvent, matchesNotificationPrefs } from "../utils/changeEvents";
+import { WebhookConfig, WebhookTarget } from "./webhookConfig";
+
+export interface EventContext {
+  profileId: string;
+  profileName: string;
+  tabLabel: string;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+const BASE_BACKOFF_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Identity of an event for de-duplication: the same change seen again,
+ * e.g. after a restart or from a duplicated sheet row, maps to the same key.
+ */
+export const eventFingerprint = (webhookId: string, profileId: string, e: ChangeEvent) =>
+  [webhookId, profileId, e.tabId, e.type, e.build, e.platform, e.subject, e.from ?? '', e.to].map(s => s.toLowerCase()).join('|');
+
+const placeholders = (e: ChangeEvent, ctx: EventContext): Record<string, string> => ({
+  message: `[${ctx.profileName}] ${describeChangeEvent(e)}`,
+  type: e.type,
+  label: CHANGE_EVENT_TYPES[e.type].label,
+  profile: ctx.profileId,
+  profileName: ctx.profileName,
+  tab: ctx.tabLabel,
+  build: e.build,
+  platform: e.platform,
+  subject: e.subject,
+  severity: e.severity,
+  from: e.from ?? '',
+  to: e.to,
+  at: e.at,
+});
+
+// Substitutes inside string values only, so the template stays valid JSON whatever the values contain
+const renderTemplate = (template: any, values: Record<string, string>): any => {
+  if (typeof template === 'string') return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (m, key) => key in values ? values[key] : m);
+  if (Array.isArray(template)) return template.map(t => renderTemplate(t, values));
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(Object.entries(template).map(([k, v]) => [k, renderTemplate(v, values)]));
+  }
+  return template;
+};
+
+export const renderPayload = (target: WebhookTarget, e: ChangeEvent, ctx: EventContext) =>
+  renderTemplate(target.payload, placeholders(e, ctx));
+
+// Rate limits and server errors are worth another try; other 4xx answers will not change
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+/**
+ * POSTs the payload, retrying with exponential backoff. Throws with the
+ * last failure once the retries are used up.
+ */
+export const deliverWebhook = async (target: WebhookTarget, body: any, retries: number, backoffMs = BASE_BACKOFF_MS) => {
+  let lastError = '';
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) await sleep(backoffMs * 2 ** (attempt - 1));
+    try {
+      const resp = await fetch(target.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...target.headers },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (resp.ok) return;
+      lastError = `HTTP ${resp.status}`;
+      if (!isRetryable(resp.status)) break;
+    } catch (err: any) {
+      lastError = err?.message || String(err);
+    }
+  }
+  throw new Error(`Webhook '${target.id}' failed: ${lastError}`);
+};
+
+/**
+ * Sends each event to the webhooks that want it. `sent` maps fingerprints to
+ * the time they were delivered; events already in it are skipped and
+ * successful deliveries are added. Resolves to the number of deliveries that
+ * failed, so the caller can keep the events around for the next poll.
+ */
+export const dispatchEvents = async (events: ChangeEvent[], ctx: EventContext, config: WebhookConfig, sent: Record<string, string>, log: (message: string) => void, backoffMs = BASE_BACKOFF_MS) => {
+  let failed = 0;
+  for (const target of config.webhooks) {
+    if (target.profiles.length > 0 && !target.profiles.includes(ctx.profileId)) continue;
+    for (const e of events) {
+      if (!target.events.includes(e.type) || !matchesNotificationPrefs(e, target)) continue;
+      const fingerprint = eventFingerprint(target.id, ctx.profileId, e);
+      if (sent[fingerprint]) continue;
+      try {
+        await deliverWebhook(target, renderPayload(target, e, ctx), config.retries, backoffMs);
+        sent[fingerprint] = new Date().toISOString();
+        log(`Sent ${e.type} to '${target.id}'`);
+      } catch (err: any) {
+        failed++;
+        log(err.message);
+      }
+    }
+  }
+  return failed;
+};
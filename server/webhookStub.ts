@@ -0,0 +1,83 @@
+/**
+ * Local stand-in for a Slack/Teams incoming webhook. Prints every POST it
+ * receives. `--fail=N` answers the first N requests with HTTP 500 to
+ * exercise the notifier's retries.
+ *
+ *   PORT  listen port (default 8787)
+ */
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { pathToFileURL } from "node:url";
+
+export interface StubOptions {
+  // 0 picks a free port
+  port?: number;
+  // Requests answered with `failStatus` before the stub starts accepting
+  failures?: number;
+  failStatus?: number;
+  log?: (line: string) => void;
+}
+
+export interface StubRequest {
+  // Date.now() when the body was fully received
+  at: number;
+  method: string;
+  path: string;
+  body: string;
+  status: number;
+}
+
+export interface WebhookStub {
+  url: string;
+  requests: StubRequest[];
+  close: () => Promise<void>;
+}
+
+export const startWebhookStub = ({ port = 0, failures = 0, failStatus = 500, log = () => {} }: StubOptions = {}): Promise<WebhookStub> => {
+  const requests: StubRequest[] = [];
+  let failuresLeft = failures;
+
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const failing = failuresLeft > 0;
+      if (failing) failuresLeft--;
+      const status = failing ? failStatus : 200;
+      requests.push({ at: Date.now(), method: req.method || '', path: req.url || '', body, status });
+      const n = requests.length;
+      if (failing) {
+        log(`#${n} ${req.method} ${req.url} -> ${status} (simulated failure)`);
+        res.writeHead(status).end('simulated failure');
+        return;
+      }
+      let pretty = body;
+      try {
+        pretty = JSON.stringify(JSON.parse(body), null, 2);
+      } catch {
+        // Not JSON; print as received
+      }
+      log(`#${n} ${req.method} ${req.url} -> 200\n${pretty}`);
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, () => resolve({
+      url: `http://localhost:${(server.address() as AddressInfo).port}`,
+      requests,
+      close: () => new Promise(done => server.close(() => done())),
+    }));
+  });
+};
+
+// Started as a script (`npm run webhooks:stub`) rather than imported by the tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const failArg = process.argv.find(a => a.startsWith('--fail='));
+  startWebhookStub({
+    port: Number(process.env.PORT) || 8787,
+    failures: failArg ? Number(failArg.slice('--fail='.length)) || 0 : 0,
+    log: line => console.log(line),
+  }).then(stub => console.log(`Webhook stub listening on ${stub.url}`));
+}
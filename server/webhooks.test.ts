@@ -0,0 +1,96 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { parseWebhookConfig } from './webhookConfig';
+import { startWebhookStub, WebhookStub } from './webhookStub';
+
+// The notifier reads its paths from the environment when it is loaded
+let dir = '';
+let sheetServer: Server;
+let sheetBase = '';
+// CSV served per path, e.g. `/mobile.csv`
+const sheets: Record<string, string> = {};
+let poll: typeof import('./webhooks').poll;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'webhooks-test-'));
+  sheetServer = createServer((req, res) => res.writeHead(200, { 'Content-Type': 'text/csv' }).end(sheets[new URL(req.url || '/', 'http://localhost').pathname] || ''));
+  await new Promise<void>(resolve => sheetServer.listen(0, resolve));
+  sheetBase = `http://localhost:${(sheetServer.address() as AddressInfo).port}`;
+  const issuesTab = (profile: string) => ({ id: 'new_issues', label: 'New Issues', icon: '🐛', role: 'issues', url: `${sheetBase}/${profile}.csv` });
+  await writeFile(join(dir, 'data-sources.json'), JSON.stringify({
+    profiles: [
+      { id: 'mobile', name: 'Mobile', tabs: [issuesTab('mobile')] },
+      { id: 'web', name: 'Web', tabs: [issuesTab('web')] },
+    ],
+  }));
+  vi.stubEnv('DATA_SOURCES', join(dir, 'data-sources.json'));
+  vi.stubEnv('WEBHOOKS_STATE', join(dir, 'state.json'));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  ({ poll } = await import('./webhooks'));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await new Promise(resolve => sheetServer.close(resolve));
+  await rm(dir, { recursive: true, force: true });
+});
+
+const HEADER = 'Build,Platform,Ticket,Title,Severity,Status';
+
+describe('poll', () => {
+  let stub: WebhookStub | null = null;
+
+  afterEach(async () => {
+    await stub?.close();
+    stub = null;
+  });
+
+  it('delivers an event on a later poll when the first delivery failed', async () => {
+    stub = await startWebhookStub({ failures: 1 });
+    const config = parseWebhookConfig({ retries: 0, webhooks: [{ id: 'qa-channel', url: `${stub.url}/hook`, profiles: ['mobile'], events: ['newIssue'] }] });
+    const state = { baselines: {}, sent: {} };
+
+    sheets['/mobile.csv'] = `${HEADER}\n4.12.0,iOS,QA-1,Login fails,Critical,Open\n`;
+    await poll(config, state);
+    expect(stub.requests).toHaveLength(0);
+
+    sheets['/mobile.csv'] += '4.12.0,iOS,QA-2,Crash on save,Critical,Open\n';
+    await poll(config, state);
+    expect(stub.requests.map(r => r.status)).toEqual([500]);
+    expect(Object.keys(state.sent)).toHaveLength(0);
+
+    await poll(config, state);
+    expect(stub.requests.map(r => r.status)).toEqual([500, 200]);
+    expect(JSON.parse(stub.requests[1].body).text).toContain('QA-2');
+    expect(Object.keys(state.sent)).toHaveLength(1);
+
+    // Delivered, so the new baseline is kept and nothing is sent again
+    await poll(config, state);
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('applies each profile\'s own column mapping file', async () => {
+    stub = await startWebhookStub();
+    await writeFile(join(dir, 'web-mappings.json'), JSON.stringify({ version: 1, mappings: { new_issues: { severity: 'Sev Level' } } }));
+    const config = parseWebhookConfig({
+      retries: 0,
+      columnMappingsFile: { web: join(dir, 'web-mappings.json') },
+      webhooks: [{ id: 'qa-channel', url: `${stub.url}/hook`, events: ['newIssue'], severities: ['Critical'] }],
+    });
+    const state = { baselines: {}, sent: {} };
+    const header = 'Build,Platform,Ticket,Title,Sev Level,Status';
+    ['/mobile.csv', '/web.csv'].forEach(path => { sheets[path] = `${header}\n4.12.0,iOS,QA-1,Login fails,Critical,Open\n`; });
+    await poll(config, state);
+
+    ['/mobile.csv', '/web.csv'].forEach(path => { sheets[path] += '4.12.0,iOS,QA-2,Crash on save,Critical,Open\n'; });
+    await poll(config, state);
+    // Only the web profile maps "Sev Level" to the severity the webhook narrows on
+    expect(stub.requests).toHaveLength(1);
+    expect(JSON.parse(stub.requests[0].body).text).toContain('[Web]');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Companion notifier: polls the dashboard's sheet sources, runs the same
+ * change detection as the in-app activity feed and POSTs matching events to
+ * the configured webhooks.
+ *
+ *   WEBHOOKS_CONFIG  webhook config JSON        (default ./webhooks.json)
+ *   DATA_SOURCES     data-sources.json to poll  (default ./public/data-sources.json)
+ *   WEBHOOKS_STATE   baseline and sent log      (default ./webhooks-state.json)
+ *
+ * `--once` runs a single poll and exits.
+ */
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { pathToFileURL } from "node:url";
+import { DashboardData, DataSourceConfig, TabColumnMappings } from "../types";
+import { buildCsvUrl, DEFAULT_DATA_SOURCES, parseDataSourceConfig } from "../services/dataSources";
+import { detectChanges } from "../utils/changeEvents";
+import { parseColumnMappingsFile, resolveColumns } from "../utils/columnMapping";
+import { parseCSV } from "../utils/dataParser";
+import { parseWebhookConfig, WebhookConfig } from "./webhookConfig";
+import { dispatchEvents } from "./webhookDelivery";
+
+const CONFIG_PATH = process.env.WEBHOOKS_CONFIG || './webhooks.json';
+const DATA_SOURCES_PATH = process.env.DATA_SOURCES || './public/data-sources.json';
+const STATE_PATH = process.env.WEBHOOKS_STATE || './webhooks-state.json';
+
+export interface WebhookState {
+  // Last data seen per `profile/tab`, so a restart picks up where it left off
+  baselines: Record<string, Pick<DashboardData, 'headers' | 'rows'>>;
+  // Fingerprint -> ISO time it was delivered
+  sent: Record<string, string>;
+}
+
+const log = (...args: any[]) => console.log(new Date().toISOString(), '[webhooks]', ...args);
+
+const readJson = async (path: string) => JSON.parse(await readFile(path, 'utf8'));
+
+const loadState = async (): Promise<WebhookState> => {
+  try {
+    const raw = await readJson(STATE_PATH);
+    return { baselines: raw.baselines || {}, sent: raw.sent || {} };
+  } catch {
+    return { baselines: {}, sent: {} };
+  }
+};
+
+// Written to a temp file first so a crash mid-write cannot truncate the state
+const saveState = async (state: WebhookState) => {
+  await mkdir(dirname(STATE_PATH), { recursive: true });
+  await writeFile(`${STATE_PATH}.tmp`, JSON.stringify(state));
+  await rename(`${STATE_PATH}.tmp`, STATE_PATH);
+};
+
+// Same fallback as the dashboard: without a readable config file the built-in sources apply
+const loadDataSources = async (): Promise<DataSourceConfig> => {
+  try {
+    return parseDataSourceConfig(await readJson(DATA_SOURCES_PATH));
+  } catch (err: any) {
+    log(`Using built-in data sources (${DATA_SOURCES_PATH}: ${err.message})`);
+    return DEFAULT_DATA_SOURCES;
+  }
+};
+
+// Mappings are exported per profile from the dashboard, so each profile reads its own file
+const loadColumnMappings = async (config: WebhookConfig, profileId: string): Promise<TabColumnMappings> => {
+  const file = typeof config.columnMappingsFile === 'string' ? config.columnMappingsFile : config.columnMappingsFile?.[profileId];
+  if (!file) return {};
+  return parseColumnMappingsFile(await readFile(file, 'utf8'));
+};
+
+const pruneSent = (state: WebhookState, config: WebhookConfig, now: Date) => {
+  const cutoff = now.getTime() - config.dedupHours * 3600000;
+  Object.entries(state.sent).forEach(([key, at]) => { if (Date.parse(at) < cutoff) delete state.sent[key]; });
+};
+
+export const poll = async (config: WebhookConfig, state: WebhookState) => {
+  const now = new Date();
+  const sources = await loadDataSources();
+  const watched = sources.profiles.filter(p => config.webhooks.some(w => w.profiles.length === 0 || w.profiles.includes(p.id)));
+
+  for (const profile of watched) {
+    const mappings = await loadColumnMappings(config, profile.id);
+    for (const tab of profile.tabs.filter(t => t.role !== 'custom')) {
+      const key = `${profile.id}/${tab.id}`;
+      let data: DashboardData;
+      try {
+        const resp = await fetch(buildCsvUrl(tab, profile), { signal: AbortSignal.timeout(30000) });
+        if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+        data = parseCSV(await resp.text());
+      } catch (err: any) {
+        // The baseline is kept, so the next successful poll still reports what changed meanwhile
+        log(`Could not fetch '${tab.label}' of '${profile.id}': ${err.message}`);
+        continue;
+      }
+      const before = state.baselines[key];
+      if (before) {
+        const cols = resolveColumns(data.headers, mappings[tab.id]);
+        const events = detectChanges(tab.role, tab.id, before, data, cols, now);
+        if (events.length > 0) {
+          log(`${events.length} change(s) in '${tab.label}' of '${profile.id}'`);
+          const failed = await dispatchEvents(events, { profileId: profile.id, profileName: profile.name, tabLabel: tab.label }, config, state.sent, log);
+          // Diffing against the old baseline again finds the undelivered events next poll; delivered ones are skipped as sent
+          if (failed > 0) {
+            log(`Keeping the previous baseline of '${tab.label}' of '${profile.id}' to retry ${failed} delivery(ies)`);
+            continue;
+          }
+        }
+      } else {
+        log(`Baseline recorded for '${tab.label}' of '${profile.id}'`);
+      }
+      state.baselines[key] = { headers: data.headers, rows: data.rows };
+    }
+  }
+
+  pruneSent(state, config, now);
+  await saveState(state);
+};
+
+const main = async () => {
+  const config = parseWebhookConfig(await readJson(CONFIG_PATH));
+  const state = await loadState();
+  log(`Watching for ${config.webhooks.length} webhook(s), polling every ${config.pollIntervalSeconds}s`);
+
+  const run = () => poll(config, state).catch(err => log(`Poll failed: ${err.message}`));
+  await run();
+  if (process.argv.includes('--once')) return;
+
+  // Polls never overlap: the next one is scheduled when the previous finishes
+  const loop = async () => {
+    await run();
+    setTimeout(loop, config.pollIntervalSeconds * 1000);
+  };
+  setTimeout(loop, config.pollIntervalSeconds * 1000);
+};
+
+// Started as a script (`npm run webhooks`) rather than imported by the tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main().catch(err => {
+    log(err.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,33 @@
+const DB_NAME = 'rc-dashboard';
+const DB_VERSION = 2;
+
+export const SHEETS_STORE = 'sheets';
+// Snapshot metadata, and the tab contents they point at keyed by content hash
+export const SNAPSHOTS_STORE = 'snapshots';
+export const SNAPSHOT_TABS_STORE = 'snapshotTabs';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null where IndexedDB is unavailable (private browsing, old WebViews); callers then no-op
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(SHEETS_STORE)) db.createObjectStore(SHEETS_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(SNAPSHOTS_STORE)) db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SNAPSHOT_TABS_STORE)) db.createObjectStore(SNAPSHOT_TABS_STORE, { keyPath: 'hash' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
@@ -0,0 +1,27 @@
+export const browserNotificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const browserNotificationPermission = (): NotificationPermission | 'unsupported' =>
+  browserNotificationsSupported() ? Notification.permission : 'unsupported';
+
+export const requestBrowserNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!browserNotificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+/**
+ * Shows an OS-level notification; a no-op without permission. Clicking it
+ * brings the dashboard tab to the front.
+ */
+export const showBrowserNotification = (title: string, body: string, tag?: string) => {
+  if (!browserNotificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    const n = new Notification(title, { body, tag });
+    n.onclick = () => {
+      window.focus();
+      n.close();
+    };
+  } catch {
+    // Some mobile browsers only allow notifications from a service worker
+  }
+};
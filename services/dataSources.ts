@@ -0,0 +1,151 @@
+import { DataSourceConfig, DataSourceProfile, SprintCadence, TabRole, TabSource } from "../types";
+
+// Served next to index.html (public/ in development, the nginx root in production)
+const CONFIG_URL = '/data-sources.json';
+const LOCAL_CONFIG_KEY = 'dashboard-data-sources';
+const PROFILE_KEY = 'dashboard-data-source-profile';
+
+export const TAB_ROLES: TabRole[] = ['summary', 'issues', 'validation', 'custom'];
+
+// Used when the config file is missing or unreadable
+export const DEFAULT_DATA_SOURCES: DataSourceConfig = {
+  defaultProfile: 'ifocus',
+  profiles: [
+    {
+      id: 'ifocus',
+      name: 'Ifocus',
+      title: 'Ifocus RC Build Reports',
+      publishedId: '2PACX-1vSrx7lqwi5bjj99rYho8jYGBYH47sYw2a5d62uPGrKS-HvSgiz6o-Rx_opsCMGNhVNRjJNx2bi6OTfK',
+      tabs: [
+        { id: 'summary', label: 'Report Summary', icon: '📊', role: 'summary', gid: '0' },
+        { id: 'new_issues', label: 'New Issues', icon: '🐛', role: 'issues', spreadsheetId: '1yjf5kI6WPNwi_WhH3dFTgiIUONztM54I50sJtnr_PxY', gid: '476295067' },
+        { id: 'validation', label: 'Ticket Validation', icon: '✅', role: 'validation', spreadsheetId: '1yjf5kI6WPNwi_WhH3dFTgiIUONztM54I50sJtnr_PxY', gid: '2057375142' },
+      ],
+    },
+  ],
+};
+
+const withCacheBust = (url: string) => `${url}${url.includes('?') ? '&' : '?'}t=${Date.now()}`;
+
+/**
+ * Resolves the CSV URL for a tab. `gidOverride` comes from runtime discovery
+ * and only applies to published sheets.
+ */
+export const buildCsvUrl = (tab: TabSource, profile: DataSourceProfile, gidOverride?: string) => {
+  if (tab.url) return withCacheBust(tab.url);
+  if (tab.spreadsheetId) {
+    return withCacheBust(`https://docs.google.com/spreadsheets/d/${tab.spreadsheetId}/export?format=csv&gid=${tab.gid || '0'}`);
+  }
+  if (profile.publishedId) {
+    return withCacheBust(`https://docs.google.com/spreadsheets/d/e/${profile.publishedId}/pub?output=csv&gid=${gidOverride || tab.gid || '0'}`);
+  }
+  throw new Error(`Tab '${tab.label}' has no data source configured.`);
+};
+
+export const buildDiscoveryUrl = (profile: DataSourceProfile) =>
+  profile.publishedId ? withCacheBust(`https://docs.google.com/spreadsheets/d/e/${profile.publishedId}/pubhtml`) : null;
+
+// Only published-sheet tabs can be re-pointed by discovery
+export const supportsDiscovery = (tab: TabSource, profile: DataSourceProfile) =>
+  !tab.url && !tab.spreadsheetId && !!profile.publishedId;
+
+// Endpoints of the sheet proxy (server/sheetProxy.ts); `base` is the config's `proxy`
+export const buildProxyTabUrl = (base: string, profile: DataSourceProfile, tab: TabSource, gidOverride?: string) =>
+  `${base}/tabs/${encodeURIComponent(tab.id)}?profile=${encodeURIComponent(profile.id)}${gidOverride ? `&gid=${encodeURIComponent(gidOverride)}` : ''}`;
+
+export const buildProxyDiscoveryUrl = (base: string, profile: DataSourceProfile) =>
+  `${base}/discovery?profile=${encodeURIComponent(profile.id)}`;
+
+const sanitizeTab = (raw: any, index: number): TabSource | null => {
+  if (!raw || typeof raw !== 'object' || !raw.label) return null;
+  const tab: TabSource = {
+    id: String(raw.id || `tab_${index + 1}`),
+    label: String(raw.label),
+    icon: String(raw.icon || '📄'),
+    role: TAB_ROLES.includes(raw.role) ? raw.role : 'custom',
+  };
+  if (raw.url) tab.url = String(raw.url);
+  if (raw.spreadsheetId) tab.spreadsheetId = String(raw.spreadsheetId);
+  if (raw.gid !== undefined && raw.gid !== '') tab.gid = String(raw.gid);
+  return tab;
+};
+
+const sanitizeSprint = (raw: any): SprintCadence | undefined => {
+  const lengthDays = Math.round(Number(raw?.lengthDays));
+  if (!raw || !/^\d{4}-\d{2}-\d{2}$/.test(String(raw.start)) || !(lengthDays > 0)) return undefined;
+  return { start: String(raw.start), lengthDays };
+};
+
+export const parseDataSourceConfig = (raw: any): DataSourceConfig => {
+  if (!raw || !Array.isArray(raw.profiles)) {
+    throw new Error('Data source config must contain a "profiles" array.');
+  }
+  const profiles: DataSourceProfile[] = raw.profiles
+    .filter((p: any) => p && p.id && Array.isArray(p.tabs))
+    .map((p: any) => ({
+      id: String(p.id),
+      name: String(p.name || p.id),
+      title: String(p.title || p.name || p.id),
+      publishedId: p.publishedId ? String(p.publishedId) : undefined,
+      sprint: sanitizeSprint(p.sprint),
+      tabs: p.tabs.map(sanitizeTab).filter(Boolean),
+    }));
+  if (profiles.length === 0) throw new Error('Data source config has no valid profiles.');
+
+  const ids = new Set<string>();
+  profiles.forEach(p => {
+    p.tabs.forEach(t => {
+      if (ids.has(`${p.id}/${t.id}`)) throw new Error(`Duplicate tab id '${t.id}' in profile '${p.id}'.`);
+      ids.add(`${p.id}/${t.id}`);
+    });
+  });
+
+  const defaultProfile = profiles.some(p => p.id === raw.defaultProfile) ? raw.defaultProfile : profiles[0].id;
+  const proxy = typeof raw.proxy === 'string' ? raw.proxy.trim().replace(/\/+$/, '') : '';
+  return proxy ? { defaultProfile, profiles, proxy } : { defaultProfile, profiles };
+};
+
+/**
+ * Local edits from the settings screen win over the deployed config file
+ */
+export const loadDataSourceConfig = async (): Promise<{ config: DataSourceConfig; isLocal: boolean }> => {
+  const local = loadLocalDataSourceConfig();
+  if (local) return { config: local, isLocal: true };
+  return { config: await fetchDeployedDataSourceConfig(), isLocal: false };
+};
+
+export const fetchDeployedDataSourceConfig = async (): Promise<DataSourceConfig> => {
+  try {
+    const resp = await fetch(withCacheBust(CONFIG_URL));
+    if (!resp.ok) return DEFAULT_DATA_SOURCES;
+    return parseDataSourceConfig(await resp.json());
+  } catch {
+    return DEFAULT_DATA_SOURCES;
+  }
+};
+
+export const loadLocalDataSourceConfig = (): DataSourceConfig | null => {
+  try {
+    const stored = localStorage.getItem(LOCAL_CONFIG_KEY);
+    return stored ? parseDataSourceConfig(JSON.parse(stored)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveLocalDataSourceConfig = (config: DataSourceConfig | null) => {
+  if (config) localStorage.setItem(LOCAL_CONFIG_KEY, JSON.stringify(config));
+  else localStorage.removeItem(LOCAL_CONFIG_KEY);
+};
+
+export const loadActiveProfileId = () => localStorage.getItem(PROFILE_KEY);
+
+export const saveActiveProfileId = (id: string) => localStorage.setItem(PROFILE_KEY, id);
+
+export const getActiveProfile = (config: DataSourceConfig, profileId?: string | null) =>
+  config.profiles.find(p => p.id === profileId) ||
+  config.profiles.find(p => p.id === config.defaultProfile) ||
+  config.profiles[0];
+
+export const findTabByRole = (profile: DataSourceProfile, role: TabRole) =>
+  profile.tabs.find(t => t.role === role);
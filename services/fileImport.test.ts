@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { utils, write } from 'xlsx';
+import { TabSource } from '../types';
+import { parseDateValue } from '../utils/schema';
+import { importDataFile } from './fileImport';
+
+const tabs: TabSource[] = [
+  { id: 'summary', label: 'Report Summary', icon: '📊', role: 'summary' },
+  { id: 'new_issues', label: 'New Issues', icon: '🐛', role: 'issues' },
+];
+
+const workbookFile = (sheets: Record<string, any[][]>) => {
+  const wb = utils.book_new();
+  Object.entries(sheets).forEach(([name, rows]) => utils.book_append_sheet(wb, utils.aoa_to_sheet(rows), name));
+  return new File([write(wb, { type: 'array', bookType: 'xlsx' })], 'report.xlsx');
+};
+
+describe('importDataFile', () => {
+  it('imports XLSX date cells as ISO dates rather than the US m/d/yy display text', async () => {
+    const file = workbookFile({ Summary: [['Build', 'Date', 'Passed'], ['4.12.0', new Date(2025, 2, 12), 42]] });
+    const { imported: [imported] } = await importDataFile(file, tabs, 'summary');
+    const row = imported.data.rows[0];
+    expect(imported.tabId).toBe('summary');
+    expect(row.Date).toBe('2025-03-12');
+    expect(parseDateValue(row.Date)).toEqual(new Date(2025, 2, 12));
+    expect(row.Passed).toBe(42);
+  });
+
+  it('keeps the time of day of date-time cells', async () => {
+    const file = workbookFile({ Summary: [['Date'], [new Date(2025, 2, 12, 10, 30)]] });
+    const { imported: [imported] } = await importDataFile(file, tabs, 'summary');
+    expect(parseDateValue(imported.data.rows[0].Date)).toEqual(new Date(2025, 2, 12, 10, 30));
+  });
+
+  it('spreads a multi-sheet workbook over the tabs by name', async () => {
+    const file = workbookFile({
+      'New Issues': [['Build', 'Ticket'], ['4.12.0', 'QA-1']],
+      'Report Summary': [['Build', 'Date'], ['4.12.0', new Date(2025, 0, 5)]],
+    });
+    const { imported, unmatchedSheets } = await importDataFile(file, tabs, 'summary');
+    expect(imported.map(i => [i.tabId, i.sheetName])).toEqual([['summary', 'Report Summary'], ['new_issues', 'New Issues']]);
+    expect(imported[0].data.rows[0].Date).toBe('2025-01-05');
+    expect(unmatchedSheets).toEqual([]);
+  });
+
+  it('reports sheets named after no tab instead of loading them by position', async () => {
+    const file = workbookFile({ Summary: [['Build'], ['4.12.0']], Notes: [['Remark'], ['Ship it']] });
+    const { imported, unmatchedSheets } = await importDataFile(file, tabs, 'summary');
+    expect(imported.map(i => [i.tabId, i.sheetName])).toEqual([['summary', 'Summary']]);
+    expect(unmatchedSheets).toEqual(['Notes']);
+  });
+
+  it('rejects a workbook none of whose sheets is named after a tab', async () => {
+    const file = workbookFile({ Sheet1: [['Build'], ['4.12.0']], Sheet2: [['Remark'], ['Ship it']] });
+    await expect(importDataFile(file, tabs, 'summary')).rejects.toThrow("No sheet of 'report.xlsx' is named after a tab");
+  });
+
+  it('reads delimited text files into the target tab', async () => {
+    const file = new File(['Build\tPlatform\n4.12.0\tiOS\n'], 'export.txt');
+    const { imported: [imported] } = await importDataFile(file, tabs, 'new_issues');
+    expect(imported.tabId).toBe('new_issues');
+    expect(imported.data.rows).toEqual([{ Build: '4.12.0', Platform: 'iOS' }]);
+  });
+});
@@ -0,0 +1,96 @@
+import { read, SSF, utils, WorkSheet } from "xlsx";
+import { DashboardData, TabSource } from "../types";
+import { parseCSV } from "../utils/dataParser";
+
+export const ACCEPTED_FILE_TYPES = '.csv,.tsv,.txt,.xlsx,.xls';
+
+export interface ImportedTab {
+  tabId: string;
+  data: DashboardData;
+  fileName: string;
+  sheetName?: string;
+}
+
+export interface ImportResult {
+  imported: ImportedTab[];
+  // Workbook sheets whose names match no tab; they are left out rather than guessed
+  unmatchedSheets: string[];
+}
+
+const extensionOf = (name: string) => name.toLowerCase().split('.').pop() || '';
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Pairs workbook sheets with dashboard tabs whose label or id carries the
+ * same name. A sheet named after no tab, e.g. "Notes", is never loaded into
+ * a tab by position.
+ */
+const assignSheetsToTabs = (sheetNames: string[], tabs: TabSource[]) => {
+  const assignments = new Map<string, string>();
+  const freeSheets = [...sheetNames];
+
+  tabs.forEach(tab => {
+    const idx = freeSheets.findIndex(name => normalize(name) === normalize(tab.label) || normalize(name) === normalize(tab.id));
+    if (idx >= 0) assignments.set(tab.id, freeSheets.splice(idx, 1)[0]);
+  });
+  return { assignments, unmatchedSheets: freeSheets };
+};
+
+/**
+ * Converts a sheet to CSV with its date cells as ISO dates. Their display
+ * text follows the cell format, which SheetJS defaults to the US m/d/yy, and
+ * parseDateValue would read "3/12/25" day-first as 3 December.
+ */
+const sheetToCsv = (sheet: WorkSheet) => {
+  Object.keys(sheet).forEach(addr => {
+    const cell = sheet[addr];
+    if (addr[0] === '!' || cell?.t !== 'n' || !cell.z || !SSF.is_date(cell.z)) return;
+    cell.w = SSF.format(Number.isInteger(cell.v) ? 'yyyy-mm-dd' : 'yyyy-mm-dd hh:mm:ss', cell.v);
+  });
+  return utils.sheet_to_csv(sheet, { blankrows: false });
+};
+
+/**
+ * Parses a local CSV, TSV or Excel file into DashboardData. Delimited files
+ * load into `targetTabId`; workbooks spread one sheet per tab, by name.
+ */
+export const importDataFile = async (file: File, tabs: TabSource[], targetTabId: string): Promise<ImportResult> => {
+  const ext = extensionOf(file.name);
+
+  if (ext === 'xlsx' || ext === 'xls') {
+    // cellNF keeps each cell's number format, which tells date cells apart from plain numbers
+    const workbook = read(await file.arrayBuffer(), { type: 'array', cellNF: true });
+    const sheetNames = workbook.SheetNames.filter(name => !!workbook.Sheets[name]?.['!ref']);
+    if (sheetNames.length === 0) throw new Error(`'${file.name}' has no sheets with data.`);
+
+    // A single-sheet workbook behaves like a CSV dropped on the current tab
+    if (sheetNames.length === 1) {
+      const csv = sheetToCsv(workbook.Sheets[sheetNames[0]]);
+      return { imported: [{ tabId: targetTabId, data: parseCSV(csv), fileName: file.name, sheetName: sheetNames[0] }], unmatchedSheets: [] };
+    }
+
+    const { assignments, unmatchedSheets } = assignSheetsToTabs(sheetNames, tabs);
+    if (assignments.size === 0) {
+      throw new Error(`No sheet of '${file.name}' is named after a tab (${tabs.map(t => `'${t.label}'`).join(', ')}). Rename the sheets, or import them one at a time as CSV.`);
+    }
+    const imported = Array.from(assignments.entries()).map(([tabId, sheetName]) => ({
+      tabId,
+      data: parseCSV(sheetToCsv(workbook.Sheets[sheetName])),
+      fileName: file.name,
+      sheetName,
+    }));
+    return { imported, unmatchedSheets };
+  }
+
+  if (ext === 'csv' || ext === 'tsv' || ext === 'txt') {
+    const text = await file.text();
+    // .txt exports from Sheets are tab separated; sniff the header line to be sure
+    const newline = text.indexOf('\n');
+    const firstLine = newline >= 0 ? text.slice(0, newline) : text;
+    const delimiter = ext === 'tsv' || (ext === 'txt' && firstLine.includes('\t')) ? '\t' : ',';
+    return { imported: [{ tabId: targetTabId, data: parseCSV(text, delimiter), fileName: file.name }], unmatchedSheets: [] };
+  }
+
+  throw new Error(`Unsupported file type '.${ext}'. Use CSV, TSV or XLSX.`);
+};
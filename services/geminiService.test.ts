@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { BuildInfo, DashboardData } from '../types';
+import { analyzeBuildReadiness, buildReadinessPrompt, createGeminiClient, ModelClient, parseReadinessResponse } from './geminiService';
+
+/**
+ * Local fake model: replays canned responses in order (the last one repeats)
+ * and records the prompts it was given.
+ */
+const createCannedModelClient = (responses: (string | object)[]) => {
+  const prompts: string[] = [];
+  const client: ModelClient = {
+    generateJson: async prompt => {
+      prompts.push(prompt);
+      const next = responses[Math.min(prompts.length - 1, responses.length - 1)];
+      return typeof next === 'string' ? next : JSON.stringify(next);
+    },
+  };
+  return { client, prompts };
+};
+
+const summary: DashboardData = {
+  headers: ['Build', 'Platform', 'Passed', 'Failed'],
+  rows: [{ Build: '4.12.0', Platform: 'iOS', Passed: 190, Failed: 4 }],
+};
+const issues: DashboardData = {
+  headers: ['Ticket', 'Severity'],
+  rows: Array.from({ length: 160 }, (_, i) => ({ Ticket: `QA-${i}`, Severity: i === 0 ? 'Critical' : 'Minor' })),
+};
+const buildInfo: BuildInfo = { build: '4.12.0', platform: 'iOS', type: 'RC', startDate: '2025-03-12', status: 'In Progress', releasedToStore: null };
+
+const goResponse = {
+  verdict: 'GO',
+  confidence: 0.82,
+  risks: [{ title: 'One Critical crash', severity: 'high', detail: 'QA-0 is still open.' }],
+  narrative: 'Pass rate is high; one Critical issue needs a decision.',
+};
+
+describe('buildReadinessPrompt', () => {
+  it('scopes the prompt to the selected build', () => {
+    const prompt = buildReadinessPrompt({ summary, issues, currentBuildInfo: buildInfo });
+    expect(prompt).toContain('Assess release readiness of build 4.12.0 on iOS.');
+    expect(prompt).toContain('"status":"In Progress"');
+  });
+
+  it('falls back to all builds when none is selected', () => {
+    expect(buildReadinessPrompt({ summary, currentBuildInfo: null })).toContain('No single build is selected.');
+  });
+
+  it('samples large tabs and notes the omitted rows', () => {
+    const prompt = buildReadinessPrompt({ summary, issues, currentBuildInfo: null });
+    expect(prompt).toContain('## New Issues (160 rows)');
+    expect(prompt).toContain('(10 more rows omitted)');
+    expect(prompt).not.toContain('QA-150');
+  });
+
+  it('marks tabs without rows', () => {
+    expect(buildReadinessPrompt({ summary, currentBuildInfo: null })).toContain('## Ticket Validation\n(no rows in current filter)');
+  });
+});
+
+describe('parseReadinessResponse', () => {
+  it('reads a well-formed response', () => {
+    const insight = parseReadinessResponse(JSON.stringify(goResponse));
+    expect(insight).toMatchObject({ verdict: 'GO', confidence: 0.82, narrative: goResponse.narrative });
+    expect(insight.risks).toEqual(goResponse.risks);
+    expect(Date.parse(insight.generatedAt)).not.toBeNaN();
+  });
+
+  it('unwraps fenced JSON and normalises the verdict', () => {
+    const insight = parseReadinessResponse('```json\n{"verdict":"no go","confidence":0.4,"risks":[],"narrative":"Hold."}\n```');
+    expect(insight.verdict).toBe('NO_GO');
+  });
+
+  it('clamps confidence and repairs risks', () => {
+    const insight = parseReadinessResponse(JSON.stringify({
+      verdict: 'CONDITIONAL',
+      confidence: 7,
+      risks: [{ title: 'Flaky login', severity: 'urgent' }, { detail: 'untitled' }, ...Array.from({ length: 6 }, (_, i) => ({ title: `Risk ${i}`, severity: 'low', detail: '' }))],
+    }));
+    expect(insight.confidence).toBe(1);
+    expect(insight.risks).toHaveLength(5);
+    expect(insight.risks[0]).toEqual({ title: 'Flaky login', severity: 'medium', detail: '' });
+    expect(insight.narrative).toBe('');
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseReadinessResponse('{"verdict": "GO", "risks": [')).toThrow('AI response was not valid JSON.');
+    expect(() => parseReadinessResponse('')).toThrow('AI response was not valid JSON.');
+  });
+
+  it('rejects an unknown verdict', () => {
+    expect(() => parseReadinessResponse('{"verdict":"MAYBE"}')).toThrow("AI response had an unknown verdict 'MAYBE'.");
+    expect(() => parseReadinessResponse('null')).toThrow('unknown verdict');
+  });
+});
+
+describe('analyzeBuildReadiness', () => {
+  it('sends the prompt to the model client and parses its answer', async () => {
+    const { client, prompts } = createCannedModelClient([goResponse]);
+    const insight = await analyzeBuildReadiness({ summary, issues, currentBuildInfo: buildInfo }, client);
+    expect(insight.verdict).toBe('GO');
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0]).toContain('build 4.12.0 on iOS');
+  });
+
+  it('surfaces malformed model output as an error', async () => {
+    const { client } = createCannedModelClient(['Sure! Here is my analysis: GO']);
+    await expect(analyzeBuildReadiness({ summary, currentBuildInfo: null }, client)).rejects.toThrow('AI response was not valid JSON.');
+  });
+
+  it('passes model failures through', async () => {
+    const client: ModelClient = { generateJson: async () => { throw new Error('quota exceeded'); } };
+    await expect(analyzeBuildReadiness({ summary, currentBuildInfo: null }, client)).rejects.toThrow('quota exceeded');
+  });
+});
+
+describe('createGeminiClient', () => {
+  it('requires an API key', () => {
+    expect(() => createGeminiClient('')).toThrow('Set GEMINI_API_KEY');
+  });
+});
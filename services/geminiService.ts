@@ -0,0 +1,127 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { BuildInfo, DashboardData, ReadinessInsight, ReadinessRisk, ReadinessVerdict } from "../types";
+
+const MODEL_NAME = 'gemini-2.5-flash';
+
+// Keep prompts bounded; large backlogs are summarised by the model from a sample
+const MAX_ROWS_PER_TAB = 150;
+
+/**
+ * Minimal contract the analyst needs from a model. Anything that can turn a
+ * prompt into JSON text (Gemini, a local fake, a proxy) can be plugged in.
+ */
+export interface ModelClient {
+  generateJson: (prompt: string, schema: Record<string, any>) => Promise<string>;
+}
+
+export interface ReadinessInput {
+  summary?: DashboardData;
+  issues?: DashboardData;
+  validation?: DashboardData;
+  currentBuildInfo: BuildInfo | null;
+}
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    verdict: { type: Type.STRING, enum: ['GO', 'NO_GO', 'CONDITIONAL'] },
+    confidence: { type: Type.NUMBER },
+    risks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          severity: { type: Type.STRING, enum: ['high', 'medium', 'low'] },
+          detail: { type: Type.STRING },
+        },
+        required: ['title', 'severity', 'detail'],
+      },
+    },
+    narrative: { type: Type.STRING },
+  },
+  required: ['verdict', 'confidence', 'risks', 'narrative'],
+};
+
+export const createGeminiClient = (apiKey: string | undefined = process.env.API_KEY): ModelClient => {
+  if (!apiKey) {
+    throw new Error('AI analysis is not configured. Set GEMINI_API_KEY to enable insights.');
+  }
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    generateJson: async (prompt, schema) => {
+      const response = await ai.models.generateContent({
+        model: MODEL_NAME,
+        contents: prompt,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: schema,
+          temperature: 0.2,
+        },
+      });
+      return response.text || '';
+    },
+  };
+};
+
+const serializeTab = (label: string, data?: DashboardData) => {
+  if (!data || data.rows.length === 0) return `## ${label}\n(no rows in current filter)`;
+  const sample = data.rows.slice(0, MAX_ROWS_PER_TAB).map(r => data.headers.map(h => r[h] ?? ''));
+  const truncated = data.rows.length > MAX_ROWS_PER_TAB ? `\n(${data.rows.length - MAX_ROWS_PER_TAB} more rows omitted)` : '';
+  return `## ${label} (${data.rows.length} rows)\n${JSON.stringify({ headers: data.headers, rows: sample })}${truncated}`;
+};
+
+export const buildReadinessPrompt = ({ summary, issues, validation, currentBuildInfo }: ReadinessInput) => {
+  const scope = currentBuildInfo
+    ? `Assess release readiness of build ${currentBuildInfo.build} on ${currentBuildInfo.platform}.\nBuild details: ${JSON.stringify(currentBuildInfo)}`
+    : 'No single build is selected. Assess overall release readiness across the builds shown.';
+
+  return [
+    'You are a QA release-readiness analyst for mobile RC builds.',
+    scope,
+    'Use only the data below. Weigh pass rate, failed cases, open Critical/Major issues and unresolved validation tickets.',
+    'Return a verdict (GO, NO_GO or CONDITIONAL), a confidence between 0 and 1, up to 5 top risks ordered by impact, and a short narrative (max 120 words) a release manager can paste into a sign-off thread.',
+    serializeTab('Report Summary', summary),
+    serializeTab('New Issues', issues),
+    serializeTab('Ticket Validation', validation),
+  ].join('\n\n');
+};
+
+const VERDICTS: ReadinessVerdict[] = ['GO', 'NO_GO', 'CONDITIONAL'];
+const SEVERITIES: ReadinessRisk['severity'][] = ['high', 'medium', 'low'];
+
+export const parseReadinessResponse = (text: string): ReadinessInsight => {
+  let raw: any;
+  try {
+    // Models occasionally wrap JSON in a fenced block even in JSON mode
+    raw = JSON.parse(text.replace(/^\s*```(?:json)?|```\s*$/g, '').trim());
+  } catch {
+    throw new Error('AI response was not valid JSON.');
+  }
+
+  const verdict = String(raw?.verdict || '').toUpperCase().replace(/[\s-]/g, '_') as ReadinessVerdict;
+  if (!VERDICTS.includes(verdict)) throw new Error(`AI response had an unknown verdict '${raw?.verdict}'.`);
+
+  const confidence = Math.min(Math.max(Number(raw.confidence) || 0, 0), 1);
+  const risks: ReadinessRisk[] = (Array.isArray(raw.risks) ? raw.risks : [])
+    .filter((r: any) => r && r.title)
+    .slice(0, 5)
+    .map((r: any) => ({
+      title: String(r.title),
+      severity: SEVERITIES.includes(r.severity) ? r.severity : 'medium',
+      detail: String(r.detail || ''),
+    }));
+
+  return {
+    verdict,
+    confidence,
+    risks,
+    narrative: String(raw.narrative || ''),
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+export const analyzeBuildReadiness = async (input: ReadinessInput, client: ModelClient = createGeminiClient()): Promise<ReadinessInsight> => {
+  const text = await client.generateJson(buildReadinessPrompt(input), RESPONSE_SCHEMA);
+  return parseReadinessResponse(text);
+};
@@ -0,0 +1,35 @@
+import { DashboardData } from "../types";
+import { openDb, requestToPromise, SHEETS_STORE } from "./browserDb";
+
+export interface CachedSheet {
+  key: string;
+  data: DashboardData;
+  fetchedAt: string;
+}
+
+export const sheetCacheKey = (profileId: string, tabId: string) => `${profileId}/${tabId}`;
+
+export const readCachedSheets = async (profileId: string, tabIds: string[]): Promise<Record<string, CachedSheet>> => {
+  const db = await openDb();
+  if (!db) return {};
+  try {
+    const store = db.transaction(SHEETS_STORE, 'readonly').objectStore(SHEETS_STORE);
+    const entries = await Promise.all(tabIds.map(id => requestToPromise<CachedSheet | undefined>(store.get(sheetCacheKey(profileId, id)))));
+    const result: Record<string, CachedSheet> = {};
+    entries.forEach((entry, i) => { if (entry) result[tabIds[i]] = entry; });
+    return result;
+  } catch {
+    return {};
+  }
+};
+
+export const writeCachedSheet = async (profileId: string, tabId: string, data: DashboardData, fetchedAt: string) => {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    const store = db.transaction(SHEETS_STORE, 'readwrite').objectStore(SHEETS_STORE);
+    await requestToPromise(store.put({ key: sheetCacheKey(profileId, tabId), data, fetchedAt } as CachedSheet));
+  } catch {
+    // Quota or serialization failures only cost us the offline copy
+  }
+};
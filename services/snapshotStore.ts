@@ -0,0 +1,118 @@
+import { DashboardData } from "../types";
+import { openDb, requestToPromise, SNAPSHOT_TABS_STORE, SNAPSHOTS_STORE } from "./browserDb";
+
+export interface SnapshotMeta {
+  id: string;
+  profileId: string;
+  takenAt: string;
+  // Tab id -> content hash of its data in the snapshot-tabs store
+  tabs: Record<string, string>;
+  rowCounts: Record<string, number>;
+}
+
+interface SnapshotTab {
+  hash: string;
+  data: DashboardData;
+}
+
+// Oldest snapshots beyond this are dropped, per profile
+const MAX_SNAPSHOTS = 100;
+
+// 53-bit string hash (cyrb53); collisions across one profile's history are not a practical concern
+const hashString = (str: string) => {
+  let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Only what the sheet said counts; parse warnings and inferred schema are derived from it
+export const hashDashboardData = (data: DashboardData) => hashString(JSON.stringify([data.headers, data.rows]));
+
+const sameTabs = (a: Record<string, string>, b: Record<string, string>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(k => a[k] === b[k]);
+};
+
+const readAllSnapshots = async (db: IDBDatabase) =>
+  requestToPromise<SnapshotMeta[]>(db.transaction(SNAPSHOTS_STORE, 'readonly').objectStore(SNAPSHOTS_STORE).getAll());
+
+/**
+ * Every snapshot of a profile, oldest first. Empty where IndexedDB is unavailable.
+ */
+export const listSnapshots = async (profileId: string): Promise<SnapshotMeta[]> => {
+  const db = await openDb();
+  if (!db) return [];
+  try {
+    return (await readAllSnapshots(db))
+      .filter(s => s.profileId === profileId)
+      .sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  } catch {
+    return [];
+  }
+};
+
+export const loadSnapshotData = async (snapshot: SnapshotMeta): Promise<Record<string, DashboardData>> => {
+  const db = await openDb();
+  if (!db) throw new Error('Snapshot history is not available in this browser.');
+  const store = db.transaction(SNAPSHOT_TABS_STORE, 'readonly').objectStore(SNAPSHOT_TABS_STORE);
+  const tabIds = Object.keys(snapshot.tabs);
+  const entries = await Promise.all(tabIds.map(id => requestToPromise<SnapshotTab | undefined>(store.get(snapshot.tabs[id]))));
+  const result: Record<string, DashboardData> = {};
+  entries.forEach((entry, i) => { if (entry) result[tabIds[i]] = entry.data; });
+  return result;
+};
+
+// Drops the profile's oldest snapshots past the cap, then tab contents no snapshot points at
+const pruneSnapshots = async (db: IDBDatabase, profileId: string) => {
+  const all = await readAllSnapshots(db);
+  const own = all.filter(s => s.profileId === profileId).sort((a, b) => a.takenAt.localeCompare(b.takenAt));
+  const expired = own.slice(0, Math.max(0, own.length - MAX_SNAPSHOTS));
+  if (expired.length === 0) return;
+
+  const expiredIds = new Set(expired.map(s => s.id));
+  const referenced = new Set(all.filter(s => !expiredIds.has(s.id)).flatMap(s => Object.values(s.tabs)));
+  const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_TABS_STORE], 'readwrite');
+  const tabStore = tx.objectStore(SNAPSHOT_TABS_STORE);
+  expired.forEach(s => tx.objectStore(SNAPSHOTS_STORE).delete(s.id));
+  const hashes = await requestToPromise(tabStore.getAllKeys());
+  hashes.forEach(hash => { if (!referenced.has(String(hash))) tabStore.delete(hash); });
+};
+
+/**
+ * Records the tabs of a successful sync. Identical tab contents are stored
+ * once, and nothing is recorded when no tab changed since the latest
+ * snapshot. Resolves to the new snapshot, or null when none was taken.
+ */
+export const recordSnapshot = async (profileId: string, data: Record<string, DashboardData>, takenAt = new Date().toISOString()): Promise<SnapshotMeta | null> => {
+  const db = await openDb();
+  if (!db) return null;
+  try {
+    const tabs: Record<string, string> = {};
+    const rowCounts: Record<string, number> = {};
+    Object.entries(data).forEach(([tabId, d]) => {
+      tabs[tabId] = hashDashboardData(d);
+      rowCounts[tabId] = d.rows.length;
+    });
+
+    const previous = (await listSnapshots(profileId)).pop();
+    if (previous && sameTabs(previous.tabs, tabs)) return null;
+
+    const snapshot: SnapshotMeta = { id: `${profileId}/${takenAt}`, profileId, takenAt, tabs, rowCounts };
+    const tx = db.transaction([SNAPSHOTS_STORE, SNAPSHOT_TABS_STORE], 'readwrite');
+    const tabStore = tx.objectStore(SNAPSHOT_TABS_STORE);
+    Object.entries(data).forEach(([tabId, d]) => tabStore.put({ hash: tabs[tabId], data: d } as SnapshotTab));
+    await requestToPromise(tx.objectStore(SNAPSHOTS_STORE).put(snapshot));
+
+    await pruneSnapshots(db, profileId);
+    return snapshot;
+  } catch {
+    // Quota or serialization failures only cost us this point in the history
+    return null;
+  }
+};
@@ -1,5 +1,128 @@
 
+export interface ParseWarning {
+  scope: 'header' | 'row';
+  // 1-based line in the source where the offending record starts
+  row: number;
+  message: string;
+}
+
+export type ColumnType = 'number' | 'percentage' | 'date' | 'version' | 'enum' | 'text' | 'url';
+
+export interface ColumnSchema {
+  name: string;
+  type: ColumnType;
+  // Distinct values, only for enum columns
+  values?: string[];
+}
+
 export interface DashboardData {
   headers: string[];
   rows: Record<string, any>[];
+  warnings?: ParseWarning[];
+  schema?: Record<string, ColumnSchema>;
+}
+
+export interface BuildInfo {
+  build: string;
+  platform: string;
+  // Null when the summary sheet has no such column or the cell is blank
+  type: string | null;
+  startDate: string | null;
+  status: string | null;
+  releasedToStore: string | null;
+}
+
+export type ReadinessVerdict = 'GO' | 'NO_GO' | 'CONDITIONAL';
+
+export interface ReadinessRisk {
+  title: string;
+  severity: 'high' | 'medium' | 'low';
+  detail: string;
+}
+
+export interface ReadinessInsight {
+  verdict: ReadinessVerdict;
+  confidence: number;
+  risks: ReadinessRisk[];
+  narrative: string;
+  generatedAt: string;
 }
+
+export type LogicalField =
+  | 'build' | 'platform' | 'date' | 'severity' | 'status' | 'buildType'
+  | 'automation' | 'manual' | 'releasedToStore'
+  | 'total' | 'executed' | 'passed' | 'failed' | 'notConsidered'
+  | 'critical' | 'major' | 'minor'
+  | 'title' | 'ticket'
+  | 'module' | 'assignee' | 'closedDate' | 'releaseDate';
+
+// Per-field sheet column overrides; '' explicitly leaves a field unmapped
+export type ColumnMapping = Partial<Record<LogicalField, string>>;
+
+export type TabColumnMappings = Record<string, ColumnMapping>;
+
+export type TabRole = 'summary' | 'issues' | 'validation' | 'custom';
+
+/**
+ * A dashboard tab and where its CSV comes from. Resolution order: a direct
+ * `url`, then a `spreadsheetId` export, then the profile's published sheet.
+ */
+export interface TabSource {
+  id: string;
+  label: string;
+  icon: string;
+  role: TabRole;
+  url?: string;
+  spreadsheetId?: string;
+  gid?: string;
+}
+
+export interface DataSourceProfile {
+  id: string;
+  name: string;
+  title: string;
+  // The 2PACX-... id from "Publish to web"; enables pubhtml tab discovery
+  publishedId?: string;
+  // Sprint cadence behind the "This sprint" date range
+  sprint?: SprintCadence;
+  tabs: TabSource[];
+}
+
+export interface SprintCadence {
+  // First day of any sprint (YYYY-MM-DD); the others follow every lengthDays
+  start: string;
+  lengthDays: number;
+}
+
+export interface DataSourceConfig {
+  defaultProfile: string;
+  profiles: DataSourceProfile[];
+  // Base URL of the sheet proxy (e.g. "/api"); when set, tabs are read through it instead of from Google
+  proxy?: string;
+}
+
+// Marks a tab whose data came from a user-imported file instead of its sheet
+export interface LocalDataSource {
+  fileName: string;
+  sheetName?: string;
+  importedAt: string;
+}
+
+export type GateMetric =
+  | 'passRate' | 'failedCount' | 'automationCoverage'
+  | 'openCriticalIssues' | 'openMajorIssues'
+  | 'unfixedValidationTickets';
+
+export type GateOperator = '>=' | '<=';
+
+export interface GateRule {
+  id: string;
+  metric: GateMetric;
+  operator: GateOperator;
+  threshold: number;
+  // Outcome when the rule fails
+  severity: 'warn' | 'block';
+  enabled: boolean;
+}
+
+export type GateVerdict = 'PASS' | 'WARN' | 'BLOCK';
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { BuildComparisonColumn, buildRefLabel, compareBuilds, listBuildRefs, rowsForBuild, TabInput } from './buildComparison';
+
+const summary: TabInput = {
+  data: {
+    headers: ['Build', 'Platform', 'Executed', 'Passed', 'Failed', 'Automation', 'Manual'],
+    rows: [
+      { Build: '4.12.0', Platform: 'iOS', Executed: 100, Passed: 90, Failed: 10, Automation: 60, Manual: 40 },
+      { Build: '4.12.0', Platform: 'Android', Executed: 100, Passed: 80, Failed: 20, Automation: 50, Manual: 50 },
+      { Build: '4.13.0', Platform: 'iOS', Executed: 200, Passed: 190, Failed: 10, Automation: 150, Manual: 50 },
+      { Build: '4.13.0', Platform: 'Android', Executed: 100, Passed: 70, Failed: 30, Automation: 50, Manual: 50 },
+    ],
+  },
+  cols: { build: 'Build', platform: 'Platform', executed: 'Executed', passed: 'Passed', failed: 'Failed', automation: 'Automation', manual: 'Manual' },
+};
+
+// No platform column, as in the New Issues tab
+const issues: TabInput = {
+  data: {
+    headers: ['Build', 'Ticket', 'Title', 'Severity'],
+    rows: [
+      { Build: '4.12.0', Ticket: 'QA-1', Title: '[iOS] Crash on login', Severity: 'Critical' },
+      { Build: '4.12.0', Ticket: 'QA-2', Title: 'Slow sync', Severity: 'Minor' },
+      { Build: '4.12.0', Ticket: 'QA-3', Title: 'Back button ignored [android]', Severity: 'Major' },
+      { Build: '4.13.0', Ticket: 'QA-1', Title: '[iOS] Crash on login', Severity: 'Critical' },
+      { Build: '4.13.0', Ticket: 'QA-4', Title: '[Beta] Dark mode glitch', Severity: 'Minor' },
+    ],
+  },
+  cols: { build: 'Build', ticket: 'Ticket', title: 'Title', severity: 'Severity' },
+};
+
+const validation: TabInput = {
+  data: {
+    headers: ['Build', 'Ticket', 'Status'],
+    rows: [
+      { Build: '4.12.0', Ticket: 'QA-1', Status: 'Open' },
+      { Build: '4.12.0', Ticket: 'QA-2', Status: 'Fixed' },
+      { Build: '4.13.0', Ticket: 'QA-1', Status: 'Fixed' },
+      { Build: '4.13.0', Ticket: 'QA-2', Status: 'FIXED' },
+      { Build: '4.13.0', Ticket: 'QA-4', Status: 'Open' },
+    ],
+  },
+  cols: { build: 'Build', ticket: 'Ticket', status: 'Status' },
+};
+
+const ALL_REFS = [
+  { build: '4.13.0', platform: 'iOS' },
+  { build: '4.12.0', platform: 'iOS' },
+  { build: '4.13.0', platform: 'Android' },
+  { build: '4.12.0', platform: 'Android' },
+];
+
+const byLabel = (columns: BuildComparisonColumn[]) => Object.fromEntries(columns.map(c => [buildRefLabel(c.ref), c]));
+const tickets = (list: { key: string; shared: boolean }[]) => list.map(i => `${i.key}${i.shared ? ' (shared)' : ''}`);
+
+describe('compareBuilds', () => {
+  it('orders columns oldest first and measures each against the one before', () => {
+    const columns = compareBuilds([ALL_REFS[0], ALL_REFS[1]], summary, issues, validation);
+    expect(columns.map(c => buildRefLabel(c.ref))).toEqual(['4.12.0 · iOS', '4.13.0 · iOS']);
+    expect(columns[0]).toMatchObject({ executed: 100, passRate: 90, passRateDelta: null, failedDelta: null });
+    expect(columns[1]).toMatchObject({ executed: 200, passRate: 95, passRateDelta: 5, failedDelta: 0, automationDelta: 90, manualDelta: 10 });
+  });
+
+  it('lists issues only under the platform their title is tagged with, and untagged ones as shared', () => {
+    const columns = byLabel(compareBuilds(ALL_REFS, summary, issues, validation));
+    expect(tickets(columns['4.12.0 · iOS'].newIssues)).toEqual(['qa-1', 'qa-2 (shared)']);
+    expect(tickets(columns['4.12.0 · Android'].newIssues)).toEqual(['qa-2 (shared)', 'qa-3']);
+    // "[Beta]" is not a platform being compared
+    expect(tickets(columns['4.13.0 · iOS'].newIssues)).toEqual(['qa-4 (shared)']);
+    expect(tickets(columns['4.13.0 · Android'].newIssues)).toEqual(['qa-4 (shared)']);
+  });
+
+  it('carries an issue over only from an earlier build of the same platform', () => {
+    const columns = byLabel(compareBuilds(ALL_REFS, summary, issues, validation));
+    expect(tickets(columns['4.12.0 · iOS'].carriedOverIssues)).toEqual([]);
+    expect(tickets(columns['4.13.0 · iOS'].carriedOverIssues)).toEqual(['qa-1']);
+    expect(tickets(columns['4.13.0 · Android'].carriedOverIssues)).toEqual([]);
+  });
+
+  it('follows the platform column of an issues tab that has one, sharing rows left blank', () => {
+    const withPlatform: TabInput = {
+      data: {
+        headers: ['Build', 'Platform', 'Ticket', 'Title'],
+        rows: [
+          { Build: '4.12.0', Platform: 'iOS', Ticket: 'QA-1', Title: '[Android] Mislabelled' },
+          { Build: '4.12.0', Platform: 'Android', Ticket: 'QA-2', Title: 'Back button ignored' },
+          { Build: '4.12.0', Platform: '', Ticket: 'QA-3', Title: 'Slow sync' },
+        ],
+      },
+      cols: { build: 'Build', platform: 'Platform', ticket: 'Ticket', title: 'Title' },
+    };
+    const columns = byLabel(compareBuilds([ALL_REFS[1], ALL_REFS[3]], summary, withPlatform, validation));
+    expect(tickets(columns['4.12.0 · iOS'].newIssues)).toEqual(['qa-1', 'qa-3 (shared)']);
+    expect(tickets(columns['4.12.0 · Android'].newIssues)).toEqual(['qa-2', 'qa-3 (shared)']);
+  });
+
+  it('lists every issue of the build, unshared, when the summary has no platforms', () => {
+    const noPlatform: TabInput = { data: summary.data, cols: { ...summary.cols, platform: undefined } };
+    const [first] = compareBuilds([{ build: '4.12.0', platform: '' }, { build: '4.13.0', platform: '' }], noPlatform, issues, validation);
+    expect(first.executed).toBe(200);
+    expect(tickets(first.newIssues)).toEqual(['qa-1', 'qa-2', 'qa-3']);
+  });
+
+  it('reports ticket status changes after the baseline, ignoring letter case', () => {
+    const [baseline, next] = compareBuilds([ALL_REFS[1], ALL_REFS[0]], summary, issues, validation);
+    expect(baseline.validationChanges).toEqual([]);
+    expect(next.validationChanges).toEqual([
+      { ticket: 'QA-1', from: 'Open', to: 'Fixed' },
+      { ticket: 'QA-4', from: null, to: 'Open' },
+    ]);
+  });
+});
+
+describe('rowsForBuild', () => {
+  it('matches builds loosely and narrows by platform only where the tab has one', () => {
+    expect(rowsForBuild(summary, { build: 'RC 4.12.0', platform: 'ios' })).toHaveLength(1);
+    expect(rowsForBuild(issues, { build: 'v4.12.0', platform: 'iOS' })).toHaveLength(3);
+    expect(rowsForBuild({ data: summary.data }, { build: '4.12.0', platform: '' })).toEqual([]);
+  });
+});
+
+describe('listBuildRefs', () => {
+  it('lists each build and platform once, oldest first', () => {
+    const data = { headers: ['Build', 'Platform'], rows: [...summary.data!.rows, { Build: '4.9.0', Platform: 'iOS' }, { Build: '4.12.0', Platform: 'iOS' }, { Build: '', Platform: 'iOS' }] };
+    expect(listBuildRefs({ data, cols: summary.cols }).map(buildRefLabel)).toEqual(['4.9.0 · iOS', '4.12.0 · Android', '4.12.0 · iOS', '4.13.0 · Android', '4.13.0 · iOS']);
+  });
+});
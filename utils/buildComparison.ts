@@ -0,0 +1,164 @@
+import { DashboardData } from "../types";
+import { ResolvedColumns } from "./columnMapping";
+import { getNumber, getText } from "./schema";
+import { compareVersions, smartCompare } from "./smartCompare";
+
+export interface BuildRef {
+  build: string;
+  platform: string;
+}
+
+export interface TabInput {
+  data?: DashboardData;
+  cols?: Partial<ResolvedColumns>;
+}
+
+export interface ComparedIssue {
+  key: string;
+  title: string;
+  severity: string;
+  // Logged against the build without a platform, so listed under each of its platforms
+  shared: boolean;
+}
+
+export interface ValidationChange {
+  ticket: string;
+  from: string | null;
+  to: string;
+}
+
+export interface BuildComparisonColumn {
+  ref: BuildRef;
+  executed: number;
+  passed: number;
+  failed: number;
+  passRate: number;
+  automation: number;
+  manual: number;
+  // Deltas against the previous column; null for the baseline
+  passRateDelta: number | null;
+  failedDelta: number | null;
+  automationDelta: number | null;
+  manualDelta: number | null;
+  newIssues: ComparedIssue[];
+  carriedOverIssues: ComparedIssue[];
+  validationChanges: ValidationChange[];
+}
+
+export const buildRefKey = (ref: BuildRef) => `${ref.build}|${ref.platform}`;
+
+export const buildRefLabel = (ref: BuildRef) => ref.platform ? `${ref.build} · ${ref.platform}` : ref.build;
+
+// Rows of a tab that belong to a build; platform only narrows tabs that have a platform column
+export const rowsForBuild = ({ data, cols }: TabInput, ref: BuildRef) => {
+  if (!data || !cols?.build) return [];
+  return data.rows.filter(r =>
+    smartCompare(r[cols.build!], ref.build) &&
+    (!ref.platform || !cols.platform || smartCompare(r[cols.platform], ref.platform))
+  );
+};
+
+const issueKey = (row: Record<string, any>, cols: Partial<ResolvedColumns>) => {
+  const ticket = getText(row, cols.ticket);
+  if (ticket) return ticket.toLowerCase();
+  return getText(row, cols.title).toLowerCase().replace(/\s+/g, ' ');
+};
+
+// Tabs without a platform column may still tag titles, e.g. "[iOS] Crash on login"; blank when neither tells
+const issuePlatform = (row: Record<string, any>, cols: Partial<ResolvedColumns>, platforms: string[]) => {
+  if (cols.platform) return getText(row, cols.platform);
+  const tags = Array.from(getText(row, cols.title).matchAll(/\[([^\]]+)\]/g), m => m[1]);
+  return platforms.find(p => tags.some(t => smartCompare(t, p))) || '';
+};
+
+/**
+ * Every distinct build/platform pair in the summary tab, oldest first
+ */
+export const listBuildRefs = ({ data, cols }: TabInput): BuildRef[] => {
+  if (!data || !cols?.build) return [];
+  const seen = new Map<string, BuildRef>();
+  data.rows.forEach(r => {
+    const ref = { build: getText(r, cols.build), platform: getText(r, cols.platform) };
+    if (ref.build && !seen.has(buildRefKey(ref))) seen.set(buildRefKey(ref), ref);
+  });
+  return Array.from(seen.values()).sort((a, b) => compareVersions(a.build, b.build) || a.platform.localeCompare(b.platform));
+};
+
+/**
+ * Compares builds side by side, ordered oldest to newest so each column's
+ * deltas, new issues and ticket changes are relative to the one before it.
+ * An issue is carried over when an earlier build of the same platform had it.
+ */
+export const compareBuilds = (refs: BuildRef[], summary: TabInput, issues: TabInput, validation: TabInput): BuildComparisonColumn[] => {
+  const ordered = [...refs].sort((a, b) => compareVersions(a.build, b.build) || a.platform.localeCompare(b.platform));
+  const platforms = Array.from(new Set(ordered.map(r => r.platform).filter(Boolean)));
+  const columns: BuildComparisonColumn[] = [];
+  const seenIssueKeys = new Map<string, Set<string>>();
+  let prevStatuses = new Map<string, string>();
+
+  ordered.forEach((ref, i) => {
+    const sumCols = summary.cols || {};
+    const sumRows = rowsForBuild(summary, ref);
+    const total = (field: keyof ResolvedColumns) => sumRows.reduce((acc, r) => acc + getNumber(r, sumCols[field]), 0);
+
+    const executed = total('executed');
+    const passed = total('passed');
+    const failed = total('failed');
+    const automation = total('automation');
+    const manual = total('manual');
+    const passRate = executed ? (passed / executed) * 100 : 0;
+
+    const issueCols = issues.cols || {};
+    const buildIssues: ComparedIssue[] = rowsForBuild(issues, { build: ref.build, platform: '' })
+      .map(r => ({ row: r, platform: issuePlatform(r, issueCols, platforms) }))
+      .filter(({ platform }) => !ref.platform || !platform || smartCompare(platform, ref.platform))
+      .map(({ row, platform }) => ({
+        key: issueKey(row, issueCols),
+        title: getText(row, issueCols.title) || getText(row, issueCols.ticket) || 'Untitled issue',
+        severity: getText(row, issueCols.severity),
+        shared: !!ref.platform && !platform,
+      }));
+    const seen = seenIssueKeys.get(ref.platform) || new Set<string>();
+    seenIssueKeys.set(ref.platform, seen);
+    const newIssues = buildIssues.filter(iss => !iss.key || !seen.has(iss.key));
+    const carriedOverIssues = buildIssues.filter(iss => iss.key && seen.has(iss.key));
+    buildIssues.forEach(iss => iss.key && seen.add(iss.key));
+
+    const valCols = validation.cols || {};
+    const statuses = new Map<string, string>();
+    rowsForBuild(validation, ref).forEach(r => {
+      const ticket = getText(r, valCols.ticket) || getText(r, valCols.title);
+      if (ticket) statuses.set(ticket, getText(r, valCols.status));
+    });
+    // The baseline has nothing to change from
+    const validationChanges: ValidationChange[] = [];
+    if (i > 0) {
+      statuses.forEach((to, ticket) => {
+        const from = prevStatuses.get(ticket);
+        if (from === undefined) validationChanges.push({ ticket, from: null, to });
+        else if (from.toLowerCase() !== to.toLowerCase()) validationChanges.push({ ticket, from, to });
+      });
+    }
+    prevStatuses = statuses;
+
+    const prev = columns[i - 1];
+    columns.push({
+      ref,
+      executed,
+      passed,
+      failed,
+      passRate,
+      automation,
+      manual,
+      passRateDelta: prev ? passRate - prev.passRate : null,
+      failedDelta: prev ? failed - prev.failed : null,
+      automationDelta: prev ? automation - prev.automation : null,
+      manualDelta: prev ? manual - prev.manual : null,
+      newIssues,
+      carriedOverIssues,
+      validationChanges,
+    });
+  });
+
+  return columns;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { computeBuildMetrics, isMetricsWindow, movingAverage, sortBuildRows } from './buildMetrics';
+
+// Listed out of order on purpose; 1.3.0 executed nothing
+const summaryRows = [
+  { Build: '1.4.0', Date: '2025-03-21', Executed: 100, Passed: 60, Failed: 40, Critical: 0, Major: 0, Minor: 0 },
+  { Build: '1.0.0', Date: '2025-03-01', Executed: 100, Passed: 90, Failed: 10, Critical: 0, Major: 0, Minor: 0 },
+  { Build: '1.6.0', Date: '2025-03-31', Executed: 100, Passed: 40, Failed: 60, Critical: 0, Major: 0, Minor: 0 },
+  { Build: '1.1.0', Date: '2025-03-06', Executed: 100, Passed: 80, Failed: 20, Critical: 0, Major: 0, Minor: 0 },
+  { Build: '1.3.0', Date: '2025-03-16', Executed: 0, Passed: 0, Failed: 0, Critical: 0, Major: 0, Minor: 0 },
+  { Build: '1.5.0', Date: '2025-03-26', Executed: 100, Passed: 50, Failed: 50, Critical: 3, Major: 1, Minor: 0 },
+  { Build: '1.2.0', Date: '2025-03-11', Executed: 100, Passed: 70, Failed: 30, Critical: 0, Major: 0, Minor: 0 },
+];
+const cols = { build: 'Build', date: 'Date', executed: 'Executed', passed: 'Passed', failed: 'Failed', critical: 'Critical', major: 'Major', minor: 'Minor' };
+
+const issues = {
+  data: {
+    headers: ['Build', 'Ticket', 'Severity'],
+    rows: [
+      { Build: '1.4.0', Ticket: 'QA-1', Severity: 'Critical' },
+      { Build: '1.4.0', Ticket: 'QA-2', Severity: 'Major' },
+      { Build: '1.4.0', Ticket: 'QA-3', Severity: 'Minor' },
+      { Build: '1.4.0', Ticket: 'QA-4', Severity: 'minor' },
+      { Build: '1.6.0', Ticket: 'QA-5', Severity: 'Trivial' },
+    ],
+  },
+  cols: { build: 'Build', ticket: 'Ticket', severity: 'Severity' },
+};
+
+const TODAY = new Date(2025, 3, 14);
+const metrics = (window: Parameters<typeof computeBuildMetrics>[3], rows: Record<string, any>[] = summaryRows) => computeBuildMetrics(rows, cols, issues, window, TODAY);
+
+describe('sortBuildRows', () => {
+  it('orders by date over version, and by version when undated', () => {
+    expect(sortBuildRows([{ Build: '1.0.0', Date: '2025-02-01' }, { Build: '2.0.0', Date: '2025-01-01' }], cols).map(r => r.Build)).toEqual(['2.0.0', '1.0.0']);
+    expect(sortBuildRows([{ Build: '1.10.0', Date: '' }, { Build: '1.9.0' }], cols).map(r => r.Build)).toEqual(['1.9.0', '1.10.0']);
+  });
+});
+
+describe('computeBuildMetrics', () => {
+  it('keeps the newest builds of a build-count window, oldest first', () => {
+    expect(metrics('last5').map(p => p.name)).toEqual(['1.2.0', '1.3.0', '1.4.0', '1.5.0', '1.6.0']);
+    expect(metrics('last10')).toHaveLength(7);
+    expect(metrics('all').map(p => p.name)[0]).toBe('1.0.0');
+  });
+
+  it('keeps builds dated within a day window, counting today, and drops undated ones', () => {
+    expect(metrics('days30').map(p => p.name)).toEqual(['1.3.0', '1.4.0', '1.5.0', '1.6.0']);
+    const undated = [...summaryRows, { Build: '1.7.0', Date: '', Executed: 10, Passed: 10 }];
+    expect(metrics('days30', undated).map(p => p.name)).not.toContain('1.7.0');
+    expect(metrics('all', undated).map(p => p.name)).toContain('1.7.0');
+  });
+
+  it('leaves rates null for a build that executed nothing', () => {
+    const point = metrics('all').find(p => p.name === '1.3.0')!;
+    expect(point).toMatchObject({ Executed: 0, PassRate: null, DefectDensity: null, AutomationShare: null });
+  });
+
+  it('smooths across builds before the window and skips builds without a rate', () => {
+    const points = metrics('last5');
+    expect(points.map(p => p.PassRate)).toEqual([70, null, 60, 50, 40]);
+    // 1.2.0 averages 1.0.0 and 1.1.0 too, though they fall outside the window
+    expect(points.map(p => p.PassRateAvg)).toEqual([80, 75, 65, 55, 50]);
+  });
+
+  it('counts severities from the issues tab, else from the summary row', () => {
+    const byName = Object.fromEntries(metrics('all').map(p => [p.name, p]));
+    expect(byName['1.4.0']).toMatchObject({ Critical: 1, Major: 1, Minor: 2, DefectDensity: 4 });
+    // No issues logged against 1.5.0
+    expect(byName['1.5.0']).toMatchObject({ Critical: 3, Major: 1, Minor: 0, DefectDensity: 4 });
+    // Only an unrecognised severity logged against 1.6.0
+    expect(byName['1.6.0']).toMatchObject({ Critical: 0, Major: 0, Minor: 0, DefectDensity: 0 });
+    expect(computeBuildMetrics(summaryRows, cols, {}, 'all', TODAY).find(p => p.name === '1.4.0')).toMatchObject({ Critical: 0, DefectDensity: 0 });
+  });
+});
+
+describe('movingAverage', () => {
+  it('stays null until the first value', () => {
+    expect(movingAverage([null, 10, 20, 30, null], 2)).toEqual([null, 10, 15, 25, 30]);
+  });
+});
+
+describe('isMetricsWindow', () => {
+  it('accepts only known windows', () => {
+    expect(isMetricsWindow('days90')).toBe(true);
+    expect(isMetricsWindow('days60')).toBe(false);
+    expect(isMetricsWindow('constructor')).toBe(false);
+  });
+});
@@ -0,0 +1,145 @@
+import { ResolvedColumns } from "./columnMapping";
+import { rowsForBuild, TabInput } from "./buildComparison";
+import { addDays, startOfDay, toISODate } from "./dateRanges";
+import { getDate, getNumber, getText } from "./schema";
+import { compareVersions } from "./smartCompare";
+
+export type MetricsWindow = 'last5' | 'last10' | 'last20' | 'all' | 'days30' | 'days90' | 'days180';
+
+export const METRICS_WINDOWS: Record<MetricsWindow, { label: string; builds?: number; days?: number }> = {
+  last5: { label: 'Last 5 builds', builds: 5 },
+  last10: { label: 'Last 10 builds', builds: 10 },
+  last20: { label: 'Last 20 builds', builds: 20 },
+  all: { label: 'All builds' },
+  days30: { label: 'Last 30 days', days: 30 },
+  days90: { label: 'Last 90 days', days: 90 },
+  days180: { label: 'Last 180 days', days: 180 },
+};
+
+export const DEFAULT_METRICS_WINDOW: MetricsWindow = 'last10';
+
+export const isMetricsWindow = (value: any): value is MetricsWindow =>
+  typeof value === 'string' && Object.hasOwn(METRICS_WINDOWS, value);
+
+// Trailing builds averaged into the smoothed series
+export const MOVING_AVERAGE_SPAN = 3;
+
+export interface BuildMetricsPoint {
+  name: string;
+  platform: string;
+  fullName: string;
+  date: string | null;
+  Passed: number;
+  Failed: number;
+  Executed: number;
+  Critical: number;
+  Major: number;
+  Minor: number;
+  Automation: number;
+  Manual: number;
+  // Derived series; null when the build executed nothing
+  PassRate: number | null;
+  DefectDensity: number | null;
+  AutomationShare: number | null;
+  PassRateAvg: number | null;
+  DefectDensityAvg: number | null;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Orders summary rows oldest to newest: by their parsed date when both rows
+ * have one, otherwise by build version. The sheet's own row order is not
+ * trusted; teams append at the top or the bottom.
+ */
+export const sortBuildRows = (rows: Record<string, any>[], cols: Partial<ResolvedColumns>) =>
+  [...rows].sort((a, b) => {
+    const da = getDate(a, cols.date);
+    const db = getDate(b, cols.date);
+    if (da && db && da.getTime() !== db.getTime()) return da.getTime() - db.getTime();
+    return compareVersions(getText(a, cols.build), getText(b, cols.build)) || getText(a, cols.platform).localeCompare(getText(b, cols.platform));
+  });
+
+const applyWindow = (rows: Record<string, any>[], cols: Partial<ResolvedColumns>, window: MetricsWindow, today: Date) => {
+  const { builds, days } = METRICS_WINDOWS[window];
+  if (builds) return rows.slice(-builds);
+  if (days) {
+    const from = addDays(startOfDay(today), 1 - days);
+    return rows.filter(r => { const d = getDate(r, cols.date); return !!d && d >= from; });
+  }
+  return rows;
+};
+
+// Trailing mean over the last `span` non-null values, null until there is at least one
+export const movingAverage = (values: (number | null)[], span: number) =>
+  values.map((_, i) => {
+    const recent = values.slice(Math.max(0, i - span + 1), i + 1).filter((v): v is number => v !== null);
+    return recent.length ? round1(recent.reduce((a, b) => a + b, 0) / recent.length) : null;
+  });
+
+// Issue counts per severity from the issues tab, falling back to the summary's own columns
+const severityCounts = (row: Record<string, any>, cols: Partial<ResolvedColumns>, issues: TabInput) => {
+  let critical = 0, major = 0, minor = 0;
+  const sevCol = issues.cols?.severity;
+  if (sevCol) {
+    rowsForBuild(issues, { build: getText(row, cols.build), platform: getText(row, cols.platform) }).forEach(ir => {
+      const sev = getText(ir, sevCol).toLowerCase();
+      if (sev.includes('crit')) critical++;
+      else if (sev.includes('maj')) major++;
+      else if (sev.includes('min')) minor++;
+    });
+  }
+  if (critical === 0 && major === 0 && minor === 0) {
+    critical = getNumber(row, cols.critical);
+    major = getNumber(row, cols.major);
+    minor = getNumber(row, cols.minor);
+  }
+  return { critical, major, minor };
+};
+
+/**
+ * Per-build metrics for the trend charts, oldest to newest within `window`.
+ * Moving averages look back across the whole history, so the first build
+ * in the window is already smoothed.
+ */
+export const computeBuildMetrics = (summaryRows: Record<string, any>[], cols: Partial<ResolvedColumns>, issues: TabInput, window: MetricsWindow, today = new Date()): BuildMetricsPoint[] => {
+  const sorted = sortBuildRows(summaryRows, cols);
+  const points: BuildMetricsPoint[] = sorted.map(r => {
+    const build = getText(r, cols.build) || 'Unknown';
+    const executed = getNumber(r, cols.executed);
+    const passed = getNumber(r, cols.passed);
+    const automation = getNumber(r, cols.automation);
+    const manual = getNumber(r, cols.manual);
+    const { critical, major, minor } = severityCounts(r, cols, issues);
+    const date = getDate(r, cols.date);
+    return {
+      name: build,
+      platform: getText(r, cols.platform),
+      fullName: build,
+      date: date ? toISODate(date) : null,
+      Passed: passed,
+      Failed: getNumber(r, cols.failed),
+      Executed: executed,
+      Critical: critical,
+      Major: major,
+      Minor: minor,
+      Automation: automation,
+      Manual: manual,
+      PassRate: executed ? round1((passed / executed) * 100) : null,
+      DefectDensity: executed ? round1(((critical + major + minor) / executed) * 100) : null,
+      AutomationShare: automation + manual ? round1((automation / (automation + manual)) * 100) : null,
+      PassRateAvg: null,
+      DefectDensityAvg: null,
+    };
+  });
+
+  const passAvg = movingAverage(points.map(p => p.PassRate), MOVING_AVERAGE_SPAN);
+  const densityAvg = movingAverage(points.map(p => p.DefectDensity), MOVING_AVERAGE_SPAN);
+  points.forEach((p, i) => {
+    p.PassRateAvg = passAvg[i];
+    p.DefectDensityAvg = densityAvg[i];
+  });
+
+  const inWindow = new Set(applyWindow(sorted, cols, window, today));
+  return points.filter((_, i) => inWindow.has(sorted[i]));
+};
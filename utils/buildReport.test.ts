@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BuildReportData, createReportPdf, reportFileName, reportMetricCards } from './buildReport';
+
+// Its Node build expects a browser global; no chart SVGs are passed here anyway
+vi.mock('svg2pdf.js', () => ({ svg2pdf: vi.fn() }));
+
+const report = (issueCount: number): BuildReportData => ({
+  title: 'Ifocus RC build report for iOS - 4.12.0',
+  buildInfo: { build: '4.12.0', platform: 'iOS', type: 'RC', startDate: '2025-03-10', status: 'Pass', releasedToStore: null },
+  gate: null,
+  stats: { total: 120, executed: 100, passed: 95, failed: 5, critical: 1, major: 2, minor: 3 },
+  pieData: [{ name: 'Passed', value: 95, color: '#10B981' }, { name: 'Failed', value: 5, color: '#F43F5E' }],
+  trendData: [],
+  matrixRows: [{ Build: '4.12.0', Platform: 'iOS', Total: 120, Passed: 95, Failed: 5 }],
+  matrixCols: { build: 'Build', platform: 'Platform', total: 'Total', passed: 'Passed', failed: 'Failed' },
+  tables: [{
+    title: 'New Issues',
+    headers: ['Ticket', 'Title', 'Status'],
+    rows: Array.from({ length: issueCount }, (_, i) => ({ Ticket: `QA-${i + 1}`, Title: `Crash ≥ ${i} times on login`, Status: 'Open' })),
+    statusColumn: 'Status',
+  }],
+  generatedAt: new Date(2025, 2, 12, 9, 30),
+  sourceInfo: ['Profile: Mobile', 'New Issues: Google Sheets'],
+});
+
+// Text shown on each page, read back from the uncompressed content streams
+const pageTexts = async (data: BuildReportData) => {
+  const doc = await createReportPdf(data, {});
+  return Array.from({ length: doc.getNumberOfPages() }, (_, i) => (doc.internal.pages[i + 1] as unknown as string[]).join('\n'));
+};
+
+describe('createReportPdf', () => {
+  it('fits a short report on one page with its footer', async () => {
+    const [page, ...rest] = await pageTexts(report(3));
+    expect(rest).toHaveLength(0);
+    expect(page).toContain('(4.12.0 iOS)');
+    expect(page).toContain('(QA-3)');
+    expect(page).toContain('(Page 1 of 1)');
+    expect(page).toContain('Profile: Mobile');
+  });
+
+  it('breaks long tables across pages, repeating the header and footer on each', async () => {
+    const pages = await pageTexts(report(150));
+    expect(pages.length).toBeGreaterThan(2);
+    pages.forEach((page, i) => {
+      expect(page).toContain(`(Page ${i + 1} of ${pages.length})`);
+      expect(page).toContain('(Generated ');
+    });
+    expect(pages.slice(1).every(page => page.includes('(TICKET)'))).toBe(true);
+    expect(pages.join('\n')).toContain('(QA-150)');
+  });
+
+  it('spells out symbols the built-in fonts lack', async () => {
+    const [page] = await pageTexts(report(1));
+    expect(page).toContain('(Crash >= 0 times on login)');
+  });
+});
+
+describe('report helpers', () => {
+  it('name the file after the report title', () => {
+    expect(reportFileName('Ifocus RC build report for iOS - 4.12.0')).toBe('ifocus-rc-build-report-for-ios-4-12-0.pdf');
+  });
+
+  it('show a zero pass rate when nothing was executed', () => {
+    expect(reportMetricCards(null).map(c => c.value)).toEqual(['0', '0', '0%', '0']);
+  });
+});
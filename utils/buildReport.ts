@@ -0,0 +1,271 @@
+import { jsPDF } from "jspdf";
+import autoTable, { RowInput } from "jspdf-autotable";
+import { svg2pdf } from "svg2pdf.js";
+import { BuildInfo } from "../types";
+import { ResolvedColumns } from "./columnMapping";
+import { downloadFile } from "./download";
+import { BuildGateResult, describeGateRule, formatGateValue } from "./qualityGates";
+import { getNumber, getText } from "./schema";
+import { EXECUTION_COLORS } from "./statusStyles";
+
+export interface ReportTable {
+  title: string;
+  headers: string[];
+  rows: Record<string, any>[];
+  statusColumn?: string;
+}
+
+export interface ReportStats {
+  total: number;
+  executed: number;
+  passed: number;
+  failed: number;
+  critical: number;
+  major: number;
+  minor: number;
+}
+
+/**
+ * Everything in a build report; rendered by the BuildReport component for
+ * printing and by createReportPdf for the PDF download.
+ */
+export interface BuildReportData {
+  title: string;
+  buildInfo: BuildInfo;
+  gate: BuildGateResult | null;
+  stats: ReportStats | null;
+  pieData: { name: string; value: number; color: string }[];
+  trendData: Record<string, any>[];
+  matrixRows: Record<string, any>[];
+  matrixCols: Partial<ResolvedColumns>;
+  tables: ReportTable[];
+  generatedAt: Date;
+  sourceInfo: string[];
+}
+
+export type ReportChart = 'distribution' | 'methodology' | 'severity';
+
+// The SVG each chart renders to; charts without one are left out of the PDF
+export type ReportCharts = Partial<Record<ReportChart, SVGElement>>;
+
+export const REPORT_CHART_SIZES: Record<ReportChart, { width: number; height: number }> = {
+  distribution: { width: 240, height: 220 },
+  methodology: { width: 420, height: 220 },
+  severity: { width: 680, height: 220 },
+};
+
+export const METHODOLOGY_SERIES = [
+  { name: 'Automation', color: EXECUTION_COLORS.automation },
+  { name: 'Manual', color: EXECUTION_COLORS.manual },
+];
+
+export const SEVERITY_SERIES = [
+  { name: 'Critical', color: EXECUTION_COLORS.critical },
+  { name: 'Major', color: EXECUTION_COLORS.major },
+  { name: 'Minor', color: EXECUTION_COLORS.minor },
+];
+
+export const MATRIX_HEADERS = ['Build', 'Start Date', 'Status', 'Type', 'Total', 'Passed', 'Failed', 'Crit / Maj / Min'];
+
+// `pill` fields are statuses, shown as coloured badges in the printed report
+export const reportStatusFields = (buildInfo: BuildInfo): { label: string; value: string | null; pill?: boolean }[] => [
+  { label: 'Build Number', value: `#${buildInfo.build}` },
+  { label: 'Platform', value: buildInfo.platform },
+  { label: 'Build Type', value: buildInfo.type },
+  { label: 'Start Date', value: buildInfo.startDate },
+  { label: 'Overall Status', value: buildInfo.status, pill: true },
+  { label: 'Released to store', value: buildInfo.releasedToStore, pill: true },
+];
+
+export const reportMetricCards = (stats: ReportStats | null): { label: string; value: string }[] => [
+  { label: 'Total Cases', value: String(stats?.total || 0) },
+  { label: 'Executed', value: String(stats?.executed || 0) },
+  { label: 'Pass Rate', value: `${stats?.executed ? ((stats.passed / stats.executed) * 100).toFixed(1) : '0'}%` },
+  { label: 'Critical', value: String(stats?.critical || 0) },
+];
+
+export const reportFileName = (title: string) =>
+  `${title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'build-report'}.pdf`;
+
+// --- PDF ---
+
+// A4 in millimetres; the bottom margin holds the footer
+const PAGE = { width: 210, height: 297, left: 12, right: 12, top: 12, bottom: 18 };
+const CONTENT_WIDTH = PAGE.width - PAGE.left - PAGE.right;
+// Charts are laid out for a 680px wide page, the width of the printed report
+const MM_PER_PX = CONTENT_WIDTH / REPORT_CHART_SIZES.severity.width;
+
+const COLORS = { primary: '#7c3aed', text: '#0f172a', muted: '#64748b', faint: '#94a3b8', rule: '#e2e8f0' };
+
+// The built-in PDF fonts only cover Latin-1, so other characters would print as garbage
+const pdfText = (value: any) =>
+  String(value ?? '').replace(/≥/g, '>=').replace(/≤/g, '<=').replace(/[^\t\n\r\x20-\x7e\xa0-\xff–—‘’“”•…]/g, '?');
+
+const tableStyles = {
+  theme: 'plain' as const,
+  margin: { left: PAGE.left, right: PAGE.right, top: PAGE.top, bottom: PAGE.bottom },
+  styles: { fontSize: 7.5, cellPadding: 1.2, textColor: COLORS.text, lineColor: COLORS.rule },
+  headStyles: { fontSize: 6.5, fontStyle: 'bold' as const, textColor: COLORS.muted, lineWidth: { bottom: 0.3 } },
+  bodyStyles: { lineWidth: { bottom: 0.1 } },
+};
+
+/**
+ * Lays the report out on A4 pages: tables break across pages with their
+ * header repeated, charts are embedded as vectors, and every page carries
+ * the generation time, data sources and page number in its footer.
+ */
+export const createReportPdf = async (report: BuildReportData, charts: ReportCharts): Promise<jsPDF> => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  let y = PAGE.top;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE.height - PAGE.bottom) {
+      doc.addPage();
+      y = PAGE.top;
+    }
+  };
+
+  const sectionTitle = (text: string, x = PAGE.left, at = y) => {
+    doc.setFont('helvetica', 'bold').setFontSize(7).setTextColor(COLORS.muted);
+    doc.text(pdfText(text.toUpperCase()), x, at + 3);
+  };
+
+  const runTable = (head: RowInput[], body: RowInput[], extra: Record<string, any> = {}) => {
+    autoTable(doc, {
+      ...tableStyles,
+      startY: y,
+      head,
+      body,
+      ...extra,
+      didDrawPage: data => { y = data.cursor?.y ?? y; },
+    });
+    y += 6;
+  };
+
+  const legend = (items: { name: string; color: string }[], x: number, at: number) => {
+    doc.setFont('helvetica', 'bold').setFontSize(6.5);
+    let cx = x;
+    items.forEach(item => {
+      doc.setFillColor(item.color).circle(cx + 1, at - 0.8, 1, 'F');
+      doc.setTextColor(COLORS.muted).text(pdfText(item.name), cx + 3, at);
+      cx += 5 + doc.getTextWidth(pdfText(item.name));
+    });
+  };
+
+  const chart = async (name: ReportChart, title: string, series: { name: string; color: string }[], x: number, at: number) => {
+    const svg = charts[name];
+    const { width, height } = REPORT_CHART_SIZES[name];
+    sectionTitle(title, x, at);
+    legend(series, x, at + 8);
+    if (svg) await svg2pdf(svg, doc, { x, y: at + 10, width: width * MM_PER_PX, height: height * MM_PER_PX });
+  };
+
+  doc.setFont('helvetica', 'bold').setFontSize(14).setTextColor(COLORS.primary);
+  doc.text(pdfText(report.title.toUpperCase()), PAGE.left, y + 6, { maxWidth: CONTENT_WIDTH - 50 });
+  if (report.gate) {
+    doc.setFontSize(8).setTextColor(COLORS.text).text(`QUALITY GATE: ${report.gate.verdict}`, PAGE.width - PAGE.right, y + 6, { align: 'right' });
+  }
+  y += 10;
+  doc.setDrawColor(COLORS.primary).setLineWidth(0.6).line(PAGE.left, y, PAGE.width - PAGE.right, y);
+  y += 6;
+
+  sectionTitle('Current Status');
+  y += 5;
+  const fields = reportStatusFields(report.buildInfo);
+  runTable([fields.map(f => pdfText(f.label.toUpperCase()))], [fields.map(f => pdfText(f.value || '—'))], {
+    bodyStyles: { fontStyle: 'bold', fontSize: 9 },
+    headStyles: { ...tableStyles.headStyles, lineWidth: 0 },
+  });
+
+  const cards = reportMetricCards(report.stats);
+  runTable([cards.map(c => c.label.toUpperCase())], [cards.map(c => c.value)], {
+    theme: 'grid',
+    headStyles: { ...tableStyles.headStyles, lineWidth: 0.1 },
+    bodyStyles: { fontStyle: 'bold', fontSize: 16, cellPadding: 3 },
+  });
+
+  const unmet = report.gate?.results.filter(r => r.outcome !== 'pass') || [];
+  if (unmet.length > 0) {
+    ensureSpace(10 + unmet.length * 4);
+    sectionTitle('Unmet Quality Gates');
+    y += 7;
+    doc.setFont('helvetica', 'bold').setFontSize(8);
+    unmet.forEach(r => {
+      const line = r.outcome === 'noData'
+        ? `? ${describeGateRule(r.rule)} — no data for this build`
+        : `x ${describeGateRule(r.rule)} — actual ${formatGateValue(r.rule, r.actual)}`;
+      doc.setTextColor(r.outcome === 'noData' ? COLORS.faint : r.rule.severity === 'block' ? '#e11d48' : '#d97706').text(pdfText(line), PAGE.left, y);
+      y += 4;
+    });
+    y += 4;
+  }
+
+  const chartHeight = 12 + REPORT_CHART_SIZES.severity.height * MM_PER_PX;
+  ensureSpace(chartHeight);
+  const methodologyX = PAGE.width - PAGE.right - REPORT_CHART_SIZES.methodology.width * MM_PER_PX;
+  await chart('distribution', 'Distribution', report.pieData, PAGE.left, y);
+  await chart('methodology', 'Methodology Trend', METHODOLOGY_SERIES, methodologyX, y);
+  y += chartHeight + 4;
+  ensureSpace(chartHeight);
+  await chart('severity', 'Issue Severity Trend', SEVERITY_SERIES, PAGE.left, y);
+  y += chartHeight + 4;
+
+  const cols = report.matrixCols;
+  ensureSpace(20);
+  sectionTitle('Execution Matrix');
+  y += 5;
+  runTable([MATRIX_HEADERS.map(h => h.toUpperCase())], report.matrixRows.map(row => [
+    pdfText(`${getText(row, cols.build) || '-'} ${getText(row, cols.platform)}`.trim()),
+    pdfText(getText(row, cols.date) || '-'),
+    pdfText(getText(row, cols.status) || '-'),
+    pdfText(getText(row, cols.buildType) || '-'),
+    getNumber(row, cols.total),
+    getNumber(row, cols.passed),
+    getNumber(row, cols.failed),
+    `${getNumber(row, cols.critical)} / ${getNumber(row, cols.major)} / ${getNumber(row, cols.minor)}`,
+  ]), {
+    rowPageBreak: 'avoid',
+    columnStyles: { 4: { halign: 'right' }, 5: { halign: 'right' }, 6: { halign: 'right' }, 7: { halign: 'right' } },
+  });
+
+  report.tables.forEach(table => {
+    ensureSpace(20);
+    sectionTitle(`${table.title} (${table.rows.length})`);
+    y += 5;
+    if (table.rows.length === 0) {
+      doc.setFont('helvetica', 'italic').setFontSize(8).setTextColor(COLORS.faint).text('No records for this build', PAGE.left, y + 3);
+      y += 10;
+      return;
+    }
+    runTable([table.headers.map(h => pdfText(h.toUpperCase()))], table.rows.map(row => table.headers.map(h => pdfText(row[h] || '-'))), {
+      rowPageBreak: 'avoid',
+      styles: { ...tableStyles.styles, fontSize: 6.5 },
+    });
+  });
+
+  const pages = doc.getNumberOfPages();
+  const footerY = PAGE.height - PAGE.bottom + 4;
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setDrawColor(COLORS.rule).setLineWidth(0.2).line(PAGE.left, footerY, PAGE.width - PAGE.right, footerY);
+    doc.setFont('helvetica', 'bold').setFontSize(6.5).setTextColor(COLORS.faint);
+    doc.text(`Generated ${pdfText(report.generatedAt.toLocaleString())}`, PAGE.left, footerY + 3.5);
+    doc.text(`Page ${page} of ${pages}`, PAGE.width - PAGE.right, footerY + 3.5, { align: 'right' });
+    doc.text(doc.splitTextToSize(pdfText(report.sourceInfo.join(' · ')), CONTENT_WIDTH).slice(0, 2), PAGE.left, footerY + 7);
+  }
+  return doc;
+};
+
+/**
+ * Downloads the report as a PDF, taking its charts from the SVGs the mounted
+ * BuildReport rendered (marked with `data-report-chart`).
+ */
+export const exportReportPdf = async (report: BuildReportData, container: HTMLElement) => {
+  const charts: ReportCharts = {};
+  (Object.keys(REPORT_CHART_SIZES) as ReportChart[]).forEach(name => {
+    const svg = container.querySelector<SVGElement>(`[data-report-chart="${name}"] .recharts-wrapper > svg`);
+    if (svg) charts[name] = svg;
+  });
+  const doc = await createReportPdf(report, charts);
+  downloadFile(doc.output('arraybuffer'), 'application/pdf', reportFileName(report.title));
+};
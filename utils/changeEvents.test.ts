@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { DashboardData } from '../types';
+import { ChangeEvent, detectChanges } from './changeEvents';
+
+const NOW = new Date('2025-03-12T09:30:00Z');
+
+const data = (rows: Record<string, any>[]): DashboardData => ({ headers: Object.keys(rows[0] ?? {}), rows });
+const brief = (events: ChangeEvent[]) => events.map(e => [e.type, e.build, e.platform, e.subject, e.from, e.to]);
+
+describe('detectChanges for the summary tab', () => {
+  const cols = { build: 'Build', platform: 'Platform', status: 'Status', releasedToStore: 'Released' };
+  const before = data([
+    { Build: '4.12.0', Platform: 'iOS', Status: 'In Progress', Released: 'No' },
+    { Build: '4.12.0', Platform: 'Android', Status: 'Pass', Released: 'No' },
+  ]);
+
+  it('keys builds by build and platform, reporting new builds, status and store release changes as the refresh shows them', () => {
+    const after = data([
+      { Build: '4.12.0', Platform: 'iOS', Status: 'Pass', Released: 'No' },
+      { Build: '4.12.0 ', Platform: 'android', Status: 'PASS', Released: 'Yes' },
+      { Build: '4.13.0', Platform: 'iOS', Status: 'In Progress', Released: '' },
+    ]);
+    expect(brief(detectChanges('summary', 'summary-tab', before, after, cols, NOW))).toEqual([
+      ['buildStatus', '4.12.0', 'iOS', '', 'In Progress', 'Pass'],
+      ['storeRelease', '4.12.0', 'android', '', 'No', 'Yes'],
+      ['newBuild', '4.13.0', 'iOS', '', null, 'In Progress'],
+    ]);
+  });
+
+  it('stamps each event with the refresh time and a unique id', () => {
+    const after = data([...before.rows, { Build: '4.13.0', Platform: 'iOS' }, { Build: '4.13.0', Platform: 'Android' }]);
+    const events = detectChanges('summary', 'summary-tab', before, after, cols, NOW);
+    expect(events.map(e => e.at)).toEqual([NOW.toISOString(), NOW.toISOString()]);
+    expect(new Set(events.map(e => e.id)).size).toBe(2);
+  });
+
+  it('reports nothing on the first load or when nothing changed', () => {
+    expect(detectChanges('summary', 'summary-tab', data([]), before, cols, NOW)).toEqual([]);
+    expect(detectChanges('summary', 'summary-tab', before, before, cols, NOW)).toEqual([]);
+  });
+});
+
+describe('detectChanges for the issues tab', () => {
+  const cols = { build: 'Build', platform: 'Platform', ticket: 'Ticket', title: 'Title', severity: 'Severity' };
+  const before = data([
+    { Build: '4.12.0', Platform: 'iOS', Ticket: 'QA-1', Title: 'Crash on login', Severity: 'Critical' },
+    { Build: '4.12.0', Platform: 'iOS', Ticket: '', Title: 'Slow sync', Severity: 'Minor' },
+  ]);
+
+  it('follows a ticket across builds, and an untracked title only within its build', () => {
+    const after = data([
+      { Build: '4.13.0', Platform: 'iOS', Ticket: 'qa-1', Title: 'Crash on login', Severity: 'Critical' },
+      { Build: '4.12.0', Platform: 'iOS', Ticket: '', Title: 'Slow  sync', Severity: 'Minor' },
+      { Build: '4.13.0', Platform: 'iOS', Ticket: '', Title: 'Slow sync', Severity: 'Minor' },
+      { Build: '4.13.0', Platform: 'iOS', Ticket: 'QA-2', Title: 'Dark mode glitch', Severity: 'Major' },
+    ]);
+    const events = detectChanges('issues', 'issues-tab', before, after, cols, NOW);
+    expect(brief(events)).toEqual([
+      ['newIssue', '4.13.0', 'iOS', 'Slow sync', null, ''],
+      ['newIssue', '4.13.0', 'iOS', 'QA-2 Dark mode glitch', null, ''],
+    ]);
+    expect(events.map(e => e.severity)).toEqual(['Minor', 'Major']);
+  });
+
+  it('skips rows with neither a ticket nor a title', () => {
+    const after = data([...before.rows, { Build: '4.13.0', Platform: 'iOS', Ticket: '', Title: ' ' }]);
+    expect(detectChanges('issues', 'issues-tab', before, after, cols, NOW)).toEqual([]);
+  });
+});
+
+describe('detectChanges for the validation tab', () => {
+  const cols = { build: 'Build', platform: 'Platform', ticket: 'Ticket', status: 'Status' };
+  const before = data([
+    { Build: '4.12.0', Platform: 'iOS', Ticket: 'QA-1', Status: 'Not Fixed' },
+    { Build: '4.12.0', Platform: 'iOS', Ticket: 'QA-2', Status: 'Fixed' },
+  ]);
+
+  it('keys tickets per build and platform, reporting new rows and status changes', () => {
+    const after = data([
+      { Build: '4.12.0', Platform: 'iOS', Ticket: 'QA-1', Status: 'Fixed' },
+      { Build: '4.12.0', Platform: 'iOS', Ticket: 'QA-2', Status: 'fixed' },
+      { Build: '4.13.0', Platform: 'iOS', Ticket: 'QA-1', Status: 'Fixed' },
+    ]);
+    expect(brief(detectChanges('validation', 'validation-tab', before, after, cols, NOW))).toEqual([
+      ['validationStatus', '4.12.0', 'iOS', 'QA-1', 'Not Fixed', 'Fixed'],
+      ['validationStatus', '4.13.0', 'iOS', 'QA-1', null, 'Fixed'],
+    ]);
+  });
+
+  it('compares duplicated rows by their first occurrence only', () => {
+    const duplicated = data([...before.rows, { Build: '4.12.0', Platform: 'iOS', Ticket: 'QA-1', Status: 'Fixed' }]);
+    expect(detectChanges('validation', 'validation-tab', duplicated, duplicated, cols, NOW)).toEqual([]);
+    expect(detectChanges('validation', 'validation-tab', before, duplicated, cols, NOW)).toEqual([]);
+  });
+});
+
+describe('detectChanges for custom tabs', () => {
+  it('reports nothing', () => {
+    const before = data([{ Name: 'a' }]);
+    expect(detectChanges('custom', 'custom-tab', before, data([{ Name: 'b' }]), {}, NOW)).toEqual([]);
+  });
+});
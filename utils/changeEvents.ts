@@ -0,0 +1,170 @@
+import { DashboardData, TabRole } from "../types";
+import { ResolvedColumns } from "./columnMapping";
+import { getText } from "./schema";
+import { smartCompare } from "./smartCompare";
+
+const STORAGE_KEY = 'dashboard-notification-prefs';
+
+export type ChangeEventType = 'newBuild' | 'buildStatus' | 'storeRelease' | 'newIssue' | 'validationStatus';
+
+export const CHANGE_EVENT_TYPES: Record<ChangeEventType, { label: string; icon: string }> = {
+  newBuild: { label: 'New build', icon: '🏗️' },
+  buildStatus: { label: 'Build status', icon: '🚦' },
+  storeRelease: { label: 'Store release', icon: '🚀' },
+  newIssue: { label: 'New issue', icon: '🐞' },
+  validationStatus: { label: 'Ticket validation', icon: '✓' },
+};
+
+export interface ChangeEvent {
+  id: string;
+  type: ChangeEventType;
+  // ISO time of the refresh that noticed it
+  at: string;
+  tabId: string;
+  build: string;
+  platform: string;
+  // Ticket or issue title; empty for build events
+  subject: string;
+  severity: string;
+  // null when the row is new
+  from: string | null;
+  to: string;
+}
+
+interface KeyedRow {
+  row: Record<string, any>;
+  build: string;
+  platform: string;
+  subject: string;
+  status: string;
+  released: string;
+}
+
+const normalize = (s: string) => s.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Rows by identity for the tab's role. The first of several rows with the
+ * same key wins, so duplicated sheet rows do not report changes to each other.
+ */
+const keyRows = (role: TabRole, data: DashboardData, cols: Partial<ResolvedColumns>) => {
+  const keyed = new Map<string, KeyedRow>();
+  data.rows.forEach(row => {
+    const ticket = getText(row, cols.ticket);
+    const title = getText(row, cols.title);
+    const entry: KeyedRow = {
+      row,
+      build: getText(row, cols.build),
+      platform: getText(row, cols.platform),
+      subject: ticket && title ? `${ticket} ${title}` : ticket || title,
+      status: getText(row, cols.status),
+      released: getText(row, cols.releasedToStore),
+    };
+    const parts = role === 'summary' ? [entry.build, entry.platform]
+      // A ticket id names an issue on its own; without one the title is only unique per build
+      : role === 'issues' && ticket ? [ticket]
+      : [ticket || title, entry.build, entry.platform];
+    if (!parts[0]) return;
+    const key = parts.map(normalize).join('|');
+    if (!keyed.has(key)) keyed.set(key, entry);
+  });
+  return keyed;
+};
+
+/**
+ * Typed events for what a refresh changed in one tab. Custom tabs have no
+ * meaning to track, and a tab with no earlier rows reports nothing rather
+ * than announcing every row as new.
+ */
+export const detectChanges = (role: TabRole, tabId: string, before: DashboardData, after: DashboardData, cols: Partial<ResolvedColumns>, now = new Date()): ChangeEvent[] => {
+  if (role === 'custom' || before.rows.length === 0) return [];
+  const at = now.toISOString();
+  const prev = keyRows(role, before, cols);
+  const events: ChangeEvent[] = [];
+  const push = (type: ChangeEventType, entry: KeyedRow, from: string | null, to = entry.status) => events.push({
+    id: `${at}/${tabId}/${events.length}`,
+    type,
+    at,
+    tabId,
+    build: entry.build,
+    platform: entry.platform,
+    subject: role === 'summary' ? '' : entry.subject,
+    severity: getText(entry.row, cols.severity),
+    from,
+    to,
+  });
+
+  keyRows(role, after, cols).forEach((entry, key) => {
+    const old = prev.get(key);
+    const statusChanged = !!old && normalize(old.status) !== normalize(entry.status);
+    if (role === 'summary') {
+      if (!old) push('newBuild', entry, null);
+      else {
+        if (statusChanged) push('buildStatus', entry, old.status);
+        if (normalize(old.released) !== normalize(entry.released)) push('storeRelease', entry, old.released, entry.released);
+      }
+    } else if (role === 'issues') {
+      if (!old) push('newIssue', entry, null);
+    } else if (!old || statusChanged) {
+      push('validationStatus', entry, old ? old.status : null);
+    }
+  });
+  return events;
+};
+
+export const describeChangeEvent = (e: ChangeEvent) => {
+  const where = [e.build && `#${e.build}`, e.platform].filter(Boolean).join(' · ');
+  switch (e.type) {
+    case 'newBuild':
+      return `New build ${where}${e.to ? ` (${e.to})` : ''}`;
+    case 'buildStatus':
+      return `Build ${where}: ${e.from || '—'} → ${e.to || '—'}`;
+    case 'storeRelease':
+      return `Build ${where} released to store: ${e.from || '—'} → ${e.to || '—'}`;
+    case 'newIssue':
+      return `New ${e.severity ? `${e.severity} ` : ''}issue: ${e.subject}${where ? ` on ${where}` : ''}`;
+    case 'validationStatus':
+      return `${e.subject}${where ? ` (${where})` : ''}: ${e.from === null ? 'added as' : `${e.from || '—'} →`} ${e.to || '—'}`;
+  }
+};
+
+export interface NotificationPrefs {
+  // Browser (OS-level) alerts on top of the in-app toast
+  browser: boolean;
+  platforms: string[];
+  severities: string[];
+}
+
+export const DEFAULT_NOTIFICATION_PREFS: NotificationPrefs = { browser: false, platforms: [], severities: [] };
+
+/**
+ * Whether an event passes the alert filter. The severity filter narrows
+ * issue events only; build and ticket events have no severity to match.
+ */
+export const matchesNotificationPrefs = (e: ChangeEvent, prefs: Pick<NotificationPrefs, 'platforms' | 'severities'>) =>
+  (prefs.platforms.length === 0 || !e.platform || prefs.platforms.some(p => smartCompare(p, e.platform))) &&
+  (prefs.severities.length === 0 || e.type !== 'newIssue' || prefs.severities.some(s => smartCompare(s, e.severity)));
+
+// --- PERSISTENCE ---
+
+const stringList = (raw: any): string[] =>
+  Array.isArray(raw) ? raw.filter(v => typeof v === 'string' && v.trim() !== '') : [];
+
+const readStore = (): Record<string, any> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return raw && typeof raw === 'object' ? raw : {};
+  } catch {
+    return {};
+  }
+};
+
+// Kept per data-source profile; platform and severity names differ between products
+export const loadNotificationPrefs = (profileId: string): NotificationPrefs => {
+  const raw = readStore()[profileId];
+  if (!raw || typeof raw !== 'object') return DEFAULT_NOTIFICATION_PREFS;
+  return { browser: raw.browser === true, platforms: stringList(raw.platforms), severities: stringList(raw.severities) };
+};
+
+export const saveNotificationPrefs = (profileId: string, prefs: NotificationPrefs) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStore(), [profileId]: prefs }));
+};
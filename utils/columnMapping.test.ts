@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { loadColumnMappings, parseColumnMappingsFile, resolveColumns, saveColumnMappings, serializeColumnMappings } from './columnMapping';
+
+const STORAGE_KEY = 'dashboard-column-mappings';
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+});
+
+const stored = () => JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+
+describe('resolveColumns', () => {
+  it('prefers an override naming an existing header, then aliases', () => {
+    const cols = resolveColumns(['RC Build', 'OS', 'Build Label'], { build: 'Build Label', platform: 'Missing' });
+    expect(cols.build).toBe('Build Label');
+    expect(cols.platform).toBe('OS');
+  });
+
+  it('lets an empty override disable a field', () => {
+    expect(resolveColumns(['Build'], { build: '' }).build).toBeUndefined();
+  });
+});
+
+describe('column mapping persistence', () => {
+  it('keeps mappings of profiles sharing a tab id apart', () => {
+    saveColumnMappings('mobile', { summary: { build: 'RC Build' } });
+    saveColumnMappings('web', { summary: { build: 'Release' } });
+    expect(loadColumnMappings('mobile')).toEqual({ summary: { build: 'RC Build' } });
+    expect(loadColumnMappings('web')).toEqual({ summary: { build: 'Release' } });
+    expect(Object.keys(stored())).toEqual(['mobile/summary', 'web/summary']);
+  });
+
+  it('replaces only the saving profile\'s entries', () => {
+    saveColumnMappings('mobile', { summary: { build: 'RC Build' }, new_issues: { severity: 'Prio' } });
+    saveColumnMappings('web', { summary: { build: 'Release' } });
+    saveColumnMappings('mobile', { summary: { build: 'Build No' } });
+    expect(stored()).toEqual({ 'mobile/summary': { build: 'Build No' }, 'web/summary': { build: 'Release' } });
+  });
+
+  it('moves unscoped entries to the first profile loaded', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ summary: { build: 'RC Build' }, 'mobile/new_issues': { severity: 'Prio' } }));
+    expect(loadColumnMappings('mobile')).toEqual({ summary: { build: 'RC Build' }, new_issues: { severity: 'Prio' } });
+    expect(loadColumnMappings('web')).toEqual({});
+    expect(stored()).toEqual({ 'mobile/new_issues': { severity: 'Prio' }, 'mobile/summary': { build: 'RC Build' } });
+  });
+
+  it('does not let an unscoped entry overwrite the profile\'s own mapping', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ summary: { build: 'Old' }, 'mobile/summary': { build: 'New' } }));
+    expect(loadColumnMappings('mobile')).toEqual({ summary: { build: 'New' } });
+    expect(stored()).toEqual({ 'mobile/summary': { build: 'New' } });
+  });
+
+  it('drops unknown fields and non-string columns', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ 'mobile/summary': { build: 'RC Build', bogus: 'x', platform: 3 } }));
+    expect(loadColumnMappings('mobile')).toEqual({ summary: { build: 'RC Build' } });
+  });
+});
+
+describe('column mapping files', () => {
+  it('round-trips the exported envelope and accepts a bare object', () => {
+    const mappings = { summary: { build: 'RC Build' } };
+    expect(parseColumnMappingsFile(serializeColumnMappings(mappings))).toEqual(mappings);
+    expect(parseColumnMappingsFile(JSON.stringify(mappings))).toEqual(mappings);
+    expect(() => parseColumnMappingsFile('{')).toThrow('Column mapping file is not valid JSON.');
+  });
+});
@@ -0,0 +1,191 @@
+import { ColumnMapping, LogicalField, TabColumnMappings } from "../types";
+
+const STORAGE_KEY = 'dashboard-column-mappings';
+
+interface FieldDefinition {
+  label: string;
+  aliases: string[];
+}
+
+/**
+ * Logical fields the dashboard understands and the sheet column names they
+ * are resolved from when no user override exists.
+ */
+export const FIELD_DEFINITIONS: Record<LogicalField, FieldDefinition> = {
+  build: { label: 'Build', aliases: ['RC Build', 'Build Version', 'Build', 'Version', 'Build Number', 'Release Build', 'Build details'] },
+  platform: { label: 'Platform', aliases: ['Platform', 'OS', 'Environment', 'Device'] },
+  date: { label: 'Date', aliases: ['Build Date', 'Date', 'Reported Date', 'Created At', 'Start Date'] },
+  severity: { label: 'Severity', aliases: ['Severity', 'Issue Severity', 'Priority', 'Status Severity'] },
+  status: { label: 'Status', aliases: ['Status', 'Overall Status', 'Result', 'Results', 'Execution Status', 'Build Status', 'Validation Status'] },
+  buildType: { label: 'Build Type', aliases: ['Build Type', 'Type', 'Deployment Type', 'Category'] },
+  automation: { label: 'Automation Executed', aliases: ['Automation executed', 'Automation', 'Auto Executed', 'Automation Test Cases'] },
+  manual: { label: 'Manual Executed', aliases: ['Manual executed', 'Manual', 'Manual Executed', 'Manual Test Cases'] },
+  releasedToStore: { label: 'Released to Store', aliases: ['Released to store', 'Store Released', 'Store Status', 'App Store Status', 'Play Store Status'] },
+  total: { label: 'Total Cases', aliases: ['Total Test Cases', 'Total', 'Total Cases', 'Total Count'] },
+  executed: { label: 'Executed', aliases: ['Executed', 'Execution Count', 'Run'] },
+  passed: { label: 'Passed', aliases: ['Passed', 'Pass', 'Success', 'Passed Cases'] },
+  failed: { label: 'Failed', aliases: ['Failed', 'Fail', 'Failure', 'Failed Cases'] },
+  notConsidered: { label: 'Not Considered', aliases: ['Not considered', 'Not Considered', 'N/A', 'Skipped', 'Not Run', 'Pending', 'Not Executed'] },
+  critical: { label: 'Critical Issues', aliases: ['Critical Issues', 'Critical'] },
+  major: { label: 'Major Issues', aliases: ['Major Issues', 'Major'] },
+  minor: { label: 'Minor Issues', aliases: ['Minor Issues', 'Minor'] },
+  title: { label: 'Issue Title', aliases: ['Title', 'Issue Title', 'Summary', 'Issue', 'Issue Summary', 'Description', 'Issue Description'] },
+  ticket: { label: 'Ticket', aliases: ['Ticket', 'Ticket ID', 'Ticket No', 'Ticket Number', 'Jira', 'Jira ID', 'Jira Ticket', 'Key', 'Issue ID', 'Issue Key', 'ID'] },
+  module: { label: 'Module', aliases: ['Module', 'Component', 'Feature', 'Area', 'Functional Area', 'Screen'] },
+  assignee: { label: 'Assignee', aliases: ['Assignee', 'Assigned To', 'Assigned', 'Owner', 'Developer'] },
+  closedDate: { label: 'Closed Date', aliases: ['Closed Date', 'Closed On', 'Resolved Date', 'Resolved On', 'Fixed Date', 'Fixed On', 'Resolution Date'] },
+  releaseDate: { label: 'Store Release Date', aliases: ['Release Date', 'Store Release Date', 'Released On', 'Go Live Date', 'Live Date'] },
+};
+
+export const LOGICAL_FIELDS = Object.keys(FIELD_DEFINITIONS) as LogicalField[];
+
+export type ResolvedColumns = Record<LogicalField, string | undefined>;
+
+export type ResolutionSource = 'override' | 'alias' | 'none';
+
+const normalize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Robust column finder (case-insensitive, then ignoring spacing and punctuation)
+export const findCol = (headers: string[] = [], aliases: string[] = []) => {
+  if (!headers || headers.length === 0) return undefined;
+  const exact = headers.find(h => aliases.some(a => a.toLowerCase() === h.toLowerCase().trim()));
+  if (exact) return exact;
+  const normalized = aliases.map(normalize);
+  return headers.find(h => normalized.includes(normalize(h)));
+};
+
+/**
+ * Resolves a logical field to a sheet column. An override naming a header
+ * that no longer exists falls back to alias matching; an empty override
+ * explicitly disables the field.
+ */
+export const resolveColumn = (headers: string[] = [], field: LogicalField, overrides?: ColumnMapping): { column: string | undefined; source: ResolutionSource } => {
+  const override = overrides?.[field];
+  if (override === '') return { column: undefined, source: 'override' };
+  if (override && headers.includes(override)) return { column: override, source: 'override' };
+  const column = findCol(headers, FIELD_DEFINITIONS[field].aliases);
+  return { column, source: column ? 'alias' : 'none' };
+};
+
+export const resolveColumns = (headers: string[] = [], overrides?: ColumnMapping): ResolvedColumns => {
+  const resolved = {} as ResolvedColumns;
+  LOGICAL_FIELDS.forEach(f => { resolved[f] = resolveColumn(headers, f, overrides).column; });
+  return resolved;
+};
+
+// Sørensen–Dice coefficient over character bigrams
+const bigramSimilarity = (a: string, b: string) => {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+  const grams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const g = a.slice(i, i + 2);
+    grams.set(g, (grams.get(g) || 0) + 1);
+  }
+  let hits = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const g = b.slice(i, i + 2);
+    const n = grams.get(g) || 0;
+    if (n > 0) {
+      grams.set(g, n - 1);
+      hits++;
+    }
+  }
+  return (2 * hits) / (a.length + b.length - 2);
+};
+
+/**
+ * Ranks headers by how closely they resemble any alias of the field
+ */
+export const suggestColumns = (headers: string[], field: LogicalField, limit = 3) => {
+  const aliases = FIELD_DEFINITIONS[field].aliases.map(normalize);
+  return headers
+    .map(header => {
+      const h = normalize(header);
+      const score = Math.max(...aliases.map(a => {
+        const containment = h && (h.includes(a) || a.includes(h)) ? 0.8 : 0;
+        return Math.max(containment, bigramSimilarity(h, a));
+      }));
+      return { header, score };
+    })
+    .filter(s => s.score >= 0.4)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// --- PERSISTENCE ---
+
+const sanitizeMappings = (raw: any): TabColumnMappings => {
+  const result: TabColumnMappings = {};
+  if (!raw || typeof raw !== 'object') return result;
+  Object.entries(raw).forEach(([tabId, mapping]) => {
+    if (!mapping || typeof mapping !== 'object') return;
+    const clean: ColumnMapping = {};
+    Object.entries(mapping as Record<string, any>).forEach(([field, col]) => {
+      if ((LOGICAL_FIELDS as string[]).includes(field) && typeof col === 'string') {
+        clean[field as LogicalField] = col;
+      }
+    });
+    result[tabId] = clean;
+  });
+  return result;
+};
+
+const readStore = (): Record<string, any> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return raw && typeof raw === 'object' ? raw : {};
+  } catch {
+    return {};
+  }
+};
+
+// Profiles reuse tab ids such as "summary", so overrides are stored per profile and tab
+export const columnMappingKey = (profileId: string, tabId: string) => `${profileId}/${tabId}`;
+
+/**
+ * Entries saved before mappings were scoped by profile sit under the bare
+ * tab id. They move to the first profile loaded, the one they were most
+ * likely set up against, unless it already has its own mapping for the tab.
+ */
+const migrateLegacyMappings = (store: Record<string, any>, profileId: string) => {
+  const legacy = Object.keys(store).filter(key => !key.includes('/'));
+  if (legacy.length === 0) return store;
+  const migrated = { ...store };
+  legacy.forEach(tabId => {
+    const key = columnMappingKey(profileId, tabId);
+    if (!(key in migrated)) migrated[key] = migrated[tabId];
+    delete migrated[tabId];
+  });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
+  return migrated;
+};
+
+export const loadColumnMappings = (profileId: string): TabColumnMappings => {
+  const prefix = columnMappingKey(profileId, '');
+  const store = migrateLegacyMappings(readStore(), profileId);
+  return sanitizeMappings(Object.fromEntries(
+    Object.entries(store).filter(([key]) => key.startsWith(prefix)).map(([key, mapping]) => [key.slice(prefix.length), mapping])
+  ));
+};
+
+export const saveColumnMappings = (profileId: string, mappings: TabColumnMappings) => {
+  const prefix = columnMappingKey(profileId, '');
+  const others = Object.entries(readStore()).filter(([key]) => !key.startsWith(prefix));
+  const own = Object.entries(mappings).map(([tabId, mapping]) => [columnMappingKey(profileId, tabId), mapping]);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries([...others, ...own])));
+};
+
+export const serializeColumnMappings = (mappings: TabColumnMappings) =>
+  JSON.stringify({ version: 1, mappings }, null, 2);
+
+export const parseColumnMappingsFile = (text: string): TabColumnMappings => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Column mapping file is not valid JSON.');
+  }
+  // Accept both the exported envelope and a bare { tabId: mapping } object
+  return sanitizeMappings(raw && raw.mappings ? raw.mappings : raw);
+};
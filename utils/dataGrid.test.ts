@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ColumnSchema } from '../types';
+import { applyGridLayout, applyGridQuery, distinctValues, EMPTY_GRID_QUERY, GridQuery, gridLayoutKey, isGridQueryActive, loadGridLayouts, saveGridLayouts } from './dataGrid';
+
+const STORAGE_KEY = 'dashboard-grid-layouts';
+
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+    removeItem: (key: string) => { items.delete(key); },
+  };
+};
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', createMemoryStorage());
+});
+
+const headers = ['Ticket', 'Build', 'Passed', 'Rate', 'Date', 'Status'];
+const rows = [
+  { Ticket: 'QA-10', Build: '4.10.0', Passed: 120, Rate: 95.5, Date: '12/03/2025', Status: 'Open' },
+  { Ticket: 'QA-2', Build: '4.9.1', Passed: 80, Rate: 100, Date: '2025-03-01', Status: 'Fixed' },
+  { Ticket: 'qa-3', Build: '', Passed: '', Rate: '', Date: '', Status: 'Open' },
+  { Ticket: 'QA-1', Build: '4.9.0', Passed: 9, Rate: 40, Date: 'Mar 20, 2025', Status: 'Not fixed' },
+];
+const schema: Record<string, ColumnSchema> = {
+  Ticket: { name: 'Ticket', type: 'text' },
+  Build: { name: 'Build', type: 'version' },
+  Passed: { name: 'Passed', type: 'number' },
+  Rate: { name: 'Rate', type: 'percentage' },
+  Date: { name: 'Date', type: 'date' },
+};
+
+const query = (patch: Partial<GridQuery>): GridQuery => ({ ...EMPTY_GRID_QUERY, ...patch });
+const sorted = (column: string, direction: 'asc' | 'desc' = 'asc') =>
+  applyGridQuery(rows, headers, query({ sort: { column, direction } }), schema).map(r => r[column]);
+
+describe('applyGridQuery sorting', () => {
+  it('sorts numbers and percentages by value, not as text', () => {
+    expect(sorted('Passed')).toEqual([9, 80, 120, '']);
+    expect(sorted('Rate', 'desc')).toEqual([100, 95.5, 40, '']);
+  });
+
+  it('sorts versions part by part', () => {
+    expect(sorted('Build')).toEqual(['4.9.0', '4.9.1', '4.10.0', '']);
+  });
+
+  it('sorts dates written in different formats chronologically', () => {
+    expect(sorted('Date')).toEqual(['2025-03-01', '12/03/2025', 'Mar 20, 2025', '']);
+    expect(sorted('Date', 'desc')).toEqual(['Mar 20, 2025', '12/03/2025', '2025-03-01', '']);
+  });
+
+  it('sorts text naturally and case-insensitively, with blanks last both ways', () => {
+    expect(sorted('Ticket')).toEqual(['QA-1', 'QA-2', 'qa-3', 'QA-10']);
+    expect(applyGridQuery(rows, headers, query({ sort: { column: 'Build', direction: 'desc' } })).map(r => r.Build)).toEqual(['4.10.0', '4.9.1', '4.9.0', '']);
+  });
+
+  it('leaves the rows it was given in their order', () => {
+    const copy = [...rows];
+    sorted('Passed');
+    expect(rows).toEqual(copy);
+  });
+});
+
+describe('applyGridQuery filtering', () => {
+  it('searches the given headers case-insensitively', () => {
+    expect(applyGridQuery(rows, headers, query({ search: '  FIXED ' })).map(r => r.Ticket)).toEqual(['QA-2', 'QA-1']);
+    expect(applyGridQuery(rows, ['Ticket'], query({ search: 'fixed' }))).toEqual([]);
+    expect(applyGridQuery(rows, headers, query({ search: '4.9' })).map(r => r.Ticket)).toEqual(['QA-2', 'QA-1']);
+  });
+
+  it('combines exact value filters and substring filters, ignoring empty ones', () => {
+    const result = applyGridQuery(rows, headers, query({ valueFilters: { Status: ['Open', 'Fixed'] }, textFilters: { Ticket: 'qa-1' } }));
+    expect(result.map(r => r.Ticket)).toEqual(['QA-10']);
+    expect(applyGridQuery(rows, headers, query({ valueFilters: { Status: [] }, textFilters: { Ticket: ' ' } }))).toHaveLength(4);
+  });
+
+  it('counts only non-empty criteria as active', () => {
+    expect(isGridQueryActive(query({ search: ' ', valueFilters: { Status: [] }, sort: { column: 'Ticket', direction: 'asc' } }))).toBe(false);
+    expect(isGridQueryActive(query({ textFilters: { Ticket: 'qa' } }))).toBe(true);
+  });
+});
+
+describe('applyGridLayout', () => {
+  it('orders and hides columns, appending ones the layout does not know', () => {
+    expect(applyGridLayout(headers, { order: ['Status', 'Gone', 'Ticket'], hidden: ['Rate'] })).toEqual(['Status', 'Ticket', 'Build', 'Passed', 'Date']);
+    expect(applyGridLayout(headers)).toBe(headers);
+  });
+});
+
+describe('distinctValues', () => {
+  it('lists non-blank values once, in natural order', () => {
+    expect(distinctValues(rows, 'Build')).toEqual(['4.9.0', '4.9.1', '4.10.0']);
+  });
+});
+
+describe('grid layout persistence', () => {
+  it('keeps layouts per profile and tab', () => {
+    const mobile = gridLayoutKey('mobile', 'new_issues');
+    const web = gridLayoutKey('web', 'new_issues');
+    saveGridLayouts(mobile, { current: { order: ['Status', 'Ticket'], hidden: ['Rate'] }, saved: { Triage: { order: ['Ticket'], hidden: [] } } });
+    saveGridLayouts(web, { saved: {} });
+    expect(loadGridLayouts(mobile)).toEqual({ current: { order: ['Status', 'Ticket'], hidden: ['Rate'] }, saved: { Triage: { order: ['Ticket'], hidden: [] } } });
+    expect(loadGridLayouts(web)).toEqual({ current: undefined, saved: {} });
+    expect(loadGridLayouts(gridLayoutKey('mobile', 'summary'))).toEqual({ current: undefined, saved: {} });
+  });
+
+  it('drops malformed entries and survives unreadable storage', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      'mobile/new_issues': { current: { order: ['Ticket', 7], hidden: 'Rate' }, saved: { Broken: { hidden: [] }, Ok: { order: [] } } },
+    }));
+    expect(loadGridLayouts('mobile/new_issues')).toEqual({ current: { order: ['Ticket'], hidden: [] }, saved: { Ok: { order: [], hidden: [] } } });
+    localStorage.setItem(STORAGE_KEY, '{not json');
+    expect(loadGridLayouts('mobile/new_issues')).toEqual({ current: undefined, saved: {} });
+    saveGridLayouts('mobile/new_issues', { saved: {} });
+    expect(JSON.parse(localStorage.getItem(STORAGE_KEY)!)).toEqual({ 'mobile/new_issues': { saved: {} } });
+  });
+});
@@ -0,0 +1,139 @@
+import { ColumnSchema, ColumnType } from "../types";
+import { getDate, getText } from "./schema";
+import { compareVersions } from "./smartCompare";
+
+const STORAGE_KEY = 'dashboard-grid-layouts';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface GridSort {
+  column: string;
+  direction: SortDirection;
+}
+
+export interface GridQuery {
+  search: string;
+  sort: GridSort | null;
+  // Multi-select columns filter on exact values, the rest on a substring
+  valueFilters: Record<string, string[]>;
+  textFilters: Record<string, string>;
+}
+
+export interface GridLayout {
+  order: string[];
+  hidden: string[];
+}
+
+export interface TabGridLayouts {
+  current?: GridLayout;
+  saved: Record<string, GridLayout>;
+}
+
+export const EMPTY_GRID_QUERY: GridQuery = { search: '', sort: null, valueFilters: {}, textFilters: {} };
+
+export const isGridQueryActive = (query: GridQuery) =>
+  query.search.trim() !== '' ||
+  Object.values(query.valueFilters).some(v => v.length > 0) ||
+  Object.values(query.textFilters).some(v => v.trim() !== '');
+
+// Blank cells sort last in both directions
+const isBlank = (v: any) => v === null || v === undefined || String(v).trim() === '';
+
+const compareCells = (a: Record<string, any>, b: Record<string, any>, column: string, type: ColumnType | undefined) => {
+  switch (type) {
+    case 'number':
+    case 'percentage':
+      return Number(a[column]) - Number(b[column]);
+    case 'version':
+      return compareVersions(getText(a, column), getText(b, column));
+    case 'date': {
+      const da = getDate(a, column)?.getTime() ?? 0;
+      const db = getDate(b, column)?.getTime() ?? 0;
+      return da - db;
+    }
+    default:
+      return getText(a, column).localeCompare(getText(b, column), undefined, { numeric: true, sensitivity: 'base' });
+  }
+};
+
+/**
+ * Applies search, per-column filters and sorting. Search and text filters
+ * are case-insensitive substring matches; only `headers` are searched.
+ */
+export const applyGridQuery = (rows: Record<string, any>[], headers: string[], query: GridQuery, schema?: Record<string, ColumnSchema>) => {
+  const needle = query.search.trim().toLowerCase();
+  const valueFilters = Object.entries(query.valueFilters).filter(([, values]) => values.length > 0);
+  const textFilters = Object.entries(query.textFilters)
+    .map(([col, text]) => [col, text.trim().toLowerCase()] as const)
+    .filter(([, text]) => text !== '');
+
+  let result = rows.filter(row =>
+    (!needle || headers.some(h => getText(row, h).toLowerCase().includes(needle))) &&
+    valueFilters.every(([col, values]) => values.includes(getText(row, col))) &&
+    textFilters.every(([col, text]) => getText(row, col).toLowerCase().includes(text))
+  );
+
+  if (query.sort) {
+    const { column, direction } = query.sort;
+    const type = schema?.[column]?.type;
+    const sign = direction === 'asc' ? 1 : -1;
+    result = [...result].sort((a, b) => {
+      const blankA = isBlank(a[column]);
+      const blankB = isBlank(b[column]);
+      if (blankA || blankB) return blankA === blankB ? 0 : blankA ? 1 : -1;
+      return sign * compareCells(a, b, column, type);
+    });
+  }
+  return result;
+};
+
+/**
+ * Orders and hides `headers` according to a layout. Columns the layout does
+ * not know yet (new in the sheet) are appended in sheet order.
+ */
+export const applyGridLayout = (headers: string[], layout?: GridLayout) => {
+  if (!layout) return headers;
+  const ordered = layout.order.filter(h => headers.includes(h));
+  const rest = headers.filter(h => !ordered.includes(h));
+  return [...ordered, ...rest].filter(h => !layout.hidden.includes(h));
+};
+
+export const distinctValues = (rows: Record<string, any>[], column: string) =>
+  Array.from(new Set(rows.map(r => getText(r, column)).filter(Boolean))).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+
+// --- PERSISTENCE ---
+
+const sanitizeLayout = (raw: any): GridLayout | undefined => {
+  if (!raw || !Array.isArray(raw.order)) return undefined;
+  return {
+    order: raw.order.filter((h: any) => typeof h === 'string'),
+    hidden: Array.isArray(raw.hidden) ? raw.hidden.filter((h: any) => typeof h === 'string') : [],
+  };
+};
+
+const readStore = (): Record<string, any> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return raw && typeof raw === 'object' ? raw : {};
+  } catch {
+    return {};
+  }
+};
+
+export const gridLayoutKey = (profileId: string, tabId: string) => `${profileId}/${tabId}`;
+
+export const loadGridLayouts = (key: string): TabGridLayouts => {
+  const raw = readStore()[key];
+  const saved: Record<string, GridLayout> = {};
+  if (raw?.saved && typeof raw.saved === 'object') {
+    Object.entries(raw.saved).forEach(([name, layout]) => {
+      const clean = sanitizeLayout(layout);
+      if (clean) saved[name] = clean;
+    });
+  }
+  return { current: sanitizeLayout(raw?.current), saved };
+};
+
+export const saveGridLayouts = (key: string, layouts: TabGridLayouts) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStore(), [key]: layouts }));
+};
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { ParseWarning } from '../types';
+import { countMalformedRows, createCSVTokenizer, parseCSV, parseCSVStream } from './dataParser';
+
+// Raw records and warnings for text pushed in the given chunks
+const tokenize = (chunks: string[], delimiter = ',') => {
+  const records: { fields: string[]; line: number }[] = [];
+  const warnings: ParseWarning[] = [];
+  const tokenizer = createCSVTokenizer((fields, line) => records.push({ fields, line }), w => warnings.push(w), delimiter);
+  chunks.forEach(tokenizer.push);
+  tokenizer.end();
+  return { records: records.map(r => r.fields), lines: records.map(r => r.line), warnings };
+};
+
+const streamOf = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(c => controller.enqueue(encoder.encode(c)));
+      controller.close();
+    },
+  });
+};
+
+describe('createCSVTokenizer', () => {
+  it('keeps delimiters inside quoted fields', () => {
+    expect(tokenize(['a,"b, c",d\n']).records).toEqual([['a', 'b, c', 'd']]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(tokenize(['"say ""hi""",""""\n']).records).toEqual([['say "hi"', '"']]);
+  });
+
+  it('treats CRLF, lone CR and LF alike', () => {
+    expect(tokenize(['a,b\r\nc,d\re,f\n']).records).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f']]);
+  });
+
+  it('keeps newlines inside quoted fields and counts their lines', () => {
+    const { records, lines } = tokenize(['id,note\n1,"line one\r\nline two"\n2,x\n']);
+    expect(records).toEqual([['id', 'note'], ['1', 'line one\nline two'], ['2', 'x']]);
+    expect(lines).toEqual([1, 2, 4]);
+  });
+
+  it('survives chunk boundaries inside quotes, doubled quotes and CRLF pairs', () => {
+    expect(tokenize(['a,"b', ', c"', '"', '",d\r', '\ne,f']).records).toEqual([['a', 'b, c"', 'd'], ['e', 'f']]);
+  });
+
+  it('trims unquoted fields only', () => {
+    expect(tokenize([' a , " b " \n']).records).toEqual([['a', ' b ']]);
+  });
+
+  it('reads other delimiters', () => {
+    expect(tokenize(['a\t"b\tc"\n'], '\t').records).toEqual([['a', 'b\tc']]);
+  });
+
+  it('warns about stray quotes and unterminated fields', () => {
+    const { records, warnings } = tokenize(['a,b"c\n"x"y,z\n"open']);
+    expect(records).toEqual([['a', 'b"c'], ['xy', 'z'], ['open']]);
+    expect(warnings).toEqual([
+      { scope: 'row', row: 1, message: 'Unexpected quote in unquoted field 2' },
+      { scope: 'row', row: 2, message: 'Unexpected text after closing quote in field 1' },
+      { scope: 'row', row: 3, message: 'Unterminated quoted field at end of file' },
+    ]);
+  });
+});
+
+describe('parseCSV', () => {
+  it('drops a leading byte order mark', () => {
+    expect(parseCSV('\uFEFFBuild,Platform\n4.12.0,iOS\n').headers).toEqual(['Build', 'Platform']);
+  });
+
+  it('skips blank lines and reads a last line without newline', () => {
+    const data = parseCSV('Ticket,Title\n\nQA-1,Crash\n,\nQA-2,Freeze');
+    expect(data.rows).toEqual([{ Ticket: 'QA-1', Title: 'Crash' }, { Ticket: 'QA-2', Title: 'Freeze' }]);
+  });
+
+  it('renames blank and duplicate headers', () => {
+    const data = parseCSV('Build,,build,Build\n1,2,3,4\n');
+    expect(data.headers).toEqual(['Build', 'Column 2', 'build (2)', 'Build (3)']);
+    expect(data.warnings).toEqual([
+      { scope: 'header', row: 1, message: "Blank header in column 2 renamed to 'Column 2'" },
+      { scope: 'header', row: 1, message: "Duplicate header 'build' renamed to 'build (2)'" },
+      { scope: 'header', row: 1, message: "Duplicate header 'Build' renamed to 'Build (3)'" },
+    ]);
+  });
+
+  it('pads short rows and drops extra values with a warning', () => {
+    const data = parseCSV('Ticket,Title,Status\nQA-1,Crash\nQA-2,Freeze,Open,extra\nQA-3,Hang,Open,\n');
+    expect(data.rows.map(r => r.Status)).toEqual(['', 'Open', 'Open']);
+    expect(data.warnings).toEqual([
+      { scope: 'row', row: 2, message: 'Expected 3 fields but found 2; missing values left blank' },
+      { scope: 'row', row: 3, message: 'Expected 3 fields but found 4; extra values dropped' },
+    ]);
+    expect(countMalformedRows(data.warnings)).toBe(2);
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(parseCSV('')).toMatchObject({ headers: [], rows: [] });
+  });
+});
+
+describe('parseCSVStream', () => {
+  it('parses a stream split inside a quoted field', async () => {
+    const data = await parseCSVStream(streamOf(['Ticket,Title\nQA-1,"Crash on ', 'save, then ""retry""\r', '\nagain"\nQA-2,Freeze\n']));
+    expect(data.rows).toEqual([
+      { Ticket: 'QA-1', Title: 'Crash on save, then "retry"\nagain' },
+      { Ticket: 'QA-2', Title: 'Freeze' },
+    ]);
+  });
+
+  it('decodes multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('Title\nCafé ✓\n');
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 10));
+        controller.enqueue(bytes.slice(10));
+        controller.close();
+      },
+    });
+    expect((await parseCSVStream(stream)).rows).toEqual([{ Title: 'Café ✓' }]);
+  });
+});
@@ -1,52 +1,199 @@
 
-import { DashboardData } from "../types";
-
-export const parseCSV = (csvText: string): DashboardData => {
-  const lines = csvText.split(/\r?\n/).filter(line => line.trim() !== "");
-  if (lines.length === 0) return { headers: [], rows: [] };
-
-  // Improved regex to handle commas inside quotes
-  const splitLine = (line: string) => {
-    const result = [];
-    let cur = "";
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
+import { DashboardData, ParseWarning } from "../types";
+import { applySchema } from "./schema";
+
+type RecordHandler = (fields: string[], line: number) => void;
+
+/**
+ * Incremental RFC 4180 tokenizer. Text can be pushed in arbitrary chunks
+ * (e.g. straight from a fetch body); completed records are emitted as soon
+ * as their terminating newline is seen, so quoted newlines and doubled
+ * quotes ("") survive chunk boundaries.
+ */
+export const createCSVTokenizer = (onRecord: RecordHandler, onWarning: (w: ParseWarning) => void, delimiter = ',') => {
+  let field = '';
+  let fields: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // saw a quote while quoted; next char decides if it was "" or a closing quote
+  let fieldWasQuoted = false;
+  let line = 1;
+  let recordLine = 1;
+  let pendingCR = false;
+  let started = false;
+
+  const endField = () => {
+    fields.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    onRecord(fields, recordLine);
+    fields = [];
+    recordLine = line;
+  };
+
+  const consume = (char: string) => {
+    if (quotePending) {
+      quotePending = false;
+      if (char === '"') {
+        field += '"';
+        return;
+      }
+      inQuotes = false;
+    }
+
+    if (inQuotes) {
       if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(cur.trim());
-        cur = "";
+        quotePending = true;
       } else {
-        cur += char;
+        if (char === '\n') line++;
+        field += char;
       }
+      return;
     }
-    result.push(cur.trim());
-    return result;
-  };
 
-  const headers = splitLine(lines[0]);
-  const rows = lines.slice(1).map(line => {
-    const values = splitLine(line);
-    const row: Record<string, any> = {};
-    
-    headers.forEach((header, index) => {
-      let val: any = values[index] || "";
-      
-      // Clean up surrounding quotes if they exist
-      if (typeof val === 'string') {
-        val = val.replace(/^"|"$/g, '');
+    if (char === '"') {
+      if (field.trim() === '' && !fieldWasQuoted) {
+        field = '';
+        inQuotes = true;
+        fieldWasQuoted = true;
+      } else {
+        onWarning({ scope: 'row', row: recordLine, message: `Unexpected quote in unquoted field ${fields.length + 1}` });
+        field += char;
       }
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n') {
+      line++;
+      endRecord();
+    } else if (!fieldWasQuoted) {
+      field += char;
+    } else if (char.trim() !== '') {
+      onWarning({ scope: 'row', row: recordLine, message: `Unexpected text after closing quote in field ${fields.length + 1}` });
+      field += char;
+    }
+  };
 
-      // Check if value is numeric
-      if (val !== "" && !isNaN(val as any) && typeof val !== 'boolean') {
-        row[header] = Number(val);
+  const push = (chunk: string) => {
+    let text = chunk;
+    if (!started) {
+      started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      // Normalise CRLF / lone CR to LF, even when a CRLF pair straddles two chunks
+      if (pendingCR) {
+        pendingCR = false;
+        if (char === '\n') continue;
+      }
+      if (char === '\r') {
+        pendingCR = true;
+        consume('\n');
       } else {
-        row[header] = val;
+        consume(char);
       }
-    });
-    return row;
+    }
+  };
+
+  const end = () => {
+    if (quotePending) {
+      quotePending = false;
+      inQuotes = false;
+    }
+    if (inQuotes) {
+      onWarning({ scope: 'row', row: recordLine, message: 'Unterminated quoted field at end of file' });
+      inQuotes = false;
+    }
+    if (field !== '' || fields.length > 0 || fieldWasQuoted) endRecord();
+  };
+
+  return { push, end };
+};
+
+const normalizeHeaders = (raw: string[], line: number, warn: (w: ParseWarning) => void) => {
+  const seen = new Map<string, number>();
+  return raw.map((h, i) => {
+    let name = h.trim();
+    if (!name) {
+      name = `Column ${i + 1}`;
+      warn({ scope: 'header', row: line, message: `Blank header in column ${i + 1} renamed to '${name}'` });
+    }
+    const key = name.toLowerCase();
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    if (count > 1) {
+      const renamed = `${name} (${count})`;
+      warn({ scope: 'header', row: line, message: `Duplicate header '${name}' renamed to '${renamed}'` });
+      name = renamed;
+    }
+    return name;
   });
+};
+
+/**
+ * Builds DashboardData incrementally from pushed CSV text
+ */
+export const createCSVParser = (delimiter = ',') => {
+  let headers: string[] | null = null;
+  const rows: Record<string, string>[] = [];
+  const warnings: ParseWarning[] = [];
+  const warn = (w: ParseWarning) => warnings.push(w);
+
+  const tokenizer = createCSVTokenizer((fields, line) => {
+    if (fields.every(f => f === '')) return;
+
+    if (!headers) {
+      headers = normalizeHeaders(fields, line, warn);
+      return;
+    }
 
-  return { headers, rows };
+    if (fields.length < headers.length) {
+      warn({ scope: 'row', row: line, message: `Expected ${headers.length} fields but found ${fields.length}; missing values left blank` });
+    } else if (fields.length > headers.length && fields.slice(headers.length).some(f => f !== '')) {
+      warn({ scope: 'row', row: line, message: `Expected ${headers.length} fields but found ${fields.length}; extra values dropped` });
+    }
+
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = fields[index] ?? "";
+    });
+    rows.push(row);
+  }, warn, delimiter);
+
+  return {
+    push: tokenizer.push,
+    // Values are typed against the inferred column schema once all rows are in
+    finish: (): DashboardData => {
+      tokenizer.end();
+      return applySchema({ headers: headers || [], rows, warnings });
+    },
+  };
 };
+
+export const parseCSV = (csvText: string, delimiter = ','): DashboardData => {
+  const parser = createCSVParser(delimiter);
+  parser.push(csvText);
+  return parser.finish();
+};
+
+export const parseCSVStream = async (stream: ReadableStream<Uint8Array>): Promise<DashboardData> => {
+  const parser = createCSVParser();
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  return parser.finish();
+};
+
+/**
+ * Number of distinct rows that produced at least one warning
+ */
+export const countMalformedRows = (warnings: ParseWarning[] = []) =>
+  new Set(warnings.filter(w => w.scope === 'row').map(w => w.row)).size;
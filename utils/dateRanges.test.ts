@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { findLastStoreRelease, isReleasedToStore, isRelativeDateRange, resolveDateRange, toISODate } from './dateRanges';
+
+const on = (iso: string, h = 0) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return new Date(y, m - 1, d, h);
+};
+
+describe('resolveDateRange', () => {
+  it('counts today as the last of the trailing days, across month and year ends', () => {
+    expect(resolveDateRange('last7', { today: on('2025-03-03', 18) })).toEqual({ startDate: '2025-02-25', endDate: '2025-03-03' });
+    expect(resolveDateRange('last30', { today: on('2025-01-10') })).toEqual({ startDate: '2024-12-12', endDate: '2025-01-10' });
+    expect(resolveDateRange('last90', { today: on('2024-03-31') })).toEqual({ startDate: '2024-01-02', endDate: '2024-03-31' });
+  });
+
+  it('covers the whole calendar quarter, on its first and last day alike', () => {
+    expect(resolveDateRange('thisQuarter', { today: on('2025-01-01') })).toEqual({ startDate: '2025-01-01', endDate: '2025-03-31' });
+    expect(resolveDateRange('thisQuarter', { today: on('2024-06-30') })).toEqual({ startDate: '2024-04-01', endDate: '2024-06-30' });
+    expect(resolveDateRange('thisQuarter', { today: on('2025-12-31') })).toEqual({ startDate: '2025-10-01', endDate: '2025-12-31' });
+  });
+
+  describe('thisSprint', () => {
+    const sprint = { start: '2025-03-03', lengthDays: 14 };
+
+    it('finds the sprint holding today from any sprint start', () => {
+      expect(resolveDateRange('thisSprint', { today: on('2025-03-10'), sprint })).toEqual({ startDate: '2025-03-03', endDate: '2025-03-16' });
+      expect(resolveDateRange('thisSprint', { today: on('2025-05-20'), sprint })).toEqual({ startDate: '2025-05-12', endDate: '2025-05-25' });
+    });
+
+    it('starts a new sprint on its first day and ends the old one the day before', () => {
+      expect(resolveDateRange('thisSprint', { today: on('2025-03-17'), sprint })?.startDate).toBe('2025-03-17');
+      expect(resolveDateRange('thisSprint', { today: on('2025-03-16', 23), sprint })?.startDate).toBe('2025-03-03');
+    });
+
+    it('counts back when the configured sprint starts after today', () => {
+      expect(resolveDateRange('thisSprint', { today: on('2025-02-20'), sprint })).toEqual({ startDate: '2025-02-17', endDate: '2025-03-02' });
+    });
+
+    it('keeps whole days across a daylight-saving change', () => {
+      expect(resolveDateRange('thisSprint', { today: on('2025-11-03'), sprint: { start: '2025-10-20', lengthDays: 7 } }))
+        .toEqual({ startDate: '2025-11-03', endDate: '2025-11-09' });
+    });
+
+    it('gives up without a usable cadence', () => {
+      expect(resolveDateRange('thisSprint', { today: on('2025-03-10') })).toBeNull();
+      expect(resolveDateRange('thisSprint', { today: on('2025-03-10'), sprint: { start: 'soon', lengthDays: 14 } })).toBeNull();
+    });
+  });
+
+  it('runs from the last store release to today, when there is one', () => {
+    expect(resolveDateRange('sinceLastStoreRelease', { today: on('2025-03-10'), lastStoreRelease: on('2025-02-28') }))
+      .toEqual({ startDate: '2025-02-28', endDate: '2025-03-10' });
+    expect(resolveDateRange('sinceLastStoreRelease', { today: on('2025-03-10'), lastStoreRelease: null })).toBeNull();
+  });
+});
+
+describe('isRelativeDateRange', () => {
+  it('accepts only known ranges', () => {
+    expect(isRelativeDateRange('last7')).toBe(true);
+    expect(isRelativeDateRange('last8')).toBe(false);
+    expect(isRelativeDateRange('toString')).toBe(false);
+    expect(isRelativeDateRange(7)).toBe(false);
+  });
+});
+
+describe('isReleasedToStore', () => {
+  it('accepts the ways sheets say a build went out', () => {
+    ['Yes', 'y', 'TRUE', 'Released', 'Live on Play Store', 'published', 'Done'].forEach(v => expect(isReleasedToStore(v)).toBe(true));
+  });
+
+  it('rejects negatives even when they contain a positive word', () => {
+    ['No', 'Not released', 'Pending release', 'Rejected - resubmit', 'N/A', '', null, undefined, 'Yesterday', 'Delivery'].forEach(v =>
+      expect(isReleasedToStore(v)).toBe(false));
+  });
+});
+
+describe('findLastStoreRelease', () => {
+  it('returns the latest date among released rows', () => {
+    const rows = [
+      { Date: '01/03/2025', Store: 'Yes' },
+      { Date: '20/03/2025', Store: 'Not released' },
+      { Date: '10/03/2025', Store: 'Live' },
+      { Date: '', Store: 'Yes' },
+    ];
+    expect(toISODate(findLastStoreRelease(rows, 'Date', 'Store')!)).toBe('2025-03-10');
+    expect(findLastStoreRelease(rows, undefined, 'Store')).toBeNull();
+    expect(findLastStoreRelease([{ Date: '01/03/2025', Store: 'No' }], 'Date', 'Store')).toBeNull();
+  });
+});
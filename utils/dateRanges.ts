@@ -0,0 +1,90 @@
+import { SprintCadence } from "../types";
+import { getDate, getText, parseDateValue } from "./schema";
+
+export type RelativeDateRange = 'last7' | 'last30' | 'last90' | 'thisSprint' | 'thisQuarter' | 'sinceLastStoreRelease';
+
+export const RELATIVE_DATE_RANGES: Record<RelativeDateRange, string> = {
+  last7: 'Last 7 days',
+  last30: 'Last 30 days',
+  last90: 'Last 90 days',
+  thisSprint: 'This sprint',
+  thisQuarter: 'This quarter',
+  sinceLastStoreRelease: 'Since last store release',
+};
+
+export const isRelativeDateRange = (value: any): value is RelativeDateRange =>
+  typeof value === 'string' && Object.hasOwn(RELATIVE_DATE_RANGES, value);
+
+export interface DateRangeContext {
+  today: Date;
+  sprint?: SprintCadence;
+  lastStoreRelease?: Date | null;
+}
+
+export interface ResolvedDateRange {
+  startDate: string;
+  endDate: string;
+}
+
+const DAY_MS = 86400000;
+
+export const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+export const addDays = (d: Date, days: number) => new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+// Local YYYY-MM-DD; toISOString() would shift the day for anyone east or west of UTC
+export const toISODate = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Whole calendar days between two dates, safe across daylight-saving changes
+const daysBetween = (from: Date, to: Date) =>
+  Math.round((Date.UTC(to.getFullYear(), to.getMonth(), to.getDate()) - Date.UTC(from.getFullYear(), from.getMonth(), from.getDate())) / DAY_MS);
+
+const lastDays = (today: Date, days: number): ResolvedDateRange =>
+  ({ startDate: toISODate(addDays(today, 1 - days)), endDate: toISODate(today) });
+
+/**
+ * Turns a relative range into concrete dates as of `ctx.today`. Returns null
+ * when the range cannot be worked out (no sprint cadence configured, no store
+ * release in the data), in which case no date filter applies.
+ */
+export const resolveDateRange = (range: RelativeDateRange, ctx: DateRangeContext): ResolvedDateRange | null => {
+  const today = startOfDay(ctx.today);
+  switch (range) {
+    case 'last7':
+      return lastDays(today, 7);
+    case 'last30':
+      return lastDays(today, 30);
+    case 'last90':
+      return lastDays(today, 90);
+    case 'thisQuarter': {
+      const start = new Date(today.getFullYear(), Math.floor(today.getMonth() / 3) * 3, 1);
+      return { startDate: toISODate(start), endDate: toISODate(addDays(new Date(start.getFullYear(), start.getMonth() + 3, 1), -1)) };
+    }
+    case 'thisSprint': {
+      const anchor = ctx.sprint && parseDateValue(ctx.sprint.start);
+      if (!ctx.sprint || !anchor) return null;
+      const { lengthDays } = ctx.sprint;
+      const start = addDays(anchor, Math.floor(daysBetween(anchor, today) / lengthDays) * lengthDays);
+      return { startDate: toISODate(start), endDate: toISODate(addDays(start, lengthDays - 1)) };
+    }
+    case 'sinceLastStoreRelease':
+      return ctx.lastStoreRelease ? { startDate: toISODate(ctx.lastStoreRelease), endDate: toISODate(today) } : null;
+  }
+};
+
+// "Yes", "Released", "Live"... but not "Not released" or "No"
+export const isReleasedToStore = (value: any) => {
+  const s = String(value ?? '').trim().toLowerCase();
+  return !/\b(no|not|pending|rejected|n\/a)\b/.test(s) && /\b(yes|y|true|released|live|published|done)\b/.test(s);
+};
+
+export const findLastStoreRelease = (rows: Record<string, any>[], dateCol: string | undefined, releasedCol: string | undefined) => {
+  if (!dateCol || !releasedCol) return null;
+  let latest: Date | null = null;
+  rows.forEach(r => {
+    const d = getDate(r, dateCol);
+    if (d && isReleasedToStore(getText(r, releasedCol)) && (!latest || d > latest)) latest = d;
+  });
+  return latest as Date | null;
+};
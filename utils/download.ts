@@ -0,0 +1,14 @@
+// The download starts after click() returns; revoking the URL right away can cancel it in Firefox and Safari
+const REVOKE_DELAY_MS = 1000;
+
+/**
+ * Saves `content` as a file through a temporary link
+ */
+export const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { DashboardData } from '../types';
+import { EMPTY_FILTER_SPEC, FilterSpec, filterRows, isFilterActive } from './filterEngine';
+
+const summary: DashboardData = {
+  headers: ['Build', 'Platform', 'Build Type', 'Status', 'Released to Store', 'Date'],
+  rows: [
+    { Build: '4.12.0', Platform: 'iOS', 'Build Type': 'RC', Status: 'Pass', 'Released to Store': 'Yes', Date: '2025-03-10' },
+    { Build: '4.12.0', Platform: 'Android', 'Build Type': 'RC', Status: 'Fail', 'Released to Store': 'No', Date: '2025-03-11' },
+    { Build: '4.13.0', Platform: 'iOS', 'Build Type': 'Hotfix', Status: 'Pass', 'Released to Store': 'No', Date: '2025-03-20' },
+    { Build: '4.13.0', Platform: 'Android', 'Build Type': 'Hotfix', Status: 'Pending', 'Released to Store': 'No', Date: '2025-03-21' },
+  ],
+};
+const summaryCols = { build: 'Build', platform: 'Platform', buildType: 'Build Type', status: 'Status', releasedToStore: 'Released to Store', date: 'Date' };
+
+// No platform column, as in the New Issues tab
+const issues: DashboardData = {
+  headers: ['Build', 'Ticket', 'Severity'],
+  rows: [
+    { Build: '4.12.0', Ticket: 'QA-1', Severity: 'Critical' },
+    { Build: '4.12.1', Ticket: 'QA-2', Severity: 'Minor' },
+    { Build: '4.13.0', Ticket: 'QA-3', Severity: 'Critical' },
+  ],
+};
+const issueCols = { build: 'Build', severity: 'Severity' };
+
+const spec = (patch: Partial<FilterSpec>): FilterSpec => ({ ...EMPTY_FILTER_SPEC, ...patch });
+const builds = (rows: Record<string, any>[]) => rows.map(r => `${r.Build}/${r.Platform ?? r.Ticket}`);
+
+describe('filterRows', () => {
+  it('returns every row without filters', () => {
+    expect(filterRows(summary, EMPTY_FILTER_SPEC, { cols: summaryCols })).toHaveLength(4);
+    expect(isFilterActive(EMPTY_FILTER_SPEC)).toBe(false);
+  });
+
+  it('returns nothing for missing data', () => {
+    expect(filterRows(undefined, EMPTY_FILTER_SPEC, { cols: summaryCols })).toEqual([]);
+  });
+
+  it('filters by platform', () => {
+    expect(builds(filterRows(summary, spec({ platforms: ['iOS'] }), { cols: summaryCols }))).toEqual(['4.12.0/iOS', '4.13.0/iOS']);
+  });
+
+  it('lets selected builds take precedence over the platform selection', () => {
+    const rows = filterRows(summary, spec({ platforms: ['iOS'], builds: ['4.12.0'] }), { cols: summaryCols });
+    expect(builds(rows)).toEqual(['4.12.0/iOS']);
+  });
+
+  it('uses the selected builds instead of the platform\'s builds on tabs without a platform column', () => {
+    const rows = filterRows(issues, spec({ platforms: ['iOS'], builds: ['4.12.1'] }), { cols: issueCols, platformBuilds: ['4.12.0', '4.13.0'] });
+    expect(builds(rows)).toEqual(['4.12.1/QA-2']);
+  });
+
+  it('keeps the platform filter when the tab has no build column', () => {
+    const noBuild = { platform: 'Platform' };
+    expect(filterRows(summary, spec({ platforms: ['Android'], builds: ['4.12.0'] }), { cols: noBuild })).toHaveLength(2);
+  });
+
+  it('falls back to the platform\'s builds for tabs without a platform column', () => {
+    const rows = filterRows(issues, spec({ platforms: ['iOS'] }), { cols: issueCols, platformBuilds: ['4.12.0', '4.13.0'] });
+    expect(builds(rows)).toEqual(['4.12.0/QA-1', '4.13.0/QA-3']);
+  });
+
+  it('ignores the platform filter on tabs without a platform column or known builds', () => {
+    expect(filterRows(issues, spec({ platforms: ['iOS'] }), { cols: issueCols })).toHaveLength(3);
+  });
+
+  it('filters by build type', () => {
+    expect(builds(filterRows(summary, spec({ buildTypes: ['hotfix'] }), { cols: summaryCols }))).toEqual(['4.13.0/iOS', '4.13.0/Android']);
+  });
+
+  it('filters by status, matching any of the selected values', () => {
+    expect(builds(filterRows(summary, spec({ statuses: ['Fail', 'Pending'] }), { cols: summaryCols }))).toEqual(['4.12.0/Android', '4.13.0/Android']);
+  });
+
+  it('filters by severity and leaves tabs without a severity column alone', () => {
+    expect(builds(filterRows(issues, spec({ severities: ['Critical'] }), { cols: issueCols }))).toEqual(['4.12.0/QA-1', '4.13.0/QA-3']);
+    expect(filterRows(summary, spec({ severities: ['Critical'] }), { cols: summaryCols })).toHaveLength(4);
+  });
+
+  it('filters by store release state', () => {
+    expect(builds(filterRows(summary, spec({ releasedToStore: ['Yes'] }), { cols: summaryCols }))).toEqual(['4.12.0/iOS']);
+  });
+
+  it('filters by an inclusive date range', () => {
+    const rows = filterRows(summary, spec({ startDate: '2025-03-11', endDate: '2025-03-20' }), { cols: summaryCols });
+    expect(builds(rows)).toEqual(['4.12.0/Android', '4.13.0/iOS']);
+  });
+
+  it('combines dimensions', () => {
+    const rows = filterRows(summary, spec({ platforms: ['Android'], statuses: ['Pending'] }), { cols: summaryCols });
+    expect(builds(rows)).toEqual(['4.13.0/Android']);
+  });
+});
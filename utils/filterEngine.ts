@@ -0,0 +1,109 @@
+import { DashboardData, LogicalField } from "../types";
+import { ResolvedColumns } from "./columnMapping";
+import { addDays, RelativeDateRange } from "./dateRanges";
+import { getDate, getText, parseDateValue } from "./schema";
+import { smartCompare } from "./smartCompare";
+
+/**
+ * What the user is filtering on. Every list dimension matches any of its
+ * values; an empty list means "all".
+ */
+export interface FilterSpec {
+  platforms: string[];
+  builds: string[];
+  startDate: string;
+  endDate: string;
+  // A relative range wins over startDate/endDate and is resolved when filtering
+  dateRange: RelativeDateRange | '';
+  buildTypes: string[];
+  statuses: string[];
+  severities: string[];
+  releasedToStore: string[];
+}
+
+export type FilterDimension = 'buildTypes' | 'statuses' | 'severities' | 'releasedToStore';
+
+export const EMPTY_DIMENSION_FILTERS: Record<FilterDimension, string[]> = {
+  buildTypes: [],
+  statuses: [],
+  severities: [],
+  releasedToStore: [],
+};
+
+export const EMPTY_FILTER_SPEC: FilterSpec = {
+  platforms: [],
+  builds: [],
+  startDate: '',
+  endDate: '',
+  dateRange: '',
+  ...EMPTY_DIMENSION_FILTERS,
+};
+
+// The extra dimensions and the logical field each one reads
+export const FILTER_DIMENSIONS: Record<FilterDimension, { field: LogicalField; label: string }> = {
+  buildTypes: { field: 'buildType', label: 'Build Type' },
+  statuses: { field: 'status', label: 'Status' },
+  severities: { field: 'severity', label: 'Severity' },
+  releasedToStore: { field: 'releasedToStore', label: 'Store Release' },
+};
+
+export interface FilterContext {
+  cols: Partial<ResolvedColumns>;
+  // Builds that belong to the selected platforms, for tabs that have a build column but no platform column
+  platformBuilds?: string[];
+}
+
+export const isFilterActive = (spec: FilterSpec) =>
+  spec.platforms.length > 0 || spec.builds.length > 0 || !!spec.startDate || !!spec.endDate || !!spec.dateRange ||
+  (Object.keys(FILTER_DIMENSIONS) as FilterDimension[]).some(d => spec[d].length > 0);
+
+// Inclusive by calendar day: a row stamped 10:30 on the end date is still in range
+export const isWithinDateRange = (row: Record<string, any>, dCol: string | undefined, startDate: string, endDate: string) => {
+  const bd = getDate(row, dCol);
+  if (!bd) return false;
+  const start = parseDateValue(startDate);
+  const end = parseDateValue(endDate);
+  return (!start || bd >= start) && (!end || bd < addDays(end, 1));
+};
+
+const matchesAny = (value: any, wanted: string[]) => wanted.some(w => smartCompare(value, w));
+
+/**
+ * Returns the rows of `data` matching `spec`. A dimension only applies to
+ * tabs that have a column for it, so e.g. a severity filter leaves the
+ * summary sheet alone and a date range ignores undated tabs. Platform and
+ * build narrow together; only on tabs without a platform column do selected
+ * builds replace the platform's build list.
+ * `dateRange` is not read here; callers resolve it into startDate/endDate first.
+ */
+export const filterRows = (data: DashboardData | undefined, spec: FilterSpec, { cols, platformBuilds }: FilterContext): Record<string, any>[] => {
+  if (!data) return [];
+  const predicates: ((row: Record<string, any>) => boolean)[] = [];
+  const buildSelected = spec.builds.length > 0 && !!cols.build;
+
+  if (spec.platforms.length > 0) {
+    if (cols.platform) {
+      const pCol = cols.platform;
+      predicates.push(r => matchesAny(r[pCol], spec.platforms));
+    } else if (cols.build && platformBuilds && !buildSelected) {
+      const bCol = cols.build;
+      predicates.push(r => matchesAny(r[bCol], platformBuilds));
+    }
+  }
+  if (buildSelected) {
+    const bCol = cols.build!;
+    predicates.push(r => matchesAny(r[bCol], spec.builds));
+  }
+  if ((spec.startDate || spec.endDate) && cols.date) {
+    predicates.push(r => isWithinDateRange(r, cols.date, spec.startDate, spec.endDate));
+  }
+  (Object.keys(FILTER_DIMENSIONS) as FilterDimension[]).forEach(dim => {
+    const col = cols[FILTER_DIMENSIONS[dim].field];
+    if (spec[dim].length > 0 && col) {
+      const wanted = spec[dim].map(v => v.toLowerCase());
+      predicates.push(r => wanted.includes(getText(r, col).toLowerCase()));
+    }
+  });
+
+  return predicates.length === 0 ? data.rows : data.rows.filter(r => predicates.every(p => p(r)));
+};
@@ -0,0 +1,82 @@
+import { isRelativeDateRange } from "./dateRanges";
+import { EMPTY_FILTER_SPEC, FilterSpec } from "./filterEngine";
+
+const STORAGE_KEY = 'dashboard-filter-presets';
+
+export interface FilterPreset {
+  name: string;
+  spec: FilterSpec;
+}
+
+// --- PERSISTENCE ---
+
+const stringList = (raw: any): string[] =>
+  Array.isArray(raw) ? raw.filter(v => typeof v === 'string' && v.trim() !== '') : [];
+
+const sanitizeSpec = (raw: any): FilterSpec => {
+  const spec = { ...EMPTY_FILTER_SPEC };
+  if (!raw || typeof raw !== 'object') return spec;
+  (Object.keys(EMPTY_FILTER_SPEC) as (keyof FilterSpec)[]).forEach(key => {
+    if (key === 'startDate' || key === 'endDate') {
+      spec[key] = typeof raw[key] === 'string' ? raw[key] : '';
+    } else if (key === 'dateRange') {
+      spec[key] = isRelativeDateRange(raw[key]) ? raw[key] : '';
+    } else {
+      spec[key] = stringList(raw[key]);
+    }
+  });
+  return spec;
+};
+
+const sanitizePresets = (raw: any): FilterPreset[] => {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw.flatMap(p => {
+    const name = typeof p?.name === 'string' ? p.name.trim() : '';
+    if (!name || seen.has(name)) return [];
+    seen.add(name);
+    return [{ name, spec: sanitizeSpec(p.spec) }];
+  });
+};
+
+const readStore = (): Record<string, any> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return raw && typeof raw === 'object' ? raw : {};
+  } catch {
+    return {};
+  }
+};
+
+// Presets are kept per data-source profile; build names rarely carry over between products
+export const loadFilterPresets = (profileId: string): FilterPreset[] =>
+  sanitizePresets(readStore()[profileId]);
+
+export const saveFilterPresets = (profileId: string, presets: FilterPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStore(), [profileId]: presets }));
+};
+
+/**
+ * Adds `preset`, replacing one with the same name in place so re-saving
+ * keeps the list order the team is used to.
+ */
+export const upsertFilterPreset = (presets: FilterPreset[], preset: FilterPreset) =>
+  presets.some(p => p.name === preset.name)
+    ? presets.map(p => p.name === preset.name ? preset : p)
+    : [...presets, preset];
+
+export const serializeFilterPresets = (presets: FilterPreset[]) =>
+  JSON.stringify({ version: 1, presets }, null, 2);
+
+export const parseFilterPresetsFile = (text: string): FilterPreset[] => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Filter preset file is not valid JSON.');
+  }
+  // Accept both the exported envelope and a bare array of presets
+  const presets = sanitizePresets(Array.isArray(raw) ? raw : raw?.presets);
+  if (presets.length === 0) throw new Error('No filter presets found in this file.');
+  return presets;
+};
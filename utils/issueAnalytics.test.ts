@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeIssues } from './issueAnalytics';
+
+const cols = { ticket: 'Ticket', title: 'Title', build: 'Build', platform: 'Platform', status: 'Status', date: 'Reported', closedDate: 'Closed', module: 'Module' };
+const NOW = new Date(2025, 2, 31, 15, 30);
+
+const issue = (patch: Record<string, any>) => ({ Ticket: '', Title: 'Untitled', Build: '4.12.0', Platform: 'iOS', Status: 'Open', Reported: '', Closed: '', Module: '', ...patch });
+const analyze = (rows: Record<string, any>[], c: Record<string, string> = cols, summary = {}) => analyzeIssues(rows, c, summary, NOW);
+
+describe('analyzeIssues', () => {
+  describe('burn-down', () => {
+    it('plots a daily point per day for short spans, counting resolved issues without a closed date as closed today', () => {
+      const { burnDown } = analyze([
+        issue({ Reported: '2025-03-25', Closed: '2025-03-27', Status: 'Fixed' }),
+        issue({ Reported: '2025-03-26' }),
+        issue({ Reported: '2025-03-28', Status: 'Closed' }),
+        issue({ Reported: '' }),
+      ]);
+      expect(burnDown.map(p => p.date)).toEqual(['2025-03-25', '2025-03-26', '2025-03-27', '2025-03-28', '2025-03-29', '2025-03-30', '2025-03-31']);
+      expect(burnDown.map(p => p.Reported)).toEqual([1, 2, 2, 3, 3, 3, 3]);
+      expect(burnDown.map(p => p.Closed)).toEqual([0, 0, 1, 1, 1, 1, 2]);
+      expect(burnDown.map(p => p.Open)).toEqual([1, 2, 1, 2, 2, 2, 1]);
+    });
+
+    it('steps weekly past 60 days and always ends on today', () => {
+      const { burnDown } = analyze([issue({ Reported: '2025-01-01', Closed: '2025-01-03', Status: 'Fixed' }), issue({ Reported: '2025-03-30' })]);
+      expect(burnDown).toHaveLength(14);
+      expect(burnDown.slice(0, 2).map(p => p.date)).toEqual(['2025-01-01', '2025-01-08']);
+      expect(burnDown.slice(-2).map(p => p.date)).toEqual(['2025-03-26', '2025-03-31']);
+      expect(burnDown[burnDown.length - 1]).toEqual({ date: '2025-03-31', Reported: 2, Open: 1, Closed: 1 });
+    });
+
+    it('steps monthly past two years', () => {
+      const { burnDown } = analyze([issue({ Reported: '2022-01-01' })]);
+      expect(burnDown.slice(0, 2).map(p => p.date)).toEqual(['2022-01-01', '2022-01-31']);
+    });
+
+    it('leaves open and closed unknown without closed dates', () => {
+      const { burnDown, hasClosedDates } = analyze([issue({ Reported: '2025-03-30', Status: 'Fixed' })]);
+      expect(hasClosedDates).toBe(false);
+      expect(burnDown).toEqual([
+        { date: '2025-03-30', Reported: 1, Open: null, Closed: null },
+        { date: '2025-03-31', Reported: 1, Open: null, Closed: null },
+      ]);
+    });
+
+    it('is empty when no issue has a reported date', () => {
+      expect(analyze([issue({})]).burnDown).toEqual([]);
+    });
+  });
+
+  it('buckets open issues by age in whole days, with undated ones apart', () => {
+    const { ageBuckets, open, closed } = analyze([
+      issue({ Reported: '2025-03-31' }),
+      issue({ Reported: '2025-03-24' }),
+      issue({ Reported: '2025-03-23' }),
+      issue({ Reported: '2025-03-01' }),
+      issue({ Reported: '2025-02-28' }),
+      issue({ Reported: '2025-01-29' }),
+      issue({ Reported: '' }),
+      issue({ Reported: '2025-01-01', Status: 'Resolved' }),
+    ]);
+    expect(ageBuckets).toEqual([
+      { name: '≤ 7 days', count: 2 },
+      { name: '8–14 days', count: 1 },
+      { name: '15–30 days', count: 1 },
+      { name: '31–60 days', count: 1 },
+      { name: '> 60 days', count: 1 },
+      { name: 'No date', count: 1 },
+    ]);
+    expect({ open, closed }).toEqual({ open: 7, closed: 1 });
+  });
+
+  it('takes the median resolution time over issues with both dates', () => {
+    const resolved = (reported: string, closedOn: string) => issue({ Reported: reported, Closed: closedOn, Status: 'Verified' });
+    const rows = [resolved('2025-03-01', '2025-03-02'), resolved('2025-03-01', '2025-03-11'), resolved('2025-03-01', '2025-03-04'), issue({ Reported: '2025-03-01', Status: 'Fixed' })];
+    expect(analyze(rows).medianResolutionDays).toBe(3);
+    expect(analyze([...rows, resolved('2025-03-01', '2025-03-21')]).medianResolutionDays).toBe(6.5);
+    // Not fixed is still open, closed date or not
+    expect(analyze([issue({ Reported: '2025-03-01', Closed: '2025-03-02', Status: 'Not fixed' })]).medianResolutionDays).toBeNull();
+  });
+
+  describe('escapes', () => {
+    const summary = {
+      data: {
+        headers: ['Build', 'Platform', 'Released', 'Release Date'],
+        rows: [
+          { Build: 'RC 4.12.0', Platform: 'iOS', Released: 'Yes', 'Release Date': '2025-03-10' },
+          { Build: '4.12.0', Platform: 'Android', Released: 'Not yet', 'Release Date': '2025-03-10' },
+        ],
+      },
+      cols: { build: 'Build', platform: 'Platform', releasedToStore: 'Released', releaseDate: 'Release Date' },
+    };
+
+    it('counts issues reported after their build reached the store, matching builds loosely', () => {
+      const { escapes } = analyze([
+        issue({ Title: 'Same day', Reported: '2025-03-10' }),
+        issue({ Title: 'Day after', Reported: '2025-03-11' }),
+        issue({ Title: 'No platform', Build: 'v4.12.0', Platform: '', Reported: '2025-03-20' }),
+        issue({ Title: 'Unreleased platform', Platform: 'Android', Reported: '2025-03-20' }),
+        issue({ Title: 'Other build', Build: '4.13.0', Reported: '2025-03-20' }),
+      ], cols, summary);
+      expect(escapes).toMatchObject({ escaped: 2, total: 3 });
+      expect(escapes!.rate).toBeCloseTo(66.67, 1);
+      expect(escapes!.issues).toEqual([
+        { title: 'Day after', build: '4.12.0', reported: '2025-03-11', released: '2025-03-10' },
+        { title: 'No platform', build: 'v4.12.0', reported: '2025-03-20', released: '2025-03-10' },
+      ]);
+    });
+
+    it('needs release columns and reported dates', () => {
+      const rows = [issue({ Reported: '2025-03-11' })];
+      expect(analyze(rows, cols, { ...summary, cols: { ...summary.cols, releasedToStore: undefined } }).escapes).toBeNull();
+      expect(analyze([issue({})], cols, summary).escapes).toBeNull();
+    });
+  });
+
+  it('groups recurring titles across builds, ignoring ticket keys, numbers and platform tags', () => {
+    const { recurring } = analyze([
+      issue({ Title: '[iOS] Crash on login QA-12', Build: '4.12.0' }),
+      issue({ Title: 'Crash on login (QA-40)', Build: '4.13.0' }),
+      issue({ Title: 'crash on login', Build: 'v4.12.0' }),
+      issue({ Title: 'Slow sync after 30 s', Build: '4.12.0' }),
+      issue({ Title: 'Slow sync after 45 s', Build: '4.12.0' }),
+      issue({ Title: 'Login crash', Build: '4.14.0' }),
+    ]);
+    expect(recurring).toEqual([{ title: '[iOS] Crash on login QA-12', count: 3, builds: ['4.12.0', '4.13.0'] }]);
+  });
+
+  it('breaks issues down by module, folding the long tail into Other', () => {
+    const rows = Array.from({ length: 12 }, (_, i) => issue({ Module: `Module ${i}`, Status: i ? 'Open' : 'Fixed' }));
+    rows.push(issue({ Module: 'Module 5' }), issue({ Module: '' }));
+    const { byModule, byAssignee } = analyze(rows);
+    expect(byModule).toHaveLength(10);
+    expect(byModule![0]).toEqual({ name: 'Module 5', open: 2, closed: 0 });
+    expect(byModule![9]).toMatchObject({ name: 'Other (4)' });
+    expect(byAssignee).toBeNull();
+    expect(analyze([issue({ Module: '' })]).byModule).toEqual([{ name: '(none)', open: 1, closed: 0 }]);
+  });
+});
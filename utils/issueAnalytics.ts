@@ -0,0 +1,237 @@
+import { ResolvedColumns } from "./columnMapping";
+import { TabInput } from "./buildComparison";
+import { addDays, isReleasedToStore, startOfDay, toISODate } from "./dateRanges";
+import { isResolvedStatus } from "./qualityGates";
+import { getDate, getText } from "./schema";
+import { smartCompare } from "./smartCompare";
+
+export interface BurnDownPoint {
+  date: string;
+  Reported: number;
+  // null without a closed-date column: there is no way to tell when issues closed
+  Open: number | null;
+  Closed: number | null;
+}
+
+export interface IssueBreakdown {
+  name: string;
+  open: number;
+  closed: number;
+}
+
+export interface EscapedIssue {
+  title: string;
+  build: string;
+  reported: string;
+  released: string;
+}
+
+export interface EscapeRate {
+  escaped: number;
+  // Issues logged against builds that went to the store
+  total: number;
+  rate: number | null;
+  issues: EscapedIssue[];
+}
+
+export interface RecurringIssue {
+  title: string;
+  count: number;
+  builds: string[];
+}
+
+export interface IssueAnalytics {
+  total: number;
+  open: number;
+  closed: number;
+  hasReportedDates: boolean;
+  hasClosedDates: boolean;
+  burnDown: BurnDownPoint[];
+  ageBuckets: { name: string; count: number }[];
+  medianResolutionDays: number | null;
+  // null when the sheet has no such column
+  byModule: IssueBreakdown[] | null;
+  byAssignee: IssueBreakdown[] | null;
+  escapes: EscapeRate | null;
+  recurring: RecurringIssue[];
+}
+
+interface IssueRecord {
+  row: Record<string, any>;
+  title: string;
+  build: string;
+  platform: string;
+  resolved: boolean;
+  reported: Date | null;
+  closed: Date | null;
+}
+
+const DAY_MS = 86400000;
+const MAX_BREAKDOWN_ROWS = 10;
+const MAX_RECURRING = 10;
+
+const AGE_BUCKETS = [
+  { name: '≤ 7 days', maxDays: 7 },
+  { name: '8–14 days', maxDays: 14 },
+  { name: '15–30 days', maxDays: 30 },
+  { name: '31–60 days', maxDays: 60 },
+  { name: '> 60 days', maxDays: Infinity },
+];
+
+const daysBetween = (from: Date, to: Date) => Math.max(0, Math.floor((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS));
+
+// Titles that differ only by ticket keys, numbers or a [Platform] tag are the same problem
+const normalizeIssueTitle = (title: string) =>
+  title.toLowerCase()
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\b[a-z]+-\d+\b/g, ' ')
+    .replace(/\d+/g, ' ')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+
+const breakdown = (issues: IssueRecord[], key: (i: IssueRecord) => string): IssueBreakdown[] => {
+  const groups = new Map<string, IssueBreakdown>();
+  issues.forEach(i => {
+    const name = key(i) || '(none)';
+    const g = groups.get(name) || { name, open: 0, closed: 0 };
+    if (i.resolved) g.closed++;
+    else g.open++;
+    groups.set(name, g);
+  });
+  const sorted = Array.from(groups.values()).sort((a, b) => (b.open + b.closed) - (a.open + a.closed) || b.open - a.open);
+  if (sorted.length <= MAX_BREAKDOWN_ROWS) return sorted;
+  const rest = sorted.slice(MAX_BREAKDOWN_ROWS - 1);
+  return [
+    ...sorted.slice(0, MAX_BREAKDOWN_ROWS - 1),
+    { name: `Other (${rest.length})`, open: rest.reduce((n, g) => n + g.open, 0), closed: rest.reduce((n, g) => n + g.closed, 0) },
+  ];
+};
+
+// Daily points for short spans, weekly up to two years, monthly beyond
+const bucketDays = (spanDays: number) => spanDays <= 60 ? 1 : spanDays <= 730 ? 7 : 30;
+
+const buildBurnDown = (issues: IssueRecord[], hasClosedDates: boolean, today: Date): BurnDownPoint[] => {
+  const dated = issues.filter(i => i.reported);
+  if (dated.length === 0) return [];
+  const first = startOfDay(new Date(Math.min(...dated.map(i => i.reported!.getTime()))));
+  const step = bucketDays(daysBetween(first, today));
+  // Resolved issues with a blank closed date count as closed by today
+  const closedAt = (i: IssueRecord) => i.closed || (i.resolved ? today : null);
+
+  const points: BurnDownPoint[] = [];
+  for (let day = first; day <= today; day = addDays(day, step)) {
+    const end = addDays(day, 1);
+    points.push(pointAt(dated, end, toISODate(day), hasClosedDates, closedAt));
+  }
+  if (points[points.length - 1]?.date !== toISODate(today)) {
+    points.push(pointAt(dated, addDays(today, 1), toISODate(today), hasClosedDates, closedAt));
+  }
+  return points;
+};
+
+const pointAt = (issues: IssueRecord[], before: Date, date: string, hasClosedDates: boolean, closedAt: (i: IssueRecord) => Date | null): BurnDownPoint => {
+  const reported = issues.filter(i => i.reported! < before);
+  if (!hasClosedDates) return { date, Reported: reported.length, Open: null, Closed: null };
+  const closed = reported.filter(i => { const c = closedAt(i); return !!c && c < before; }).length;
+  return { date, Reported: reported.length, Open: reported.length - closed, Closed: closed };
+};
+
+/**
+ * Issues counted as escaped were reported after their build was marked
+ * released to store. The release day is the summary's release-date column,
+ * or its build date when the sheet has none.
+ */
+const measureEscapes = (issues: IssueRecord[], summary: TabInput): EscapeRate | null => {
+  const cols = summary.cols || {};
+  if (!summary.data || !cols.build || !cols.releasedToStore || !(cols.releaseDate || cols.date)) return null;
+  if (!issues.some(i => i.reported)) return null;
+
+  const releases = summary.data.rows
+    .filter(r => isReleasedToStore(getText(r, cols.releasedToStore)))
+    .map(r => ({ build: getText(r, cols.build), platform: getText(r, cols.platform), date: getDate(r, cols.releaseDate) || getDate(r, cols.date) }))
+    .filter(r => r.build && r.date);
+
+  let total = 0;
+  const escaped: EscapedIssue[] = [];
+  issues.forEach(i => {
+    const release = releases.find(r => smartCompare(r.build, i.build) && (!r.platform || !i.platform || smartCompare(r.platform, i.platform)));
+    if (!release) return;
+    total++;
+    if (i.reported && i.reported >= addDays(release.date!, 1)) {
+      escaped.push({ title: i.title, build: i.build, reported: toISODate(i.reported), released: toISODate(release.date!) });
+    }
+  });
+  return { escaped: escaped.length, total, rate: total ? (escaped.length / total) * 100 : null, issues: escaped };
+};
+
+const findRecurring = (issues: IssueRecord[]): RecurringIssue[] => {
+  const groups = new Map<string, RecurringIssue>();
+  issues.forEach(i => {
+    const key = normalizeIssueTitle(i.title);
+    if (!key) return;
+    const g = groups.get(key) || { title: i.title, count: 0, builds: [] };
+    g.count++;
+    if (i.build && !g.builds.some(b => smartCompare(b, i.build))) g.builds.push(i.build);
+    groups.set(key, g);
+  });
+  return Array.from(groups.values())
+    .filter(g => g.builds.length > 1)
+    .sort((a, b) => b.builds.length - a.builds.length || b.count - a.count)
+    .slice(0, MAX_RECURRING);
+};
+
+/**
+ * Analytics over the (already filtered) New Issues rows. Each section needs
+ * certain columns and comes back empty or null when the sheet lacks them.
+ */
+export const analyzeIssues = (rows: Record<string, any>[], cols: Partial<ResolvedColumns>, summary: TabInput, now = new Date()): IssueAnalytics => {
+  const today = startOfDay(now);
+  const issues: IssueRecord[] = rows.map(row => ({
+    row,
+    title: getText(row, cols.title) || getText(row, cols.ticket),
+    build: getText(row, cols.build),
+    platform: getText(row, cols.platform),
+    resolved: isResolvedStatus(getText(row, cols.status)),
+    reported: getDate(row, cols.date),
+    closed: getDate(row, cols.closedDate),
+  }));
+
+  const open = issues.filter(i => !i.resolved);
+  const hasReportedDates = issues.some(i => i.reported);
+  const hasClosedDates = !!cols.closedDate && issues.some(i => i.closed);
+
+  const ageBuckets = AGE_BUCKETS.map(b => ({ name: b.name, count: 0 }));
+  let undated = 0;
+  open.forEach(i => {
+    if (!i.reported) {
+      undated++;
+      return;
+    }
+    const age = daysBetween(i.reported, today);
+    ageBuckets[AGE_BUCKETS.findIndex(b => age <= b.maxDays)].count++;
+  });
+  if (undated > 0) ageBuckets.push({ name: 'No date', count: undated });
+
+  const resolutionDays = issues
+    .filter(i => i.resolved && i.reported && i.closed)
+    .map(i => daysBetween(i.reported!, i.closed!))
+    .sort((a, b) => a - b);
+  const mid = Math.floor(resolutionDays.length / 2);
+  const medianResolutionDays = resolutionDays.length === 0 ? null
+    : resolutionDays.length % 2 ? resolutionDays[mid] : (resolutionDays[mid - 1] + resolutionDays[mid]) / 2;
+
+  return {
+    total: issues.length,
+    open: open.length,
+    closed: issues.length - open.length,
+    hasReportedDates,
+    hasClosedDates,
+    burnDown: buildBurnDown(issues, hasClosedDates, today),
+    ageBuckets,
+    medianResolutionDays,
+    byModule: cols.module ? breakdown(issues, i => getText(i.row, cols.module)) : null,
+    byAssignee: cols.assignee ? breakdown(issues, i => getText(i.row, cols.assignee)) : null,
+    escapes: measureEscapes(issues, summary),
+    recurring: findRecurring(issues),
+  };
+};
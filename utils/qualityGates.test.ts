@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { DashboardData, GateRule } from '../types';
+import { evaluateQualityGates } from './qualityGates';
+
+const summary = {
+  data: {
+    headers: ['Build', 'Platform', 'Executed', 'Passed', 'Automation', 'Manual'],
+    rows: [
+      { Build: '4.12.0', Platform: 'iOS', Executed: 200, Passed: 196, Automation: '', Manual: '' },
+      { Build: '4.13.0', Platform: 'iOS', Executed: 200, Passed: 150, Automation: 80, Manual: 20 },
+    ],
+  } as DashboardData,
+  cols: { build: 'Build', platform: 'Platform', executed: 'Executed', passed: 'Passed', automation: 'Automation', manual: 'Manual' },
+};
+const issues = {
+  data: { headers: ['Build', 'Severity', 'Status'], rows: [{ Build: '4.13.0', Severity: 'Critical', Status: 'Open' }] } as DashboardData,
+  cols: { build: 'Build', severity: 'Severity', status: 'Status' },
+};
+
+const rule = (patch: Partial<GateRule> & Pick<GateRule, 'id' | 'metric'>): GateRule => ({ operator: '>=', threshold: 0, severity: 'block', enabled: true, ...patch });
+const passRate = rule({ id: 'pass-rate', metric: 'passRate', threshold: 95 });
+const critical = rule({ id: 'critical', metric: 'openCriticalIssues', operator: '<=', threshold: 0 });
+const coverage = rule({ id: 'coverage', metric: 'automationCoverage', threshold: 60, severity: 'warn' });
+
+const evaluate = (build: string, rules: GateRule[]) => evaluateQualityGates({ build, platform: 'iOS' }, rules, summary, issues, {});
+
+describe('evaluateQualityGates', () => {
+  it('passes when every rule is measured and met', () => {
+    const result = evaluate('4.12.0', [passRate, critical]);
+    expect(result.verdict).toBe('PASS');
+    expect(result.results.map(r => r.outcome)).toEqual(['pass', 'pass']);
+  });
+
+  it('blocks on a failing blocking rule and lists the evidence', () => {
+    const result = evaluate('4.13.0', [passRate, critical, coverage]);
+    expect(result.verdict).toBe('BLOCK');
+    expect(result.results.map(r => r.outcome)).toEqual(['fail', 'fail', 'pass']);
+    expect(result.results[1].evidence).toHaveLength(1);
+  });
+
+  it('warns on a failing warning rule', () => {
+    const result = evaluate('4.13.0', [{ ...coverage, threshold: 90 }]);
+    expect(result.verdict).toBe('WARN');
+  });
+
+  it('reports a blank metric as no data rather than a pass', () => {
+    const result = evaluate('4.12.0', [passRate, critical, coverage]);
+    expect(result.results[2]).toMatchObject({ actual: null, outcome: 'noData', evidence: [] });
+    expect(result.verdict).toBe('WARN');
+  });
+
+  it('reports a missing tab as no data', () => {
+    const validation = rule({ id: 'validation', metric: 'unfixedValidationTickets', operator: '<=', threshold: 0 });
+    const result = evaluate('4.12.0', [validation]);
+    expect(result.results[0].outcome).toBe('noData');
+    expect(result.verdict).toBe('WARN');
+  });
+
+  it('still blocks when another rule has no data', () => {
+    expect(evaluate('4.13.0', [critical, rule({ id: 'failed', metric: 'failedCount', operator: '<=' })]).verdict).toBe('BLOCK');
+  });
+
+  it('ignores disabled rules', () => {
+    expect(evaluate('4.12.0', [passRate, { ...coverage, enabled: false }]).verdict).toBe('PASS');
+  });
+});
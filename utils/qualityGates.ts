@@ -0,0 +1,197 @@
+import { GateMetric, GateOperator, GateRule, GateVerdict } from "../types";
+import { BuildRef, rowsForBuild, TabInput } from "./buildComparison";
+import { getNumber, getText } from "./schema";
+
+const STORAGE_KEY = 'dashboard-quality-gates';
+
+export type GateEvidenceTab = 'summary' | 'issues' | 'validation';
+
+interface MetricDefinition {
+  label: string;
+  unit: string;
+  operator: GateOperator;
+}
+
+export const GATE_METRICS: Record<GateMetric, MetricDefinition> = {
+  passRate: { label: 'Pass rate', unit: '%', operator: '>=' },
+  failedCount: { label: 'Failed test cases', unit: '', operator: '<=' },
+  automationCoverage: { label: 'Automation coverage', unit: '%', operator: '>=' },
+  openCriticalIssues: { label: 'Open critical issues', unit: '', operator: '<=' },
+  openMajorIssues: { label: 'Open major issues', unit: '', operator: '<=' },
+  unfixedValidationTickets: { label: 'Validation tickets not fixed', unit: '', operator: '<=' },
+};
+
+export const DEFAULT_GATE_RULES: GateRule[] = [
+  { id: 'pass-rate', metric: 'passRate', operator: '>=', threshold: 95, severity: 'block', enabled: true },
+  { id: 'open-critical', metric: 'openCriticalIssues', operator: '<=', threshold: 0, severity: 'block', enabled: true },
+  { id: 'validation-fixed', metric: 'unfixedValidationTickets', operator: '<=', threshold: 0, severity: 'warn', enabled: true },
+  { id: 'automation-coverage', metric: 'automationCoverage', operator: '>=', threshold: 60, severity: 'warn', enabled: true },
+];
+
+export interface GateEvidence {
+  tab: GateEvidenceTab;
+  label: string;
+  detail: string;
+  status?: string;
+}
+
+// `noData` when the build has nothing to measure the metric on
+export type GateOutcome = 'pass' | 'fail' | 'noData';
+
+export interface GateRuleResult {
+  rule: GateRule;
+  actual: number | null;
+  outcome: GateOutcome;
+  evidence: GateEvidence[];
+}
+
+export interface BuildGateResult {
+  ref: BuildRef;
+  verdict: GateVerdict;
+  results: GateRuleResult[];
+}
+
+const CLOSED_RE = /\b(fixed|resolved|closed|done|verified|rejected|won'?t fix|duplicate)\b/i;
+const NEGATED_RE = /\bnot\b|unfixed|unresolved|re-?open/i;
+
+export const isResolvedStatus = (status: string) => CLOSED_RE.test(status) && !NEGATED_RE.test(status);
+
+const isFixedStatus = (status: string) => /\bfixed\b/i.test(status) && !NEGATED_RE.test(status);
+
+export const describeGateRule = (rule: GateRule) => {
+  const def = GATE_METRICS[rule.metric];
+  return `${def.label} ${rule.operator === '>=' ? '≥' : '≤'} ${rule.threshold}${def.unit}`;
+};
+
+export const formatGateValue = (rule: GateRule, value: number | null) => {
+  if (value === null) return 'No data';
+  const unit = GATE_METRICS[rule.metric].unit;
+  return unit === '%' ? `${value.toFixed(1)}%` : String(value);
+};
+
+const measure = (rule: GateRule, ref: BuildRef, summary: TabInput, issues: TabInput, validation: TabInput): { actual: number | null; evidence: GateEvidence[] } => {
+  const sumCols = summary.cols || {};
+  const sumRows = rowsForBuild(summary, ref);
+  const summaryEvidence = (detail: (r: Record<string, any>) => string) => sumRows.map(r => ({
+    tab: 'summary' as const,
+    label: `#${getText(r, sumCols.build)}${sumCols.platform ? ` · ${getText(r, sumCols.platform)}` : ''}`,
+    detail: detail(r),
+    status: getText(r, sumCols.status) || undefined,
+  }));
+
+  switch (rule.metric) {
+    case 'passRate': {
+      const executed = sumRows.reduce((acc, r) => acc + getNumber(r, sumCols.executed), 0);
+      if (!executed) return { actual: null, evidence: [] };
+      const passed = sumRows.reduce((acc, r) => acc + getNumber(r, sumCols.passed), 0);
+      return {
+        actual: (passed / executed) * 100,
+        evidence: summaryEvidence(r => `${getNumber(r, sumCols.passed)} of ${getNumber(r, sumCols.executed)} passed`),
+      };
+    }
+    case 'failedCount': {
+      if (sumRows.length === 0 || !sumCols.failed) return { actual: null, evidence: [] };
+      return {
+        actual: sumRows.reduce((acc, r) => acc + getNumber(r, sumCols.failed), 0),
+        evidence: summaryEvidence(r => `${getNumber(r, sumCols.failed)} failed`),
+      };
+    }
+    case 'automationCoverage': {
+      const automation = sumRows.reduce((acc, r) => acc + getNumber(r, sumCols.automation), 0);
+      const manual = sumRows.reduce((acc, r) => acc + getNumber(r, sumCols.manual), 0);
+      if (!automation && !manual) return { actual: null, evidence: [] };
+      return {
+        actual: (automation / (automation + manual)) * 100,
+        evidence: summaryEvidence(r => `${getNumber(r, sumCols.automation)} automated · ${getNumber(r, sumCols.manual)} manual`),
+      };
+    }
+    case 'openCriticalIssues':
+    case 'openMajorIssues': {
+      const cols = issues.cols || {};
+      if (!issues.data || !cols.build || !cols.severity) return { actual: null, evidence: [] };
+      const marker = rule.metric === 'openCriticalIssues' ? 'crit' : 'maj';
+      const open = rowsForBuild(issues, ref).filter(r =>
+        getText(r, cols.severity).toLowerCase().includes(marker) && !isResolvedStatus(getText(r, cols.status))
+      );
+      return {
+        actual: open.length,
+        evidence: open.map(r => ({
+          tab: 'issues',
+          label: getText(r, cols.ticket) || getText(r, cols.title) || 'Untitled issue',
+          detail: [getText(r, cols.ticket) ? getText(r, cols.title) : '', getText(r, cols.severity)].filter(Boolean).join(' · '),
+          status: getText(r, cols.status) || undefined,
+        })),
+      };
+    }
+    case 'unfixedValidationTickets': {
+      const cols = validation.cols || {};
+      if (!validation.data || !cols.build || !cols.status) return { actual: null, evidence: [] };
+      const rows = rowsForBuild(validation, ref);
+      if (rows.length === 0) return { actual: null, evidence: [] };
+      const unfixed = rows.filter(r => !isFixedStatus(getText(r, cols.status)));
+      return {
+        actual: unfixed.length,
+        evidence: unfixed.map(r => ({
+          tab: 'validation',
+          label: getText(r, cols.ticket) || getText(r, cols.title) || 'Untitled ticket',
+          detail: getText(r, cols.ticket) ? getText(r, cols.title) : '',
+          status: getText(r, cols.status) || undefined,
+        })),
+      };
+    }
+  }
+};
+
+/**
+ * Evaluates the enabled rules against one build. Any failing blocking rule
+ * makes the build BLOCK; otherwise any failing warning rule, or any rule
+ * without data, makes it WARN. PASS needs every rule measured and met.
+ */
+export const evaluateQualityGates = (ref: BuildRef, rules: GateRule[], summary: TabInput, issues: TabInput, validation: TabInput): BuildGateResult => {
+  const results: GateRuleResult[] = rules.filter(r => r.enabled).map(rule => {
+    const { actual, evidence } = measure(rule, ref, summary, issues, validation);
+    if (actual === null) return { rule, actual, outcome: 'noData' as const, evidence: [] };
+    const passed = rule.operator === '>=' ? actual >= rule.threshold : actual <= rule.threshold;
+    return { rule, actual, outcome: passed ? 'pass' as const : 'fail' as const, evidence: passed ? [] : evidence };
+  });
+
+  const failed = results.filter(r => r.outcome === 'fail');
+  const verdict: GateVerdict = failed.some(r => r.rule.severity === 'block') ? 'BLOCK'
+    : results.some(r => r.outcome !== 'pass') ? 'WARN' : 'PASS';
+  return { ref, verdict, results };
+};
+
+// --- PERSISTENCE ---
+
+const METRICS = Object.keys(GATE_METRICS) as GateMetric[];
+
+const sanitizeRules = (raw: any): GateRule[] | null => {
+  if (!Array.isArray(raw)) return null;
+  return raw
+    .filter(r => r && typeof r === 'object' && (METRICS as string[]).includes(r.metric) && Number.isFinite(Number(r.threshold)))
+    .map((r, i) => ({
+      id: typeof r.id === 'string' && r.id ? r.id : `rule-${i + 1}`,
+      metric: r.metric as GateMetric,
+      operator: r.operator === '<=' ? '<=' : '>=',
+      threshold: Number(r.threshold),
+      severity: r.severity === 'warn' ? 'warn' : 'block',
+      enabled: r.enabled !== false,
+    }));
+};
+
+const readStore = (): Record<string, any> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return raw && typeof raw === 'object' ? raw : {};
+  } catch {
+    return {};
+  }
+};
+
+// Rules are kept per data-source profile so each team can hold its own bar
+export const loadGateRules = (profileId: string): GateRule[] =>
+  sanitizeRules(readStore()[profileId]) || DEFAULT_GATE_RULES;
+
+export const saveGateRules = (profileId: string, rules: GateRule[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readStore(), [profileId]: rules }));
+};
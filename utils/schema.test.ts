@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { applySchema, getDate, getNumber, getText, inferColumnType, parseDateValue } from './schema';
+
+const day = (year: number, month: number, date: number, h = 0, m = 0) => new Date(year, month - 1, date, h, m);
+
+describe('parseDateValue', () => {
+  it('reads ISO dates as local dates', () => {
+    expect(parseDateValue('2025-03-12')).toEqual(day(2025, 3, 12));
+    expect(parseDateValue('2025-3-2')).toEqual(day(2025, 3, 2));
+  });
+
+  it('reads numeric dates day-first unless only month-first fits', () => {
+    expect(parseDateValue('12/03/2025')).toEqual(day(2025, 3, 12));
+    expect(parseDateValue('03/12/2025')).toEqual(day(2025, 12, 3));
+    expect(parseDateValue('03/25/2025')).toEqual(day(2025, 3, 25));
+    expect(parseDateValue('12.03.25')).toEqual(day(2025, 3, 12));
+    expect(parseDateValue('12-03-2025')).toEqual(day(2025, 3, 12));
+  });
+
+  it('rejects days a month does not have', () => {
+    expect(parseDateValue('31/02/2025')).toBeNull();
+    expect(parseDateValue('2025-02-29')).toBeNull();
+    expect(parseDateValue('13/13/2025')).toBeNull();
+  });
+
+  it('reads month names either way round', () => {
+    expect(parseDateValue('12-Mar-2025')).toEqual(day(2025, 3, 12));
+    expect(parseDateValue('12th March 2025')).toEqual(day(2025, 3, 12));
+    expect(parseDateValue('Mar 12, 2025')).toEqual(day(2025, 3, 12));
+    expect(parseDateValue('Sept. 2nd 25')).toEqual(day(2025, 9, 2));
+    expect(parseDateValue('12 Foo 2025')).toBeNull();
+  });
+
+  it('keeps a trailing time, in 24-hour or am/pm form', () => {
+    expect(parseDateValue('12/03/2025 14:30')).toEqual(day(2025, 3, 12, 14, 30));
+    expect(parseDateValue('12/03/2025 2:30 pm')).toEqual(day(2025, 3, 12, 14, 30));
+    expect(parseDateValue('Mar 12, 2025 12:05 am')).toEqual(day(2025, 3, 12, 0, 5));
+    expect(parseDateValue('2025-03-12T10:30:00Z')).toEqual(new Date(Date.UTC(2025, 2, 12, 10, 30)));
+  });
+
+  it('reads spreadsheet serials only within 1970 to 2100', () => {
+    expect(parseDateValue('45728')).toEqual(day(2025, 3, 12));
+    expect(parseDateValue(45728.5)).toEqual(day(2025, 3, 12, 12));
+    expect(parseDateValue(25569)).toEqual(day(1970, 1, 1));
+    expect(parseDateValue(25568)).toBeNull();
+    expect(parseDateValue(73052)).toBeNull();
+    expect(parseDateValue(42)).toBeNull();
+  });
+
+  it('returns null for blanks, text and invalid dates', () => {
+    expect(parseDateValue('')).toBeNull();
+    expect(parseDateValue(null)).toBeNull();
+    expect(parseDateValue('soon')).toBeNull();
+    expect(parseDateValue(new Date('nope'))).toBeNull();
+  });
+});
+
+describe('inferColumnType', () => {
+  const type = (header: string, values: string[]) => inferColumnType(header, values).type;
+
+  it('reads numbers, with or without thousands separators', () => {
+    expect(type('Passed', ['1,234', '12', '', '-3.5'])).toBe('number');
+    expect(type('Score', ['1.10', '2.5'])).toBe('number');
+  });
+
+  it('keeps numeric ids with leading zeros or id headers as text', () => {
+    expect(type('Reference', ['00123', '456'])).toBe('text');
+    expect(type('Jira ID', ['123', '456'])).toBe('text');
+    expect(type('Case Number', ['1', '2'])).toBe('text');
+    expect(type('Total Count', ['1', '2'])).toBe('number');
+  });
+
+  it('tells versions from numbers by header and by shape', () => {
+    expect(type('Build', ['1.10', '1.9', '2'])).toBe('version');
+    expect(type('RC Build', ['RC 4.12.0', 'v4.13.1-beta'])).toBe('version');
+    expect(type('App', ['4.12.0', '4.13.1'])).toBe('version');
+    expect(type('App', ['4.12', '4.13'])).toBe('number');
+  });
+
+  it('reads percentages and links', () => {
+    expect(type('Pass Rate', ['97.5%', '80 %'])).toBe('percentage');
+    expect(type('Link', ['https://jira.example.com/QA-1', 'http://x.io'])).toBe('url');
+  });
+
+  it('reads dates, letting a date header win over serial-looking numbers', () => {
+    expect(type('Build Date', ['2025-03-12', '12/03/2025', 'Mar 12, 2025'])).toBe('date');
+    expect(type('Reported Date', ['45728', '45729'])).toBe('date');
+    expect(type('Executed', ['45728', '45729'])).toBe('number');
+    expect(type('Milestone', ['12-Mar-2025', '1 April 2025'])).toBe('date');
+  });
+
+  it('makes low-cardinality columns enums with sorted values', () => {
+    expect(inferColumnType('Result', ['Pass', 'Fail', 'Pass', 'Pass'])).toEqual({ name: 'Result', type: 'enum', values: ['Fail', 'Pass'] });
+    expect(type('Comment', ['a', 'b', 'c'])).toBe('text');
+  });
+
+  it('allows more distinct values when the header names a category', () => {
+    const values = Array.from({ length: 20 }, (_, i) => `Value ${i}`);
+    expect(type('Status', values)).toBe('enum');
+    expect(type('Notes', values)).toBe('text');
+    expect(type('Status', Array.from({ length: 25 }, (_, i) => `Value ${i}`))).toBe('text');
+  });
+
+  it('makes empty columns text', () => {
+    expect(type('Anything', ['', '  '])).toBe('text');
+  });
+});
+
+describe('applySchema', () => {
+  it('converts numbers and percentages and leaves identifiers as written', () => {
+    const data = applySchema({
+      headers: ['Build', 'Ticket', 'Passed', 'Rate'],
+      rows: [{ Build: '1.10', Ticket: '00123', Passed: '1,234', Rate: '97.5%' }, { Build: '1.9', Ticket: '00456', Passed: '', Rate: '80%' }],
+    });
+    expect(data.rows).toEqual([
+      { Build: '1.10', Ticket: '00123', Passed: 1234, Rate: 97.5 },
+      { Build: '1.9', Ticket: '00456', Passed: '', Rate: 80 },
+    ]);
+    expect(data.schema?.Build.type).toBe('version');
+  });
+});
+
+describe('typed accessors', () => {
+  it('read numbers, text and memoised dates', () => {
+    const row = { Passed: 12, Title: '  Crash ', Date: '12/03/2025' };
+    expect(getNumber(row, 'Passed')).toBe(12);
+    expect(getNumber(row, 'Title')).toBe(0);
+    expect(getNumber(row, undefined)).toBe(0);
+    expect(getText(row, 'Title')).toBe('Crash');
+    expect(getDate(row, 'Date')).toEqual(day(2025, 3, 12));
+    expect(getDate(row, 'Date')).toBe(getDate(row, 'Date'));
+  });
+});
@@ -0,0 +1,185 @@
+import { ColumnSchema, ColumnType, DashboardData } from "../types";
+
+// Columns whose values are identifiers, even when they look numeric ("1.10", "00123")
+const VERSION_HEADER_HINT = /\b(build|version|release|rc)\b/i;
+const ID_HEADER_HINT = /\b(id|key|ticket|jira|no|number|#)\b/i;
+const DATE_HEADER_HINT = /\b(date|time|created|updated|reported)\b/i;
+const ENUM_HEADER_HINT = /\b(status|severity|priority|type|platform|os|result|state|category)\b/i;
+
+const NUMBER_RE = /^-?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?$/;
+const PERCENT_RE = /^-?\d+(\.\d+)?\s*%$/;
+const VERSION_RE = /^(rc|build|v|ver|version)?[\s:.-]*\d+(\.\d+)+([\s.-]?[a-z0-9]+)*$/i;
+const URL_RE = /^https?:\/\/\S+$/i;
+
+// Date formats found in the sheets; anything else is not treated as a date
+const ISO_DATE_RE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+const ISO_DATETIME_RE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+const NUMERIC_DATE_RE = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})$/;
+const DAY_MONTH_NAME_RE = /^(\d{1,2})(?:st|nd|rd|th)?[\s-]([a-z]{3,9})\.?[\s,-]+(\d{4}|\d{2})$/i;
+const MONTH_NAME_DAY_RE = /^([a-z]{3,9})\.?[\s-](\d{1,2})(?:st|nd|rd|th)?,?[\s-]+(\d{4}|\d{2})$/i;
+const TIME_SUFFIX_RE = /[\sT]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i;
+const SERIAL_RE = /^\d{5}(\.\d+)?$/;
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// Spreadsheet serial dates count days from 1899-12-30; only 1970-2100 is accepted so counts are not read as dates
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+const SERIAL_MIN = 25569;
+const SERIAL_MAX = 73051;
+const DAY_MS = 86400000;
+
+const MAX_ENUM_VALUES = 12;
+
+const isNumeric = (v: string) => v !== '' && NUMBER_RE.test(v) && !isNaN(Number(v.replace(/,/g, '')));
+const hasLeadingZero = (v: string) => /^-?0\d/.test(v);
+
+// Local calendar date; rejects overflow such as 31/02 instead of rolling into March
+const calendarDate = (year: number, month: number, day: number) => {
+  const d = new Date(year, month, day);
+  return d.getFullYear() === year && d.getMonth() === month && d.getDate() === day ? d : null;
+};
+
+const fullYear = (y: string) => y.length === 2 ? 2000 + Number(y) : Number(y);
+
+const monthFromName = (name: string) => {
+  const lower = name.toLowerCase();
+  return lower.length >= 3 ? MONTH_NAMES.findIndex(m => m.startsWith(lower)) : -1;
+};
+
+const fromSerial = (serial: number) => {
+  if (serial < SERIAL_MIN || serial > SERIAL_MAX) return null;
+  const utc = new Date(SERIAL_EPOCH + Math.round(serial * DAY_MS));
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(), utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds());
+};
+
+const parseDatePart = (s: string): Date | null => {
+  let m = s.match(ISO_DATE_RE);
+  if (m) return calendarDate(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+
+  m = s.match(NUMERIC_DATE_RE);
+  if (m) {
+    const a = Number(m[1]);
+    const b = Number(m[2]);
+    // The sheets are day-first; 03/25/2025 can only be month-first
+    const [day, month] = b > 12 && a <= 12 ? [b, a] : [a, b];
+    return calendarDate(fullYear(m[3]), month - 1, day);
+  }
+
+  m = s.match(DAY_MONTH_NAME_RE);
+  if (m && monthFromName(m[2]) >= 0) return calendarDate(fullYear(m[3]), monthFromName(m[2]), Number(m[1]));
+
+  m = s.match(MONTH_NAME_DAY_RE);
+  if (m && monthFromName(m[1]) >= 0) return calendarDate(fullYear(m[3]), monthFromName(m[1]), Number(m[2]));
+
+  return null;
+};
+
+/**
+ * Parses the date formats used in the sheets into a local date: ISO
+ * (2025-03-12), day-first numeric (12/03/2025, 12.03.25), month names
+ * (12-Mar-2025, Mar 12, 2025) and spreadsheet serial numbers (45728), each
+ * optionally followed by a time. `new Date()` alone would read 12/03/2025 as
+ * 3 December and put ISO dates at UTC midnight.
+ */
+export const parseDateValue = (value: any): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'number') return fromSerial(value);
+  const s = String(value ?? '').trim();
+  if (!s) return null;
+  if (SERIAL_RE.test(s)) return fromSerial(Number(s));
+  if (ISO_DATETIME_RE.test(s)) {
+    const d = new Date(s);
+    return isNaN(d.getTime()) ? null : d;
+  }
+
+  const time = s.match(TIME_SUFFIX_RE);
+  const date = parseDatePart(time ? s.slice(0, time.index).trim() : s);
+  if (!date || !time) return date;
+  let hours = Number(time[1]);
+  if (time[4]) hours = (hours % 12) + (time[4].toLowerCase() === 'pm' ? 12 : 0);
+  date.setHours(hours, Number(time[2]), Number(time[3] || 0));
+  return date;
+};
+
+export const inferColumnType = (header: string, values: string[]): ColumnSchema => {
+  const present = values.map(v => v.trim()).filter(v => v !== '');
+  const distinct = Array.from(new Set(present));
+
+  if (present.length === 0) return { name: header, type: 'text' };
+
+  const all = (test: (v: string) => boolean) => present.every(test);
+
+  if (all(v => URL_RE.test(v))) return { name: header, type: 'url' };
+  if (all(v => PERCENT_RE.test(v))) return { name: header, type: 'percentage' };
+  if (DATE_HEADER_HINT.test(header) && all(v => parseDateValue(v) !== null)) return { name: header, type: 'date' };
+
+  if (VERSION_HEADER_HINT.test(header) && all(v => VERSION_RE.test(v) || isNumeric(v))) {
+    return { name: header, type: 'version' };
+  }
+  if (all(isNumeric)) {
+    if (present.some(hasLeadingZero) || (ID_HEADER_HINT.test(header) && !/total|count|cases/i.test(header))) {
+      return { name: header, type: 'text' };
+    }
+    return { name: header, type: 'number' };
+  }
+  if (all(v => VERSION_RE.test(v))) return { name: header, type: 'version' };
+  if (all(v => parseDateValue(v) !== null)) return { name: header, type: 'date' };
+
+  const lowCardinality = distinct.length <= MAX_ENUM_VALUES && distinct.length <= Math.max(2, present.length / 2);
+  if (lowCardinality || (ENUM_HEADER_HINT.test(header) && distinct.length <= MAX_ENUM_VALUES * 2)) {
+    return { name: header, type: 'enum', values: distinct.sort() };
+  }
+  return { name: header, type: 'text' };
+};
+
+const coerce = (type: ColumnType, value: any) => {
+  const s = String(value ?? '').trim();
+  if (s === '') return '';
+  if (type === 'number') return Number(s.replace(/,/g, ''));
+  if (type === 'percentage') return Number(s.replace('%', '').trim());
+  return s;
+};
+
+/**
+ * Infers a schema for every column and converts numeric and percentage
+ * columns to numbers. Everything else stays as the sheet's original text so
+ * identifiers such as build "1.10" or ticket "00123" are preserved.
+ */
+export const applySchema = (data: DashboardData): DashboardData => {
+  const schema: Record<string, ColumnSchema> = {};
+  data.headers.forEach(h => {
+    schema[h] = inferColumnType(h, data.rows.map(r => String(r[h] ?? '')));
+  });
+  const rows = data.rows.map(r => {
+    const typed: Record<string, any> = {};
+    data.headers.forEach(h => { typed[h] = coerce(schema[h].type, r[h]); });
+    return typed;
+  });
+  return { ...data, rows, schema };
+};
+
+export const getColumnType = (data: DashboardData | undefined, col: string | undefined): ColumnType | undefined =>
+  col ? data?.schema?.[col]?.type : undefined;
+
+// --- TYPED ACCESSORS ---
+
+export const getNumber = (row: Record<string, any>, col: string | undefined) => {
+  if (!col || row[col] === undefined) return 0;
+  return Number(row[col]) || 0;
+};
+
+export const getText = (row: Record<string, any>, col: string | undefined) =>
+  col ? String(row[col] ?? '').trim() : '';
+
+// Parsed dates are memoised per row object, so filters and charts share one parse
+const dateCache = new WeakMap<object, Map<string, Date | null>>();
+
+export const getDate = (row: Record<string, any>, col: string | undefined): Date | null => {
+  if (!col) return null;
+  let cols = dateCache.get(row);
+  if (!cols) {
+    cols = new Map();
+    dateCache.set(row, cols);
+  }
+  if (!cols.has(col)) cols.set(col, parseDateValue(row[col]));
+  return cols.get(col)!;
+};
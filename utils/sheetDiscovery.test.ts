@@ -0,0 +1,86 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { DiscoveredSheet, matchSheet, parsePublishedSheets, scoreSheetName, sheetMatchError } from './sheetDiscovery';
+
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/pubhtml/${name}`, import.meta.url), 'utf8');
+
+describe('parsePublishedSheets', () => {
+  it('reads the tab switcher, decoding entities and nested markup', () => {
+    expect(parsePublishedSheets(fixture('tab-switcher.html'))).toEqual([
+      { name: 'Report Summary', gid: '0' },
+      { name: 'Summary Archive', gid: '1544328372' },
+      { name: 'New & Reopened Issues', gid: '476295067' },
+      { name: 'Ticket Validation', gid: '2057375142' },
+    ]);
+  });
+
+  it('reads the bootstrap script when a single-sheet page has no switcher', () => {
+    expect(parsePublishedSheets(fixture('script-only.html'))).toEqual([
+      { name: 'Summary – Q1', gid: '815203117' },
+      { name: 'Summary "old"', gid: '42' },
+    ]);
+  });
+
+  it('falls back to the legacy bootstrap array, skipping implausible names', () => {
+    expect(parsePublishedSheets(fixture('legacy-bootstrap.html'))).toEqual([
+      { name: 'Report Summary', gid: '0' },
+      { name: 'New Issues', gid: '476295067' },
+    ]);
+  });
+
+  it('returns nothing for a page without sheets', () => {
+    expect(parsePublishedSheets(fixture('no-sheets.html'))).toEqual([]);
+  });
+});
+
+describe('matchSheet', () => {
+  const sheets = parsePublishedSheets(fixture('tab-switcher.html'));
+
+  it('re-points on a name equal up to case, spacing and punctuation', () => {
+    expect(scoreSheetName('ticket-validation', 'Ticket Validation')).toBe(1);
+    const match = matchSheet('ticket-validation', sheets);
+    expect(match).toMatchObject({ kind: 'match', sheet: { gid: '2057375142' } });
+  });
+
+  it('only suggests "Summary Archive" for "Summary" instead of re-pointing to it', () => {
+    const match = matchSheet('Summary', [{ name: 'Summary Archive', gid: '1544328372' }]);
+    expect(match.kind).toBe('candidates');
+    expect(match.kind === 'candidates' && match.candidates.map(c => c.gid)).toEqual(['1544328372']);
+  });
+
+  it('prefers the exact "Summary" sheet over "Summary Archive"', () => {
+    const match = matchSheet('Summary', [{ name: 'Summary Archive', gid: '1' }, { name: 'Summary', gid: '2' }]);
+    expect(match).toMatchObject({ kind: 'match', sheet: { gid: '2' } });
+  });
+
+  it('does not re-point on a partial fit even when it is the best one', () => {
+    const match = matchSheet('Report Summary', [{ name: 'Report Summary Archive', gid: '1' }, { name: 'New Issues', gid: '2' }]);
+    expect(match.kind).toBe('candidates');
+    expect(match.kind === 'candidates' && match.candidates.map(c => c.name)).toEqual(['Report Summary Archive']);
+  });
+
+  it('ranks partial candidates best first', () => {
+    const match = matchSheet('Summary', sheets);
+    expect(match.kind === 'candidates' && match.candidates.map(c => c.name)).toEqual(['Report Summary', 'Summary Archive']);
+    expect(sheetMatchError('Summary', match)).toContain("closest: 'Report Summary', 'Summary Archive'");
+  });
+
+  it('reports several equally named sheets as candidates', () => {
+    const twins: DiscoveredSheet[] = [{ name: 'New Issues', gid: '1' }, { name: 'new-issues', gid: '2' }];
+    const match = matchSheet('New Issues', twins);
+    expect(match.kind === 'candidates' && match.candidates.map(c => c.gid)).toEqual(['1', '2']);
+    expect(sheetMatchError('New Issues', match)).toContain('could be any of');
+  });
+
+  it('treats singular and plural words alike when suggesting', () => {
+    expect(scoreSheetName('New Issue', 'New Issues')).toBe(0.9);
+    expect(matchSheet('New Issue', [{ name: 'New Issues', gid: '1' }]).kind).toBe('candidates');
+    expect(scoreSheetName('Issues', 'New & Reopened Issues')).toBeGreaterThan(0);
+  });
+
+  it('finds nothing for unrelated names', () => {
+    const match = matchSheet('Crash Reports', sheets);
+    expect(match.kind).toBe('none');
+    expect(sheetMatchError('Crash Reports', match)).toBe("Invalid source configuration. Tab 'Crash Reports' was not found.");
+  });
+});
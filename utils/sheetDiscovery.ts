@@ -0,0 +1,144 @@
+/**
+ * Tab discovery for published sheets: reads the sheet names and gids from
+ * the pubhtml page and decides which of them a configured tab refers to.
+ */
+
+const STORAGE_KEY = 'dashboard-pinned-gids';
+
+export interface DiscoveredSheet {
+  name: string;
+  gid: string;
+}
+
+export interface ScoredSheet extends DiscoveredSheet {
+  // 1 for the same name; token overlap below that
+  score: number;
+}
+
+/**
+ * `match` is the only outcome that re-points a tab by itself; `candidates`
+ * are offered in the sheet picker, best first.
+ */
+export type SheetMatch =
+  | { kind: 'match'; sheet: ScoredSheet }
+  | { kind: 'candidates'; candidates: ScoredSheet[] }
+  | { kind: 'none' };
+
+// Weaker fits are not even suggested
+const SUGGEST_MIN_SCORE = 0.4;
+
+// --- PARSING ---
+
+// One <li> per tab in the sheet switcher; the active tab carries extra attributes
+const SHEET_BUTTON = /<li\b[^>]*\bid="sheet-button-(\d+)"[^>]*>([\s\S]*?)<\/li>/gi;
+// Bootstrap script: items.push({name: "Report Summary", pageUrl: "…", gid: "0", …})
+const SCRIPT_ITEM = /items\.push\(\{\s*name:\s*"((?:[^"\\]|\\.)*)"[^}]*?\bgid:\s*"(\d+)"/g;
+// Older pages only list the tabs inside a bootstrap data array
+const LEGACY_SCRIPT_ITEM = /"([^"]+)",\d+,"(\d+)",\d+,\d+,"[^"]*",\d+/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (s: string) =>
+  s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] !== '#') return ENTITIES[code.toLowerCase()] ?? m;
+    const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(n) ? String.fromCodePoint(n) : m;
+  });
+
+const unescapeJsString = (s: string) =>
+  s.replace(/\\(?:x([0-9a-f]{2})|u([0-9a-f]{4})|(.))/gi, (m, hex, uni, ch) =>
+    hex || uni ? String.fromCharCode(parseInt(hex || uni, 16)) : ch);
+
+const cleanName = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+/**
+ * Lists the sheets of a pubhtml page in page order, one entry per gid. The
+ * tab switcher and the bootstrap script are both read, since either may be
+ * missing depending on the sheet count and page version.
+ */
+export const parsePublishedSheets = (html: string): DiscoveredSheet[] => {
+  const byGid = new Map<string, string>();
+  const add = (gid: string, name: string) => {
+    const cleaned = cleanName(name);
+    if (cleaned && !byGid.has(gid)) byGid.set(gid, cleaned);
+  };
+
+  for (const m of html.matchAll(SHEET_BUTTON)) add(m[1], decodeEntities(m[2].replace(/<[^>]*>/g, '')));
+  for (const m of html.matchAll(SCRIPT_ITEM)) add(m[2], unescapeJsString(m[1]));
+  if (byGid.size === 0) {
+    for (const m of html.matchAll(LEGACY_SCRIPT_ITEM)) {
+      if (m[1].length < 50) add(m[2], unescapeJsString(m[1]));
+    }
+  }
+  return Array.from(byGid, ([gid, name]) => ({ name, gid }));
+};
+
+// --- MATCHING ---
+
+const compact = (s: string) => s.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Lower-cased words with a plural "s" dropped, so "Issue" and "Issues" agree
+const tokens = (s: string) => new Set(
+  s.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(t => t.length > 3 && t.endsWith('s') ? t.slice(0, -1) : t)
+);
+
+/**
+ * How well a sheet name fits a tab label, 0..1. Names equal up to case,
+ * spacing and punctuation score 1. Others score by shared words over all
+ * words, so "Summary" fits "Summary" better than "Summary Archive".
+ */
+export const scoreSheetName = (label: string, name: string) => {
+  if (compact(label) !== '' && compact(label) === compact(name)) return 1;
+  const a = tokens(label);
+  const b = tokens(name);
+  if (a.size === 0 || b.size === 0) return 0;
+  const shared = [...a].filter(t => b.has(t)).length;
+  return 0.9 * shared / (a.size + b.size - shared);
+};
+
+/**
+ * Picks the sheet a tab label refers to. Only a single sheet carrying the
+ * label itself is a match: a partial fit such as "Summary Archive" for
+ * "Summary" may well be the wrong sheet, so it is only suggested.
+ */
+export const matchSheet = (label: string, sheets: DiscoveredSheet[]): SheetMatch => {
+  const scored = sheets
+    .map(s => ({ ...s, score: scoreSheetName(label, s.name) }))
+    .filter(s => s.score >= SUGGEST_MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+  const exact = scored.filter(s => s.score === 1);
+  if (exact.length === 1) return { kind: 'match', sheet: exact[0] };
+  if (exact.length > 1) return { kind: 'candidates', candidates: exact };
+  return scored.length > 0 ? { kind: 'candidates', candidates: scored } : { kind: 'none' };
+};
+
+export const sheetMatchError = (label: string, match: SheetMatch) => {
+  if (match.kind !== 'candidates') return `Invalid source configuration. Tab '${label}' was not found.`;
+  const names = match.candidates.map(c => `'${c.name}'`).join(', ');
+  return match.candidates[0].score === 1
+    ? `Tab '${label}' could be any of ${names}. Pick the right sheet below.`
+    : `Tab '${label}' was not found; closest: ${names}. Pick the right sheet below.`;
+};
+
+// --- PERSISTENCE ---
+
+const readStore = (): Record<string, any> => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return raw && typeof raw === 'object' ? raw : {};
+  } catch {
+    return {};
+  }
+};
+
+// Sheets picked by hand per profile (tab id -> gid); they win over the configured gid
+export const loadPinnedGids = (profileId: string): Record<string, string> => {
+  const raw = readStore()[profileId];
+  if (!raw || typeof raw !== 'object') return {};
+  return Object.fromEntries(Object.entries(raw).filter((e): e is [string, string] => typeof e[1] === 'string' && /^\d+$/.test(e[1])));
+};
+
+export const savePinnedGid = (profileId: string, tabId: string, gid: string) => {
+  const store = readStore();
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...store, [profileId]: { ...loadPinnedGids(profileId), [tabId]: gid } }));
+};
@@ -0,0 +1,43 @@
+// Robust comparison helper
+export const smartCompare = (a: any, b: any) => {
+  const sa = String(a || '').trim();
+  const sb = String(b || '').trim();
+  
+  if (!sa || !sb) return false;
+  if (sa === sb) return true;
+  if (sa.toLowerCase() === sb.toLowerCase()) return true;
+
+  // Cleanup function: remove prefixes and standardize separators
+  const clean = (s: string) => s
+    .replace(/^(rc|build|v|ver|version)[\s:.-]*/i, '') // Remove prefix words and immediate separators
+    .trim();
+
+  const ca = clean(sa);
+  const cb = clean(sb);
+
+  if (ca === cb) return true;
+  if (ca.toLowerCase() === cb.toLowerCase()) return true;
+
+  // Version segment comparison (handles 1.0 vs 1.0.0, ignores trailing zeros)
+  const isVersion = (s: string) => /^[\d.]+$/.test(s);
+  
+  if (isVersion(ca) && isVersion(cb)) {
+    const splitA = ca.split('.').map(Number);
+    const splitB = cb.split('.').map(Number);
+    
+    // Remove trailing zeros (e.g., 1.0.0 becomes 1)
+    while (splitA.length > 0 && splitA[splitA.length - 1] === 0) splitA.pop();
+    while (splitB.length > 0 && splitB[splitB.length - 1] === 0) splitB.pop();
+    
+    if (splitA.length !== splitB.length) return false;
+    return splitA.every((val, i) => val === splitB[i]);
+  }
+  
+  return false;
+};
+
+/**
+ * Orders build labels newest-last using numeric-aware comparison ("RC 1.10" after "RC 1.9")
+ */
+export const compareVersions = (a: any, b: any) =>
+  String(a || '').trim().localeCompare(String(b || '').trim(), undefined, { numeric: true, sensitivity: 'base' });
@@ -0,0 +1,93 @@
+import { DashboardData, TabColumnMappings } from "../types";
+import { ResolvedColumns, resolveColumns } from "./columnMapping";
+
+export interface CellChange {
+  column: string;
+  before: string;
+  after: string;
+}
+
+export interface ChangedRow {
+  key: string;
+  cells: CellChange[];
+}
+
+export interface TabDiff {
+  tabId: string;
+  // How rows were matched: by their build/platform/ticket cells, or by position when the tab has none
+  matchedBy: 'key' | 'position';
+  addedColumns: string[];
+  removedColumns: string[];
+  added: string[];
+  removed: string[];
+  changed: ChangedRow[];
+}
+
+const KEY_FIELDS: (keyof ResolvedColumns)[] = ['build', 'platform', 'ticket'];
+
+const cellText = (value: any) => value === null || value === undefined ? '' : String(value).trim();
+
+const keyColumns = (cols: ResolvedColumns) => {
+  const fields = KEY_FIELDS.filter(f => cols[f]);
+  // Without a ticket id an issue row is best told apart by its title
+  if (!cols.ticket && cols.title) fields.push('title');
+  return fields.map(f => cols[f]!);
+};
+
+/**
+ * Labels rows by their key cells. Repeats of the same key are numbered in
+ * sheet order so duplicates still pair up one to one.
+ */
+const keyRows = (data: DashboardData, columns: string[]) => {
+  const seen = new Map<string, number>();
+  const keyed = new Map<string, Record<string, any>>();
+  data.rows.forEach((row, i) => {
+    const base = columns.length ? columns.map(c => cellText(row[c]) || '—').join(' · ') : `Row ${i + 1}`;
+    const n = (seen.get(base) || 0) + 1;
+    seen.set(base, n);
+    keyed.set(n > 1 ? `${base} (#${n})` : base, row);
+  });
+  return keyed;
+};
+
+const diffTab = (tabId: string, before: DashboardData | undefined, after: DashboardData | undefined, mappings: TabColumnMappings): TabDiff => {
+  const empty: DashboardData = { headers: [], rows: [] };
+  const a = before || empty;
+  const b = after || empty;
+  // Key on columns both versions have, so a renamed header does not turn every row into add + remove
+  const columns = keyColumns(resolveColumns(b.headers.length ? b.headers : a.headers, mappings[tabId]))
+    .filter(c => (!before || a.headers.includes(c)) && (!after || b.headers.includes(c)));
+  const rowsA = keyRows(a, columns);
+  const rowsB = keyRows(b, columns);
+  const shared = b.headers.filter(h => a.headers.includes(h));
+
+  const changed: ChangedRow[] = [];
+  rowsB.forEach((row, key) => {
+    const prev = rowsA.get(key);
+    if (!prev) return;
+    const cells = shared
+      .filter(h => cellText(prev[h]) !== cellText(row[h]))
+      .map(h => ({ column: h, before: cellText(prev[h]), after: cellText(row[h]) }));
+    if (cells.length) changed.push({ key, cells });
+  });
+
+  return {
+    tabId,
+    matchedBy: columns.length ? 'key' : 'position',
+    addedColumns: b.headers.filter(h => !a.headers.includes(h)),
+    removedColumns: a.headers.filter(h => !b.headers.includes(h)),
+    added: Array.from(rowsB.keys()).filter(k => !rowsA.has(k)),
+    removed: Array.from(rowsA.keys()).filter(k => !rowsB.has(k)),
+    changed,
+  };
+};
+
+export const isTabDiffEmpty = (d: TabDiff) =>
+  !d.addedColumns.length && !d.removedColumns.length && !d.added.length && !d.removed.length && !d.changed.length;
+
+/**
+ * Row and cell differences for every tab present in either snapshot
+ */
+export const diffSnapshots = (before: Record<string, DashboardData>, after: Record<string, DashboardData>, mappings: TabColumnMappings): TabDiff[] =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .map(tabId => diffTab(tabId, before[tabId], after[tabId], mappings));
@@ -0,0 +1,75 @@
+import { GateVerdict } from "../types";
+
+// Chart palette shared by the dashboard and the printable report
+export const EXECUTION_COLORS = {
+  pass: '#10B981',
+  fail: '#F43F5E',
+  notConsidered: '#94A3B8',
+  automation: '#8B5CF6',
+  manual: '#EC4899',
+  critical: '#EF4444',
+  major: '#F59E0B',
+  minor: '#3B82F6',
+};
+
+export type StatusCategory = 'fail' | 'pass' | 'pending' | 'cnv' | 'notConsidered' | 'other';
+
+/**
+ * Semantic bucket of a free-text status. Order matters: "Not Fixed" must be
+ * caught before "Fixed" and "Not Implemented" before "Implemented".
+ */
+export const getStatusCategory = (value: any): StatusCategory => {
+  const s = String(value || '').toLowerCase();
+  if (s.includes('not implemented') || s.includes('not fixed') || s.includes('fail') || s.includes('error')) return 'fail';
+  if (s.includes('implemented') || s.includes('fixed') || s.includes('pass') || s.includes('success') || s.includes('completed')) return 'pass';
+  if (s.includes('in progress') || s.includes('pending') || s.includes('started')) return 'pending';
+  if (s.includes('cnv')) return 'cnv';
+  if (s.includes('not considered')) return 'notConsidered';
+  return 'other';
+};
+
+const STATUS_CATEGORY_STYLES: Record<StatusCategory, string> = {
+  fail: 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400',
+  pass: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400',
+  pending: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400',
+  cnv: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-400',
+  notConsidered: 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400',
+  other: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400',
+};
+
+/**
+ * Reusable helper to determine status styles based on semantic value
+ */
+export const getStatusStyles = (value: any) => STATUS_CATEGORY_STYLES[getStatusCategory(value)];
+
+/**
+ * Helper to determine the dot colour for an issue severity
+ */
+export const getSeverityDotStyles = (severity: string) => {
+  const s = severity.toLowerCase();
+  if (s.includes('crit')) return 'bg-rose-500';
+  if (s.includes('maj')) return 'bg-amber-500';
+  if (s.includes('min')) return 'bg-blue-500';
+  return 'bg-slate-300';
+};
+
+/**
+ * Helper to determine Build Type colors
+ */
+export const getBuildTypeStyles = (type: any) => {
+  const t = String(type || '').toLowerCase();
+  if (t.includes('hotfix')) return 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400';
+  if (t.includes('planned')) return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400';
+  if (t.includes('adhoc') || t.includes('ad-hoc')) return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
+  if (t.includes('release')) return 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400';
+  return 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400';
+};
+
+/**
+ * Helper to determine quality gate verdict colors
+ */
+export const getGateVerdictStyles = (verdict: GateVerdict) => {
+  if (verdict === 'BLOCK') return 'bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400';
+  if (verdict === 'WARN') return 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400';
+  return 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400';
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { read } from 'xlsx';
+import { ExportableTable, tableToCSV, tableToMarkdown, tableToXLSX } from './tableExport';
+
+const table: ExportableTable = {
+  name: 'New Issues 4.12.0',
+  headers: ['Ticket', 'Title', 'Passed', 'Rate'],
+  rows: [
+    { Ticket: 'QA-1', Title: 'Crash on "Save", then | freeze', Passed: 42, Rate: 97.5 },
+    { Ticket: 'QA-2', Title: 'Line one\nline two', Passed: null, Rate: '' },
+  ],
+};
+
+describe('tableToCSV', () => {
+  it('quotes fields with commas, quotes or line breaks and blanks missing values', () => {
+    expect(tableToCSV(table)).toBe(
+      'Ticket,Title,Passed,Rate\r\nQA-1,"Crash on ""Save"", then | freeze",42,97.5\r\nQA-2,"Line one\nline two",,'
+    );
+  });
+});
+
+describe('tableToMarkdown', () => {
+  it('escapes pipes and line breaks', () => {
+    const lines = tableToMarkdown(table).split('\n');
+    expect(lines[1]).toBe('| --- | --- | --- | --- |');
+    expect(lines[2]).toBe('| QA-1 | Crash on "Save", then \\| freeze | 42 | 97.5 |');
+    expect(lines[3]).toBe('| QA-2 | Line one<br>line two |   |   |');
+  });
+});
+
+describe('tableToXLSX', () => {
+  it('keeps numeric cells as numbers', () => {
+    const sheet = read(tableToXLSX(table), { type: 'array' }).Sheets['New Issues 4.12.0'];
+    expect(sheet.C2).toMatchObject({ t: 'n', v: 42 });
+    expect(sheet.D2).toMatchObject({ t: 'n', v: 97.5 });
+    expect(sheet.A2).toMatchObject({ t: 's', v: 'QA-1' });
+    expect(sheet.C3).toMatchObject({ t: 's', v: '' });
+  });
+
+  it('trims sheet names to what Excel accepts', () => {
+    const workbook = read(tableToXLSX({ ...table, name: 'Builds: 4.12/4.13 [iOS] and Android tablets' }), { type: 'array' });
+    expect(workbook.SheetNames).toEqual(['Builds  4.12 4.13  iOS  and And']);
+  });
+});
@@ -0,0 +1,61 @@
+import { utils, write } from "xlsx";
+import { downloadFile } from "./download";
+
+export type TableExportFormat = 'csv' | 'xlsx' | 'markdown';
+
+/**
+ * A table exactly as it is shown: headers in display order and rows keyed by
+ * those headers.
+ */
+export interface ExportableTable {
+  name: string;
+  headers: string[];
+  rows: Record<string, any>[];
+}
+
+const cellText = (value: any) => value === null || value === undefined ? '' : String(value);
+
+// Numbers stay numbers in workbooks, so they can be summed and sorted there
+const cellValue = (value: any): string | number => typeof value === 'number' && Number.isFinite(value) ? value : cellText(value);
+
+const toMatrix = <T>({ headers, rows }: ExportableTable, cell: (value: any) => T) => rows.map(r => headers.map(h => cell(r[h])));
+
+// RFC 4180: quote fields containing the delimiter, quotes or line breaks
+const csvField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const tableToCSV = (table: ExportableTable) =>
+  [table.headers, ...toMatrix(table, cellText)].map(line => line.map(csvField).join(',')).join('\r\n');
+
+// Pipes would end the cell and newlines the row, so both are escaped
+const markdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>').trim() || ' ';
+
+export const tableToMarkdown = (table: ExportableTable) => {
+  const line = (cells: string[]) => `| ${cells.map(markdownCell).join(' | ')} |`;
+  return [line(table.headers), line(table.headers.map(() => '---')), ...toMatrix(table, cellText).map(line)].join('\n');
+};
+
+export const tableToXLSX = (table: ExportableTable): ArrayBuffer => {
+  const sheet = utils.aoa_to_sheet([table.headers, ...toMatrix(table, cellValue)]);
+  const workbook = utils.book_new();
+  // Excel caps sheet names at 31 characters and rejects a few symbols
+  utils.book_append_sheet(workbook, sheet, table.name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1');
+  return write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+const fileBaseName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'table';
+
+/**
+ * Downloads the table as CSV or XLSX. Markdown goes to the clipboard, since it
+ * is meant for pasting into ticket and PR comments.
+ */
+export const exportTable = async (table: ExportableTable, format: TableExportFormat) => {
+  const base = fileBaseName(table.name);
+  if (format === 'csv') {
+    // The BOM makes Excel open UTF-8 CSVs with the right encoding
+    downloadFile(`\uFEFF${tableToCSV(table)}`, 'text/csv;charset=utf-8', `${base}.csv`);
+  } else if (format === 'xlsx') {
+    downloadFile(tableToXLSX(table), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', `${base}.xlsx`);
+  } else {
+    await navigator.clipboard.writeText(tableToMarkdown(table));
+  }
+};
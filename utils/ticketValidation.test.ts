@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeValidation, validationOutcome } from './ticketValidation';
+
+const cols = { build: 'Build', platform: 'Platform', ticket: 'Ticket', title: 'Title', status: 'Status', date: 'Date' };
+
+const rows = [
+  { Build: '4.12.0', Platform: 'iOS', Ticket: 'QA-1', Title: 'Crash on login', Status: 'Not Fixed', Date: '2025-03-01' },
+  { Build: '4.12.0', Platform: 'Android', Ticket: 'QA-2', Title: 'Back button ignored', Status: 'Not fixed', Date: '' },
+  { Build: '4.10.0', Platform: 'iOS', Ticket: 'QA-3', Title: 'Slow sync', Status: 'Fixed', Date: '' },
+  { Build: '4.13.0', Platform: 'iOS', Ticket: 'qa-1', Title: '', Status: 'Fixed', Date: '2025-03-10' },
+  { Build: '4.13.0', Platform: 'Android', Ticket: 'QA-1', Title: '', Status: 'Pending', Date: '' },
+  { Build: '4.14.0', Platform: 'iOS', Ticket: 'QA-1', Title: '', Status: 'Not Fixed', Date: '' },
+  { Build: '4.14.0', Platform: 'Android', Ticket: 'QA-2', Title: '', Status: 'CNV', Date: '' },
+  { Build: '4.14.0', Platform: 'iOS', Ticket: '', Title: 'Dark  mode glitch', Status: 'Won\'t fix', Date: '' },
+];
+
+describe('validationOutcome', () => {
+  it('sorts statuses into the validation outcomes', () => {
+    expect(['Fixed', 'Passed', 'Not Fixed', 'Failed', 'CNV', 'In Progress', 'Pending', 'Not Considered', 'Won\'t fix', ''].map(validationOutcome))
+      .toEqual(['fixed', 'fixed', 'notFixed', 'notFixed', 'cnv', 'pending', 'pending', 'other', 'other', 'other']);
+  });
+});
+
+describe('analyzeValidation', () => {
+  const workflow = analyzeValidation(rows, rows, cols);
+  const group = (build: string, platform: string) => workflow.groups.find(g => g.ref.build === build && g.ref.platform === platform)!;
+
+  it('groups rows by build and platform, newest build first, with outcome counts', () => {
+    expect(workflow.groups.map(g => `${g.ref.build} ${g.ref.platform}`)).toEqual([
+      '4.14.0 iOS', '4.14.0 Android', '4.13.0 iOS', '4.13.0 Android', '4.12.0 iOS', '4.12.0 Android', '4.10.0 iOS',
+    ]);
+    expect(group('4.14.0', 'iOS').counts).toEqual({ fixed: 0, notFixed: 1, cnv: 0, pending: 0, other: 1 });
+    expect(workflow.totals).toEqual({ fixed: 2, notFixed: 3, cnv: 1, pending: 1, other: 1 });
+  });
+
+  it('marks a ticket re-validated after being Not Fixed in an earlier build of the same platform', () => {
+    const [fixedOnIOS] = group('4.13.0', 'iOS').tickets;
+    const [pendingOnAndroid] = group('4.13.0', 'Android').tickets;
+    const [cnvOnAndroid] = group('4.14.0', 'Android').tickets;
+    const [failedAgainOnIOS] = group('4.14.0', 'iOS').tickets;
+    expect(fixedOnIOS).toMatchObject({ key: 'qa-1', outcome: 'fixed', revalidatedAfter: '4.12.0', date: '2025-03-10' });
+    // QA-1 was never Not Fixed on Android
+    expect(pendingOnAndroid.revalidatedAfter).toBeNull();
+    expect(cnvOnAndroid.revalidatedAfter).toBe('4.12.0');
+    expect(failedAgainOnIOS.revalidatedAfter).toBe('4.12.0');
+    expect(group('4.12.0', 'iOS').tickets[0].revalidatedAfter).toBeNull();
+    expect(workflow.revalidated).toBe(3);
+  });
+
+  it('keeps each ticket\'s history oldest build first, keyed by ticket or title', () => {
+    const qa1 = workflow.histories.get('qa-1')!;
+    expect(qa1.title).toBe('Crash on login');
+    expect(qa1.entries.map(e => `${e.build} ${e.platform} ${e.status}`)).toEqual([
+      '4.12.0 iOS Not Fixed', '4.13.0 Android Pending', '4.13.0 iOS Fixed', '4.14.0 iOS Not Fixed',
+    ]);
+    expect(workflow.histories.get('dark mode glitch')?.entries).toHaveLength(1);
+  });
+
+  it('looks at every row for history while grouping only the filtered ones', () => {
+    const filtered = analyzeValidation(rows.filter(r => r.Build === '4.13.0' && r.Platform === 'iOS'), rows, cols);
+    expect(filtered.groups).toHaveLength(1);
+    expect(filtered.groups[0].tickets[0].revalidatedAfter).toBe('4.12.0');
+    expect(filtered.revalidated).toBe(1);
+    expect(filtered.histories.get('qa-1')?.entries).toHaveLength(4);
+  });
+
+  it('matches rows without a platform against any platform', () => {
+    const noPlatform = [
+      { Build: '4.12.0', Ticket: 'QA-9', Status: 'Not Fixed' },
+      { Build: '4.13.0', Ticket: 'QA-9', Status: 'Fixed' },
+    ];
+    const result = analyzeValidation(noPlatform, noPlatform, cols);
+    expect(result.groups.map(g => g.tickets[0].revalidatedAfter)).toEqual(['4.12.0', null]);
+  });
+});
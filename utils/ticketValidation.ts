@@ -0,0 +1,153 @@
+import { BuildRef, buildRefKey } from "./buildComparison";
+import { ResolvedColumns } from "./columnMapping";
+import { toISODate } from "./dateRanges";
+import { getDate, getText } from "./schema";
+import { compareVersions, smartCompare } from "./smartCompare";
+import { EXECUTION_COLORS, getStatusCategory, StatusCategory } from "./statusStyles";
+
+export type ValidationOutcome = 'fixed' | 'notFixed' | 'cnv' | 'pending' | 'other';
+
+// Progress bar order and colours; 'other' holds statuses outside the four validation outcomes
+export const VALIDATION_OUTCOMES: Record<ValidationOutcome, { label: string; color: string }> = {
+  fixed: { label: 'Fixed', color: EXECUTION_COLORS.pass },
+  notFixed: { label: 'Not Fixed', color: EXECUTION_COLORS.fail },
+  cnv: { label: 'CNV', color: '#EAB308' },
+  pending: { label: 'Pending', color: EXECUTION_COLORS.major },
+  other: { label: 'Other', color: EXECUTION_COLORS.notConsidered },
+};
+
+const OUTCOME_BY_CATEGORY: Record<StatusCategory, ValidationOutcome> = {
+  pass: 'fixed',
+  fail: 'notFixed',
+  cnv: 'cnv',
+  pending: 'pending',
+  notConsidered: 'other',
+  other: 'other',
+};
+
+export const validationOutcome = (status: string): ValidationOutcome => OUTCOME_BY_CATEGORY[getStatusCategory(status)];
+
+export type OutcomeCounts = Record<ValidationOutcome, number>;
+
+export interface TicketValidation {
+  // Lower-cased ticket id, or the title when the row has none; '' when it has neither
+  key: string;
+  ticket: string;
+  title: string;
+  build: string;
+  platform: string;
+  status: string;
+  outcome: ValidationOutcome;
+  date: string | null;
+  // The earlier build this ticket was Not Fixed in, when this row re-validates it
+  revalidatedAfter: string | null;
+}
+
+export interface TicketHistory {
+  key: string;
+  ticket: string;
+  title: string;
+  // Oldest build first
+  entries: TicketValidation[];
+}
+
+export interface ValidationBuildGroup {
+  ref: BuildRef;
+  tickets: TicketValidation[];
+  counts: OutcomeCounts;
+}
+
+export interface ValidationWorkflow {
+  // Newest build first
+  groups: ValidationBuildGroup[];
+  totals: OutcomeCounts;
+  revalidated: number;
+  histories: Map<string, TicketHistory>;
+}
+
+const emptyOutcomeCounts = (): OutcomeCounts => ({ fixed: 0, notFixed: 0, cnv: 0, pending: 0, other: 0 });
+
+const compareRefs = (a: BuildRef, b: BuildRef) => compareVersions(a.build, b.build) || a.platform.localeCompare(b.platform);
+
+const toValidation = (row: Record<string, any>, cols: Partial<ResolvedColumns>): TicketValidation => {
+  const ticket = getText(row, cols.ticket);
+  const title = getText(row, cols.title);
+  const status = getText(row, cols.status);
+  const date = getDate(row, cols.date);
+  return {
+    key: ticket ? ticket.toLowerCase() : title.toLowerCase().replace(/\s+/g, ' '),
+    ticket,
+    title,
+    build: getText(row, cols.build),
+    platform: getText(row, cols.platform),
+    status,
+    outcome: validationOutcome(status),
+    date: date ? toISODate(date) : null,
+    revalidatedAfter: null,
+  };
+};
+
+/**
+ * Builds the per-ticket history from every row of the tab, oldest build
+ * first, and marks rows that re-validate a ticket left Not Fixed in an
+ * earlier build of the same platform.
+ */
+const buildHistories = (allRows: Record<string, any>[], cols: Partial<ResolvedColumns>) => {
+  const byRow = new Map<Record<string, any>, TicketValidation>();
+  const histories = new Map<string, TicketHistory>();
+
+  allRows.forEach(row => {
+    const v = toValidation(row, cols);
+    byRow.set(row, v);
+    if (!v.key) return;
+    const h = histories.get(v.key) || { key: v.key, ticket: v.ticket, title: v.title, entries: [] };
+    if (!h.title && v.title) h.title = v.title;
+    h.entries.push(v);
+    histories.set(v.key, h);
+  });
+
+  histories.forEach(h => {
+    // Stable sort keeps sheet order for repeat rows of the same build
+    h.entries.sort(compareRefs);
+    h.entries.forEach((v, i) => {
+      const earlier = h.entries.slice(0, i).reverse().find(prev =>
+        prev.outcome === 'notFixed' &&
+        compareVersions(prev.build, v.build) < 0 &&
+        (!prev.platform || !v.platform || smartCompare(prev.platform, v.platform))
+      );
+      v.revalidatedAfter = earlier ? earlier.build : null;
+    });
+  });
+
+  return { byRow, histories };
+};
+
+/**
+ * Groups the (already filtered) validation rows by build. History and
+ * re-validation look at every row of the tab, so narrowing the dashboard
+ * to one build still shows where its tickets failed before.
+ */
+export const analyzeValidation = (rows: Record<string, any>[], allRows: Record<string, any>[], cols: Partial<ResolvedColumns>): ValidationWorkflow => {
+  const { byRow, histories } = buildHistories(allRows, cols);
+  const groups = new Map<string, ValidationBuildGroup>();
+  const totals = emptyOutcomeCounts();
+  let revalidated = 0;
+
+  rows.forEach(row => {
+    const v = byRow.get(row) || toValidation(row, cols);
+    const ref = { build: v.build, platform: v.platform };
+    const g = groups.get(buildRefKey(ref)) || { ref, tickets: [], counts: emptyOutcomeCounts() };
+    g.tickets.push(v);
+    g.counts[v.outcome]++;
+    groups.set(buildRefKey(ref), g);
+    totals[v.outcome]++;
+    if (v.revalidatedAfter) revalidated++;
+  });
+
+  return {
+    groups: Array.from(groups.values()).sort((a, b) => compareRefs(b.ref, a.ref)),
+    totals,
+    revalidated,
+    histories,
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { parseViewState, serializeViewState, ViewState } from './viewState';
+
+const EMPTY: ViewState = {
+  profile: '',
+  tab: '',
+  view: '',
+  platforms: [],
+  builds: [],
+  startDate: '',
+  endDate: '',
+  dateRange: '',
+  dimensions: { buildTypes: [], statuses: [], severities: [], releasedToStore: [] },
+};
+
+const view = (patch: Partial<ViewState>): ViewState => ({ ...EMPTY, ...patch });
+
+describe('serializeViewState / parseViewState', () => {
+  it('round-trips every field', () => {
+    const state = view({
+      profile: 'mobile',
+      tab: 'new_issues',
+      view: 'analytics',
+      platforms: ['iOS', 'Android'],
+      builds: ['4.12.0'],
+      startDate: '2025-03-01',
+      endDate: '2025-03-31',
+      dateRange: 'last30',
+      dimensions: { buildTypes: ['RC'], statuses: ['Open', 'In Progress'], severities: ['Critical'], releasedToStore: ['Yes'] },
+    });
+    expect(parseViewState(serializeViewState(state))).toEqual(state);
+  });
+
+  it('round-trips values with separators, spaces and non-Latin text', () => {
+    const state = view({ tab: 'a&b=c', builds: ['RC 4.12.0 #2'], dimensions: { ...EMPTY.dimensions, statuses: ['Won\'t fix', '保留'] } });
+    expect(parseViewState(serializeViewState(state))).toEqual(state);
+  });
+
+  it('repeats list parameters once per value', () => {
+    expect(serializeViewState(view({ platforms: ['iOS', 'Android'] }))).toBe('?platform=iOS&platform=Android');
+  });
+
+  it('writes nothing for the default view', () => {
+    expect(serializeViewState(EMPTY)).toBe('');
+    expect(parseViewState('')).toEqual(EMPTY);
+  });
+});
+
+describe('parseViewState', () => {
+  it('reads queries with or without the leading question mark', () => {
+    expect(parseViewState('tab=summary').tab).toBe('summary');
+    expect(parseViewState('?tab=summary').tab).toBe('summary');
+  });
+
+  it('ignores unknown parameters', () => {
+    expect(parseViewState('?utm_source=mail&foo=bar&Platform=iOS&fbclid=x')).toEqual(EMPTY);
+  });
+
+  it('drops malformed or impossible dates', () => {
+    const state = parseViewState('?from=yesterday&to=2025-02-30');
+    expect([state.startDate, state.endDate]).toEqual(['', '']);
+    expect(parseViewState('?from=2025-3-1&to=%202025-03-31%20').endDate).toBe('2025-03-31');
+    expect(parseViewState('?from=2025-3-1').startDate).toBe('');
+  });
+
+  it('drops unknown relative ranges', () => {
+    expect(parseViewState('?range=last8').dateRange).toBe('');
+    expect(parseViewState('?range=constructor').dateRange).toBe('');
+    expect(parseViewState('?range=thisSprint').dateRange).toBe('thisSprint');
+  });
+
+  it('trims list values and skips blanks and the old "All" placeholder', () => {
+    expect(parseViewState('?platform=All&platform=&platform=%20iOS%20&build=All').platforms).toEqual(['iOS']);
+    expect(parseViewState('?build=All').builds).toEqual([]);
+  });
+
+  it('uses the first of a repeated scalar parameter', () => {
+    expect(parseViewState('?tab=summary&tab=new_issues').tab).toBe('summary');
+  });
+});
@@ -0,0 +1,83 @@
+import { isRelativeDateRange, RelativeDateRange } from "./dateRanges";
+import { FilterDimension } from "./filterEngine";
+import { parseDateValue } from "./schema";
+
+/**
+ * The shareable part of the dashboard view. Everything lives in the query
+ * string so links survive the nginx `try_files ... /index.html` fallback.
+ */
+export interface ViewState {
+  profile: string;
+  tab: string;
+  // Sub-view of the tab, e.g. 'analytics' on the issues tab
+  view: string;
+  platforms: string[];
+  builds: string[];
+  startDate: string;
+  endDate: string;
+  dateRange: RelativeDateRange | '';
+  dimensions: Record<FilterDimension, string[]>;
+}
+
+type ScalarKey = Exclude<keyof ViewState, 'platforms' | 'builds' | 'dimensions'>;
+type ListKey = 'platforms' | 'builds' | FilterDimension;
+
+const PARAMS: Record<ScalarKey, string> = {
+  profile: 'profile',
+  tab: 'tab',
+  view: 'view',
+  startDate: 'from',
+  endDate: 'to',
+  dateRange: 'range',
+};
+
+// List filters repeat their parameter once per value (?platform=iOS&platform=Android)
+const LIST_PARAMS: Record<ListKey, string> = {
+  platforms: 'platform',
+  builds: 'build',
+  buildTypes: 'type',
+  statuses: 'status',
+  severities: 'severity',
+  releasedToStore: 'store',
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const parseViewState = (search: string): ViewState => {
+  const params = new URLSearchParams(search);
+  const get = (key: ScalarKey) => (params.get(PARAMS[key]) || '').trim();
+  // Well-formed and a real day; 2025-02-30 would otherwise reach the date pickers
+  const date = (key: ScalarKey) => DATE_RE.test(get(key)) && parseDateValue(get(key)) ? get(key) : '';
+  // An explicit 'All' means no filter, as it did for the old single-value selects
+  const list = (key: ListKey) => params.getAll(LIST_PARAMS[key]).map(v => v.trim()).filter(v => v && v !== 'All');
+  return {
+    profile: get('profile'),
+    tab: get('tab'),
+    view: get('view'),
+    platforms: list('platforms'),
+    builds: list('builds'),
+    startDate: date('startDate'),
+    endDate: date('endDate'),
+    dateRange: isRelativeDateRange(get('dateRange')) ? get('dateRange') as RelativeDateRange : '',
+    dimensions: {
+      buildTypes: list('buildTypes'),
+      statuses: list('statuses'),
+      severities: list('severities'),
+      releasedToStore: list('releasedToStore'),
+    },
+  };
+};
+
+// Defaults are left out so an unfiltered view keeps a clean URL
+export const serializeViewState = (state: ViewState) => {
+  const params = new URLSearchParams();
+  (Object.keys(PARAMS) as ScalarKey[]).forEach(key => {
+    if (state[key]) params.set(PARAMS[key], state[key]);
+  });
+  (Object.keys(LIST_PARAMS) as ListKey[]).forEach(key => {
+    const values = key === 'platforms' || key === 'builds' ? state[key] : state.dimensions[key];
+    values.forEach(v => params.append(LIST_PARAMS[key], v));
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
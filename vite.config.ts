@@ -2,12 +2,16 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // `npm run sheet-proxy` in a second terminal serves the same /api/ paths as nginx does in production
+        proxy: {
+          '/api': 'http://127.0.0.1:8081',
+        },
       },
       plugins: [react()],
       define: {
@@ -18,6 +22,20 @@ export default defineConfig(({ mode }) => {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
-      }
+      },
+      // `vite build --ssr` bundles the Node services: sheet proxy, webhook notifier and its test stub
+      build: isSsrBuild ? {
+        outDir: 'dist-server',
+        copyPublicDir: false,
+        rollupOptions: {
+          input: {
+            'sheet-proxy': path.resolve(__dirname, 'server/sheetProxy.ts'),
+            webhooks: path.resolve(__dirname, 'server/webhooks.ts'),
+            'webhook-stub': path.resolve(__dirname, 'server/webhookStub.ts'),
+          },
+          // .mjs so Node runs them as ES modules without a package.json next to them
+          output: { entryFileNames: '[name].mjs', chunkFileNames: '[name]-[hash].mjs' },
+        },
+      } : undefined,
     };
 });